@@ -7,20 +7,22 @@ export const createResolvers = (queue: QueueManager) => ({
     overallStats: async () => {
       return await queue.getStats();
     },
-    requests: async (_: unknown, args: { status?: string; host?: string; limit?: number; offset?: number }) => {
-      const store = (queue as any).postgres; 
-      const statusParam = args.status ? (args.status as RequestStatus) : undefined;
-      let requests = await store.getRequestsByStatus(statusParam, args.limit ?? 100, args.offset ?? 0, args.host);
+    requests: async (_: unknown, args: { status?: string; host?: string; limit?: number }) => {
+      const { items } = await queue.search({
+        status: args.status ? (args.status as RequestStatus) : undefined,
+        host: args.host || undefined,
+        limit: args.limit ?? 100,
+      });
 
-      return requests.map((req: any) => ({
-        ...req,
-        maxRetries: req.max_retries,
-        createdAt: req.created_at,
-        updatedAt: req.updated_at,
-        completedAt: req.completed_at,
-        scheduledFor: req.scheduled_for,
-        lastAttemptAt: req.last_attempt_at,
-        nextRetryAt: req.next_retry_at,
+      return items.map((state) => ({
+        ...state.request,
+        status: state.status,
+        attempts: state.attempts,
+        updatedAt: state.updatedAt,
+        lastAttemptAt: state.lastAttemptAt,
+        nextRetryAt: state.nextRetryAt,
+        error: state.error,
+        response: state.response,
       }));
     },
     request: async (_: unknown, args: { id: string }) => {
@@ -1,16 +1,15 @@
-import type { CircuitBreakerConfig, CircuitBreakerState } from '../types';
-import type { RedisStore } from '../storage/redis';
+import type { CircuitBreakerConfig, CircuitBreakerState, QueueBackend } from '../types';
 
 // ============================================================================
 // Circuit Breaker
 // ============================================================================
 
 export class CircuitBreaker {
-  private redis: RedisStore;
+  private backend: QueueBackend;
   private config: CircuitBreakerConfig;
 
-  constructor(redis: RedisStore, config: CircuitBreakerConfig) {
-    this.redis = redis;
+  constructor(backend: QueueBackend, config: CircuitBreakerConfig) {
+    this.backend = backend;
     this.config = config;
   }
 
@@ -18,7 +17,7 @@ export class CircuitBreaker {
    * Checks if the circuit is allowing requests for a given host.
    */
   async isAllowed(host: string): Promise<{ allowed: boolean; state: CircuitBreakerState }> {
-    const state = await this.redis.getCircuitBreakerState(host);
+    const state = await this.backend.getCircuitBreakerState(host);
 
     switch (state.state) {
       case 'closed':
@@ -31,7 +30,7 @@ export class CircuitBreaker {
           
           if (elapsed >= this.config.resetTimeout) {
             // Transition to half-open
-            await this.redis.updateCircuitBreaker(host, {
+            await this.backend.updateCircuitBreaker(host, {
               state: 'half-open',
               resetCounters: true,
             });
@@ -58,16 +57,16 @@ export class CircuitBreaker {
    * Records a successful request.
    */
   async recordSuccess(host: string): Promise<void> {
-    const state = await this.redis.getCircuitBreakerState(host);
+    const state = await this.backend.getCircuitBreakerState(host);
 
     switch (state.state) {
       case 'half-open': {
         // Increment successes
-        await this.redis.updateCircuitBreaker(host, { incrementSuccesses: true });
+        await this.backend.updateCircuitBreaker(host, { incrementSuccesses: true });
 
         // Check if we have enough successes to close the circuit
         if (state.successes + 1 >= this.config.successThreshold) {
-          await this.redis.updateCircuitBreaker(host, {
+          await this.backend.updateCircuitBreaker(host, {
             state: 'closed',
             resetCounters: true,
           });
@@ -78,7 +77,7 @@ export class CircuitBreaker {
       case 'closed': {
         // Reset failure count on success in closed state
         if (state.failures > 0) {
-          await this.redis.updateCircuitBreaker(host, { resetCounters: true });
+          await this.backend.updateCircuitBreaker(host, { resetCounters: true });
         }
         break;
       }
@@ -89,16 +88,16 @@ export class CircuitBreaker {
    * Records a failed request.
    */
   async recordFailure(host: string): Promise<void> {
-    const state = await this.redis.getCircuitBreakerState(host);
+    const state = await this.backend.getCircuitBreakerState(host);
 
     switch (state.state) {
       case 'closed': {
         // Increment failures
-        await this.redis.updateCircuitBreaker(host, { incrementFailures: true });
+        await this.backend.updateCircuitBreaker(host, { incrementFailures: true });
 
         // Check if we should open the circuit
         if (state.failures + 1 >= this.config.failureThreshold) {
-          await this.redis.updateCircuitBreaker(host, {
+          await this.backend.updateCircuitBreaker(host, {
             state: 'open',
             resetCounters: true,
           });
@@ -108,7 +107,7 @@ export class CircuitBreaker {
 
       case 'half-open': {
         // Any failure in half-open state opens the circuit
-        await this.redis.updateCircuitBreaker(host, {
+        await this.backend.updateCircuitBreaker(host, {
           state: 'open',
           incrementFailures: true,
         });
@@ -126,7 +125,7 @@ export class CircuitBreaker {
     successes: number;
     timeUntilReset?: number;
   }> {
-    const cbState = await this.redis.getCircuitBreakerState(host);
+    const cbState = await this.backend.getCircuitBreakerState(host);
 
     let timeUntilReset: number | undefined;
 
@@ -147,7 +146,7 @@ export class CircuitBreaker {
    * Manually resets the circuit breaker for a host.
    */
   async reset(host: string): Promise<void> {
-    await this.redis.updateCircuitBreaker(host, {
+    await this.backend.updateCircuitBreaker(host, {
       state: 'closed',
       resetCounters: true,
     });
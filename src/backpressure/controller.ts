@@ -1,5 +1,4 @@
-import type { BackpressureConfig, CircuitBreakerState } from '../types';
-import type { RedisStore } from '../storage/redis';
+import type { BackpressureConfig, CircuitBreakerState, QueueBackend } from '../types';
 import { RateLimiter } from './rate-limiter';
 import { CircuitBreaker } from './circuit-breaker';
 
@@ -17,12 +16,12 @@ export class BackpressureController {
   private activeRequests: Map<string, number> = new Map();
   private totalActive = 0;
 
-  constructor(redis: RedisStore, config: BackpressureConfig) {
+  constructor(backend: QueueBackend, config: BackpressureConfig) {
     this.config = config;
 
-    this.rateLimiter = new RateLimiter(redis, config.rateLimit ?? {});
+    this.rateLimiter = new RateLimiter(backend, config.rateLimit ?? {});
     this.circuitBreaker = new CircuitBreaker(
-      redis,
+      backend,
       config.circuitBreaker ?? {
         failureThreshold: 5,
         successThreshold: 3,
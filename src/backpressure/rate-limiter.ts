@@ -1,17 +1,16 @@
-import type { RateLimitConfig } from '../types';
-import type { RedisStore } from '../storage/redis';
+import type { RateLimitConfig, QueueBackend } from '../types';
 
 // ============================================================================
 // Token Bucket Rate Limiter
 // ============================================================================
 
 export class RateLimiter {
-  private redis: RedisStore;
+  private backend: QueueBackend;
   private config: Required<RateLimitConfig>;
   private globalKey = 'global';
 
-  constructor(redis: RedisStore, config: RateLimitConfig) {
-    this.redis = redis;
+  constructor(backend: QueueBackend, config: RateLimitConfig) {
+    this.backend = backend;
     this.config = {
       requestsPerSecond: config.requestsPerSecond ?? 100,
       requestsPerMinute: config.requestsPerMinute ?? 6000,
@@ -25,7 +24,7 @@ export class RateLimiter {
    */
   async acquire(host?: string): Promise<{ allowed: boolean; retryAfter?: number }> {
     // Check global rate limit first
-    const globalResult = await this.redis.checkRateLimit(
+    const globalResult = await this.backend.checkRateLimit(
       this.globalKey,
       this.config.requestsPerSecond,
       this.config.burstSize
@@ -37,7 +36,7 @@ export class RateLimiter {
 
     // Check per-host rate limit if host is provided
     if (host) {
-      const hostResult = await this.redis.checkRateLimit(
+      const hostResult = await this.backend.checkRateLimit(
         `host:${host}`,
         Math.ceil(this.config.requestsPerSecond / 10), // 10% of global for per-host
         Math.ceil(this.config.burstSize / 5)
@@ -4,7 +4,18 @@ import type {
   BackpressureConfig,
   CircuitBreakerConfig,
   RateLimitConfig,
+  RecoveryConfig,
+  RetentionConfig,
+  OutboxConfig,
+  ResponseStorageConfig,
+  DiagnosticsConfig,
+  WorkflowConfig,
+  BatchConfig,
+  ScheduleConfig,
+  OrderingConfig,
+  QueueConfig,
 } from '../types';
+import { QueueNameSchema } from '../types';
 
 // ============================================================================
 // Default Configurations
@@ -38,28 +49,106 @@ export const DEFAULT_BACKPRESSURE_CONFIG: BackpressureConfig = {
   circuitBreaker: DEFAULT_CIRCUIT_BREAKER_CONFIG,
 };
 
-export const DEFAULT_QUEUE_MANAGER_CONFIG: Required<Omit<QueueManagerConfig, 'redis' | 'postgres'>> = {
+export const DEFAULT_RECOVERY_CONFIG: RecoveryConfig = {
+  enabled: true,
+  leaseTimeout: 120000,
+  checkInterval: 15000,
+  heartbeatInterval: 5000,
+};
+
+export const DEFAULT_RETENTION_CONFIG: RetentionConfig = {
+  enabled: false,
+  completedAfterDays: 7,
+  deadAfterDays: 30,
+  cancelledAfterDays: 7,
+  batchSize: 1000,
+  interval: 60 * 60 * 1000,
+  archive: 'none',
+};
+
+export const DEFAULT_OUTBOX_CONFIG: OutboxConfig = {
+  enabled: true,
+  pollInterval: 1000,
+  batchSize: 500,
+};
+
+export const DEFAULT_RESPONSE_STORAGE_CONFIG: ResponseStorageConfig = {
+  policy: 'full',
+  maxResponseBodyBytes: 10 * 1024 * 1024,
+  truncateBytes: 4096,
+  offloadThresholdBytes: 64 * 1024,
+};
+
+export const DEFAULT_DIAGNOSTICS_CONFIG: DiagnosticsConfig = {
+  enabled: false,
+  redactHeaders: /^(authorization|proxy-authorization|cookie)$|token|secret|signature|api-?key|password/i,
+  excerptBytes: 1024,
+};
+
+export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
+  enabled: true,
+  checkInterval: 30000,
+};
+
+export const DEFAULT_BATCH_CONFIG: BatchConfig = {
+  enabled: true,
+  checkInterval: 30000,
+};
+
+export const DEFAULT_SCHEDULE_CONFIG: ScheduleConfig = {
+  enabled: true,
+  checkInterval: 5000,
+};
+
+export const DEFAULT_ORDERING_CONFIG: OrderingConfig = {
+  enabled: true,
+  checkInterval: 30000,
+  onDead: 'block',
+};
+
+export const DEFAULT_QUEUE = 'default';
+
+export const DEFAULT_QUEUE_MANAGER_CONFIG: Required<Omit<QueueManagerConfig, 'redis' | 'postgres' | 'sqlite' | 'storage' | 'encryption' | 'queues' | 'serve'>> = {
   concurrency: 10,
   retry: DEFAULT_RETRY_CONFIG,
   backpressure: DEFAULT_BACKPRESSURE_CONFIG,
   workerCount: 1,
   pollInterval: 100,
   gracefulShutdownTimeout: 30000,
+  recovery: DEFAULT_RECOVERY_CONFIG,
+  reconcileOnStart: true,
+  retention: DEFAULT_RETENTION_CONFIG,
+  outbox: DEFAULT_OUTBOX_CONFIG,
+  responseStorage: DEFAULT_RESPONSE_STORAGE_CONFIG,
+  diagnostics: DEFAULT_DIAGNOSTICS_CONFIG,
+  bulkChunkSize: 1000,
+  idempotencyWindow: 24 * 60 * 60 * 1000,
+  workflows: DEFAULT_WORKFLOW_CONFIG,
+  batches: DEFAULT_BATCH_CONFIG,
+  schedules: DEFAULT_SCHEDULE_CONFIG,
+  ordering: DEFAULT_ORDERING_CONFIG,
 };
 
 // ============================================================================
 // Redis Keys
 // ============================================================================
 
+// Appended to a queue's key prefix, or for locks and instances to the shared
+// one (see redisKeyPrefixes). Named queues keep the same keys under
+// 'queues:<name>:'
 export const REDIS_KEYS = {
+  NAMED_QUEUE_PREFIX: 'queues:',
+  SHARED_PREFIX: 'shared:',
   QUEUE: 'queue:pending',
   PROCESSING: 'queue:processing',
+  PROCESSING_OWNERS: 'queue:processing:owners',
   SCHEDULED: 'queue:scheduled',
   DEAD_LETTER: 'queue:dead',
   REQUEST_PREFIX: 'request:',
   RATE_LIMIT_PREFIX: 'ratelimit:',
   CIRCUIT_BREAKER_PREFIX: 'cb:',
   LOCK_PREFIX: 'lock:',
+  INSTANCE_PREFIX: 'instance:',
   CHANNEL_NEW_REQUEST: 'channel:new-request',
   CHANNEL_RETRY: 'channel:retry',
 } as const;
@@ -68,9 +157,83 @@ export const REDIS_KEYS = {
 // Utility Functions
 // ============================================================================
 
+/**
+ * Wraps a Redis key prefix in a hash tag, e.g. 'hqm:' becomes '{hqm}:'.
+ * Prefixes that already carry a tag are returned unchanged.
+ */
+export function hashTaggedPrefix(prefix: string): string {
+  if (/\{[^}]+\}/.test(prefix)) return prefix;
+
+  const name = prefix.endsWith(':') ? prefix.slice(0, -1) : prefix;
+  return `{${name || 'hqm'}}:`;
+}
+
+/**
+ * Key prefixes of one queue's keys and of the locks and instance heartbeats
+ * all queues share. In cluster mode each gets its own hash tag, e.g.
+ * '{hqm}:' for 'default', '{hqm:queues:webhooks}:' and '{hqm:shared}:', so a
+ * queue's keys, which scripts and transactions use together, hash to one
+ * slot while queues spread across the cluster. A prefix that already has a
+ * tag keeps every key in its slot.
+ */
+export function redisKeyPrefixes(
+  keyPrefix: string,
+  queue: string,
+  cluster: boolean
+): { queue: string; shared: string } {
+  const queuePrefix =
+    queue === DEFAULT_QUEUE ? keyPrefix : `${keyPrefix}${REDIS_KEYS.NAMED_QUEUE_PREFIX}${queue}:`;
+
+  if (!cluster) return { queue: queuePrefix, shared: keyPrefix };
+
+  return {
+    queue: hashTaggedPrefix(queuePrefix),
+    shared: hashTaggedPrefix(`${keyPrefix}${REDIS_KEYS.SHARED_PREFIX}`),
+  };
+}
+
+/**
+ * Settings of 'default' and every named queue. A named queue's retry and
+ * backpressure settings are merged over the top-level ones.
+ */
+export function resolveQueues(config: ReturnType<typeof mergeConfig>): QueueConfig[] {
+  const named = config.queues ?? {};
+  const names = [DEFAULT_QUEUE, ...Object.keys(named).filter((name) => name !== DEFAULT_QUEUE)];
+
+  return names.map((name) => {
+    QueueNameSchema.parse(name);
+    const queue = named[name] ?? {};
+
+    return {
+      name,
+      retry: { ...config.retry, ...queue.retry },
+      backpressure: {
+        ...config.backpressure,
+        ...queue.backpressure,
+        rateLimit: { ...config.backpressure.rateLimit, ...queue.backpressure?.rateLimit },
+        circuitBreaker: {
+          ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+          ...config.backpressure.circuitBreaker,
+          ...queue.backpressure?.circuitBreaker,
+        },
+      },
+      workerCount: queue.workerCount ?? config.workerCount ?? DEFAULT_QUEUE_MANAGER_CONFIG.workerCount,
+    };
+  });
+}
+
 export function mergeConfig(userConfig: QueueManagerConfig): QueueManagerConfig & {
   retry: RetryConfig;
   backpressure: BackpressureConfig;
+  recovery: RecoveryConfig;
+  retention: RetentionConfig;
+  outbox: OutboxConfig;
+  responseStorage: ResponseStorageConfig;
+  diagnostics: DiagnosticsConfig;
+  workflows: WorkflowConfig;
+  batches: BatchConfig;
+  schedules: ScheduleConfig;
+  ordering: OrderingConfig;
 } {
   return {
     ...userConfig,
@@ -79,6 +242,9 @@ export function mergeConfig(userConfig: QueueManagerConfig): QueueManagerConfig
     pollInterval: userConfig.pollInterval ?? DEFAULT_QUEUE_MANAGER_CONFIG.pollInterval,
     gracefulShutdownTimeout:
       userConfig.gracefulShutdownTimeout ?? DEFAULT_QUEUE_MANAGER_CONFIG.gracefulShutdownTimeout,
+    reconcileOnStart: userConfig.reconcileOnStart ?? DEFAULT_QUEUE_MANAGER_CONFIG.reconcileOnStart,
+    bulkChunkSize: userConfig.bulkChunkSize ?? DEFAULT_QUEUE_MANAGER_CONFIG.bulkChunkSize,
+    idempotencyWindow: userConfig.idempotencyWindow ?? DEFAULT_QUEUE_MANAGER_CONFIG.idempotencyWindow,
     retry: {
       ...DEFAULT_RETRY_CONFIG,
       ...userConfig.retry,
@@ -95,5 +261,41 @@ export function mergeConfig(userConfig: QueueManagerConfig): QueueManagerConfig
         ...userConfig.backpressure?.circuitBreaker,
       },
     },
+    recovery: {
+      ...DEFAULT_RECOVERY_CONFIG,
+      ...userConfig.recovery,
+    },
+    retention: {
+      ...DEFAULT_RETENTION_CONFIG,
+      ...userConfig.retention,
+    },
+    outbox: {
+      ...DEFAULT_OUTBOX_CONFIG,
+      ...userConfig.outbox,
+    },
+    responseStorage: {
+      ...DEFAULT_RESPONSE_STORAGE_CONFIG,
+      ...userConfig.responseStorage,
+    },
+    diagnostics: {
+      ...DEFAULT_DIAGNOSTICS_CONFIG,
+      ...userConfig.diagnostics,
+    },
+    workflows: {
+      ...DEFAULT_WORKFLOW_CONFIG,
+      ...userConfig.workflows,
+    },
+    batches: {
+      ...DEFAULT_BATCH_CONFIG,
+      ...userConfig.batches,
+    },
+    schedules: {
+      ...DEFAULT_SCHEDULE_CONFIG,
+      ...userConfig.schedules,
+    },
+    ordering: {
+      ...DEFAULT_ORDERING_CONFIG,
+      ...userConfig.ordering,
+    },
   };
 }
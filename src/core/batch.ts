@@ -0,0 +1,126 @@
+import type { BatchConfig, BatchState, StateStore, StoredBatch } from '../types';
+
+// ============================================================================
+// Batch State
+// ============================================================================
+
+export function toBatchState(batch: StoredBatch): BatchState {
+  const finished = batch.completed + batch.dead + batch.cancelled;
+
+  return {
+    id: batch.id,
+    total: batch.total,
+    completed: batch.completed,
+    failed: batch.dead + batch.cancelled,
+    dead: batch.dead,
+    cancelled: batch.cancelled,
+    pending: Math.max(batch.total - finished, 0),
+    metadata: batch.metadata ?? undefined,
+    createdAt: batch.created_at,
+    updatedAt: batch.updated_at,
+    completedAt: batch.completed_at ?? undefined,
+  };
+}
+
+// ============================================================================
+// Batch Tracker
+// ============================================================================
+
+const PAGE_SIZE = 100;
+
+/**
+ * Completes batches once all their members have finished. The state store
+ * counts members as they finish; marking a batch complete is a conditional
+ * update, so exactly one caller across instances reports each batch. If
+ * reporting fails, the batch is reopened and reported again by a later check.
+ */
+export class BatchTracker {
+  private store: StateStore;
+  private config: BatchConfig;
+  private onComplete: (batch: BatchState) => Promise<void>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    store: StateStore,
+    config: BatchConfig,
+    onComplete: (batch: BatchState) => Promise<void>
+  ) {
+    this.store = store;
+    this.config = config;
+    this.onComplete = onComplete;
+  }
+
+  /**
+   * Starts periodic checks for finished batches, if enabled.
+   */
+  start(): void {
+    if (this.timer || !this.config.enabled) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(() => {});
+    }, this.config.checkInterval);
+  }
+
+  /**
+   * Stops periodic checks.
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Completes every batch whose members have all finished. Returns how many
+   * were completed.
+   */
+  async run(): Promise<number> {
+    let completed = 0;
+
+    while (true) {
+      const batches = await this.store.completeFinishedBatches(PAGE_SIZE);
+      let failed = 0;
+
+      for (const batch of batches) {
+        await this.report(batch).catch(() => failed++);
+      }
+
+      completed += batches.length - failed;
+
+      // Reopened batches are left to the next run rather than retried at once
+      if (batches.length < PAGE_SIZE || failed > 0) return completed;
+    }
+  }
+
+  /**
+   * Reacts to a request having completed, been dead-lettered or cancelled.
+   */
+  async settled(requestId: string): Promise<void> {
+    const row = await this.store.getRequest(requestId);
+    if (row?.batch_id) await this.check(row.batch_id);
+  }
+
+  /**
+   * Completes the batch if all its members have finished.
+   */
+  async check(batchId: string): Promise<void> {
+    const batch = await this.store.completeBatch(batchId);
+    if (batch) await this.report(batch);
+  }
+
+  private async report(batch: StoredBatch): Promise<void> {
+    try {
+      await this.onComplete(toBatchState(batch));
+    } catch (error) {
+      await this.store.reopenBatch(batch.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a batch's state, or null if there is no such batch.
+   */
+  async getBatch(batchId: string): Promise<BatchState | null> {
+    const batch = await this.store.getBatch(batchId);
+    return batch ? toBatchState(batch) : null;
+  }
+}
@@ -0,0 +1,235 @@
+// ============================================================================
+// Cron Expressions
+// ============================================================================
+
+/**
+ * A parsed five-field cron expression: the values each field allows.
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether day of month and day of week were left as '*'. */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const PART = /^(\*|[A-Za-z0-9]+)(?:-([A-Za-z0-9]+))?(?:\/(\d+))?$/;
+
+/**
+ * Parses `minute hour day-of-month month day-of-week`. Fields take '*',
+ * values, ranges (`1-5`), steps (`0-30/10`, or '*' followed by `/15`) and
+ * lists of these; months and weekdays also take names (`JAN`, `MON`).
+ * Macros such as '@daily' and '@hourly' are accepted too. As in classic
+ * cron, when both day fields are restricted a day matching either qualifies.
+ */
+export function parseCron(expression: string): CronExpression {
+  const text = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = text.split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseField(expression, field, FIELDS[i]!)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  };
+}
+
+function parseField(expression: string, text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  const invalid = (part: string) =>
+    new Error(`Invalid cron expression "${expression}": bad ${field.name} "${part}"`);
+
+  for (const part of text.split(',')) {
+    const match = PART.exec(part);
+    if (!match) throw invalid(part);
+
+    const [, start, end, step] = match;
+    const from = start === '*' ? field.min : parseValue(start!, field);
+    const to = start === '*' ? field.max : end ? parseValue(end, field) : step ? field.max : from;
+    const by = step ? Number(step) : 1;
+
+    if (
+      from === undefined ||
+      to === undefined ||
+      from > to ||
+      by < 1 ||
+      (start === '*' && end !== undefined)
+    ) {
+      throw invalid(part);
+    }
+
+    for (let value = from; value <= to; value += by) values.add(value);
+  }
+
+  return values;
+}
+
+function parseValue(text: string, field: CronField): number | undefined {
+  const index = field.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = index >= 0 ? index + (field.name === 'month' ? 1 : 0) : Number(text);
+
+  return Number.isInteger(value) && value >= field.min && value <= field.max ? value : undefined;
+}
+
+// ============================================================================
+// Occurrences
+// ============================================================================
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Long enough for '0 0 29 2 *' across a skipped leap year
+const SEARCH_LIMIT = 9 * 366 * DAY;
+
+/**
+ * Finds the first time after `after` that matches the expression in the
+ * given IANA time zone. Local times skipped by a daylight saving change run
+ * once the clocks have moved on (02:30 becomes 03:30); local times that
+ * occur twice run once, the first time.
+ */
+export function nextOccurrence(cron: CronExpression, timeZone: string, after: Date): Date {
+  // Local wall-clock time, held in the UTC fields of a timestamp
+  let wall = Math.floor((after.getTime() + zoneOffset(timeZone, after.getTime())) / MINUTE) * MINUTE + MINUTE;
+  const limit = wall + SEARCH_LIMIT;
+
+  while (wall < limit) {
+    const date = new Date(wall);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+
+    if (!cron.months.has(month + 1)) {
+      wall = Date.UTC(year, month + 1, 1);
+    } else if (!matchesDay(cron, date)) {
+      wall = Date.UTC(year, month, day + 1);
+    } else if (!cron.hours.has(hour)) {
+      wall = Date.UTC(year, month, day, hour + 1);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      wall += MINUTE;
+    } else {
+      const instant = toInstant(wall, timeZone);
+      if (instant > after.getTime()) return new Date(instant);
+      wall += MINUTE;
+    }
+  }
+
+  throw new Error('Cron expression has no upcoming occurrence');
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const day = cron.days.has(date.getUTCDate());
+  const weekday = cron.weekdays.has(date.getUTCDay());
+
+  if (cron.anyDay || cron.anyWeekday) return day && weekday;
+  return day || weekday;
+}
+
+/**
+ * Converts a local wall-clock time to an instant. Offsets a day either side
+ * give both candidates around a change; the earliest one that reads back as
+ * the same wall time wins, and a time in a gap uses the offset from before.
+ */
+function toInstant(wall: number, timeZone: string): number {
+  const before = zoneOffset(timeZone, wall - DAY);
+  const after = zoneOffset(timeZone, wall + DAY);
+
+  for (const offset of [Math.max(before, after), Math.min(before, after)]) {
+    if (zoneOffset(timeZone, wall - offset) === offset) return wall - offset;
+  }
+
+  return wall - before;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Throws unless the time zone is a known IANA name such as 'Europe/Berlin'.
+ */
+export function assertTimeZone(timeZone: string): void {
+  formatter(timeZone);
+}
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+
+  if (!format) {
+    try {
+      format = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      throw new Error(`Invalid time zone: ${timeZone}`);
+    }
+    formatters.set(timeZone, format);
+  }
+
+  return format;
+}
+
+/**
+ * Milliseconds to add to UTC to get local time in the zone at an instant.
+ */
+function zoneOffset(timeZone: string, instant: number): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = Number(part.value);
+  }
+
+  const wall = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!);
+  return wall - Math.floor(instant / 1000) * 1000;
+}
@@ -0,0 +1,58 @@
+import type { AttemptDiagnostics, DiagnosticsConfig, QueueRequest } from '../types';
+
+// ============================================================================
+// Attempt Diagnostics
+// ============================================================================
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Copies headers, replacing the values of secret-looking ones.
+ */
+export function redactHeaders(
+  headers: Record<string, string>,
+  pattern: RegExp
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, pattern.test(name) ? REDACTED : value])
+  );
+}
+
+/**
+ * Returns the body exactly as the worker sends it, or undefined for none.
+ */
+export function serializeBody(request: QueueRequest): string | undefined {
+  return request.body ? JSON.stringify(request.body) : undefined;
+}
+
+/**
+ * Describes the outgoing side of an attempt: redacted headers and a hash of
+ * the body, so a delivery can be proven without storing secrets or payloads.
+ */
+export function requestDiagnostics(
+  request: QueueRequest,
+  config: DiagnosticsConfig
+): AttemptDiagnostics {
+  const body = serializeBody(request);
+
+  return {
+    requestHeaders: redactHeaders(request.headers ?? {}, config.redactHeaders),
+    ...(body !== undefined && {
+      requestBodySha256: new Bun.CryptoHasher('sha256').update(body).digest('hex'),
+    }),
+  };
+}
+
+/**
+ * Describes the incoming side of an attempt.
+ */
+export function responseDiagnostics(
+  response: { url: string; redirected: boolean; bytes: Uint8Array },
+  config: DiagnosticsConfig
+): AttemptDiagnostics {
+  return {
+    resolvedUrl: response.url,
+    redirected: response.redirected,
+    responseExcerpt: new TextDecoder().decode(response.bytes.subarray(0, config.excerptBytes)),
+  };
+}
@@ -0,0 +1,142 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import type { EncryptionConfig } from '../types';
+
+// ============================================================================
+// Field Encryption
+// ============================================================================
+
+/**
+ * Ciphertext stored in place of a field's value. `data` is the AES-256-GCM
+ * ciphertext followed by its 16-byte auth tag.
+ */
+export interface EncryptedField {
+  $enc: 1;
+  kid: string;
+  iv: string;
+  data: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Fields of a request that are encrypted at rest. A workflow step's
+// compensation is a whole request, headers and body included
+const ENCRYPTED_FIELDS = ['headers', 'body', 'compensation'] as const;
+
+type EncryptableRecord = { id: string; headers?: unknown; body?: unknown; compensation?: unknown };
+
+export function isEncryptedField(value: unknown): value is EncryptedField {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as EncryptedField).$enc === 1 &&
+    typeof (value as EncryptedField).kid === 'string'
+  );
+}
+
+/**
+ * Encrypts request headers and bodies with AES-GCM. New values use the
+ * active key; any configured key can decrypt, so keys can be rotated by
+ * switching `activeKeyId` and keeping the old key until nothing uses it.
+ * Each value is bound to its request id and field name, so ciphertext can't
+ * be moved between rows. Values that aren't encrypted pass through, which
+ * keeps rows written before encryption was enabled readable.
+ */
+export class FieldEncryptor {
+  private keys: Map<string, Buffer>;
+  private activeKeyId: string;
+
+  constructor(config: EncryptionConfig) {
+    this.keys = new Map(
+      Object.entries(config.keys).map(([kid, key]) => {
+        const bytes = Buffer.from(key, 'base64');
+        if (bytes.length !== 32) {
+          throw new Error(`Encryption key ${kid} must be 32 bytes (base64-encoded)`);
+        }
+        return [kid, bytes];
+      })
+    );
+
+    if (!this.keys.has(config.activeKeyId)) {
+      throw new Error(`Active encryption key ${config.activeKeyId} is not configured`);
+    }
+
+    this.activeKeyId = config.activeKeyId;
+  }
+
+  encrypt(value: unknown, context: string): EncryptedField {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.keys.get(this.activeKeyId)!, iv);
+    cipher.setAAD(Buffer.from(context));
+
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(value), 'utf8'),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+
+    return { $enc: 1, kid: this.activeKeyId, iv: iv.toString('base64'), data: data.toString('base64') };
+  }
+
+  decrypt(value: unknown, context: string): unknown {
+    if (!isEncryptedField(value)) return value;
+
+    const key = this.keys.get(value.kid);
+    if (!key) {
+      throw new Error(`Unknown encryption key ${value.kid}`);
+    }
+
+    const data = Buffer.from(value.data, 'base64');
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(value.iv, 'base64'));
+    decipher.setAAD(Buffer.from(context));
+    decipher.setAuthTag(data.subarray(data.length - TAG_BYTES));
+
+    const plaintext = Buffer.concat([
+      decipher.update(data.subarray(0, data.length - TAG_BYTES)),
+      decipher.final(),
+    ]);
+
+    return JSON.parse(plaintext.toString('utf8'));
+  }
+
+  /**
+   * Returns a copy with headers, body and compensation encrypted. Absent
+   * fields stay absent.
+   */
+  seal<T extends EncryptableRecord>(record: T): T {
+    const sealed = { ...record };
+
+    for (const field of ENCRYPTED_FIELDS) {
+      const value = record[field];
+      if (value === undefined || value === null) continue;
+      sealed[field] = this.encrypt(value, `${record.id}:${field}`) as T[typeof field];
+    }
+
+    return sealed;
+  }
+
+  /**
+   * Returns a copy with headers, body and compensation decrypted.
+   */
+  open<T extends EncryptableRecord>(record: T): T {
+    const opened = { ...record };
+
+    for (const field of ENCRYPTED_FIELDS) {
+      opened[field] = this.decrypt(record[field], `${record.id}:${field}`) as T[typeof field];
+    }
+
+    return opened;
+  }
+
+  /**
+   * Whether a stored record has fields in plaintext or under a retired key.
+   */
+  needsRotation(record: EncryptableRecord): boolean {
+    return ENCRYPTED_FIELDS.some((field) => {
+      const value = record[field];
+      if (value === undefined || value === null) return false;
+      return !isEncryptedField(value) || value.kid !== this.activeKeyId;
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import type { OrderingConfig, QueueBackend, StateStore } from '../types';
+import { fromStoredRequest } from './request';
+
+// ============================================================================
+// Ordering Coordinator
+// ============================================================================
+
+const PAGE_SIZE = 500;
+
+/**
+ * Runs requests sharing an ordering key one at a time, in the order they were
+ * saved. They are saved waiting; the head of a key is released into its
+ * queue once the previous one has completed, been cancelled, or gone dead
+ * under the 'skip' policy. A head that is retrying stays queued and so holds
+ * its key only.
+ *
+ * Releasing is a conditional update in the state store, so instances racing
+ * on the same key release each request once.
+ */
+export class OrderingCoordinator {
+  private backend: QueueBackend;
+  private store: StateStore;
+  private config: OrderingConfig;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(backend: QueueBackend, store: StateStore, config: OrderingConfig) {
+    this.backend = backend;
+    this.store = store;
+    this.config = config;
+  }
+
+  /**
+   * Starts periodic checks of held keys, if enabled.
+   */
+  start(): void {
+    if (this.timer || !this.config.enabled) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(() => {});
+    }, this.config.checkInterval);
+  }
+
+  /**
+   * Stops periodic checks.
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Releases the head of every key that is free to move on, e.g. after its
+   * previous request finished on an instance that crashed before releasing.
+   * Returns how many requests were released.
+   */
+  async run(): Promise<number> {
+    let released = 0;
+    let afterKey: string | undefined;
+
+    while (true) {
+      const keys = await this.store.getHeldOrderingKeys(afterKey, PAGE_SIZE);
+
+      for (const key of keys) {
+        if (await this.release(key)) released++;
+      }
+
+      if (keys.length < PAGE_SIZE) return released;
+      afterKey = keys[keys.length - 1];
+    }
+  }
+
+  /**
+   * Queues the key's first waiting request if nothing else with the key is
+   * in flight or blocking. Returns whether one was released.
+   */
+  async release(orderingKey: string): Promise<boolean> {
+    const row = await this.store.releaseOrderingHead(orderingKey);
+    if (!row) return false;
+
+    await this.backend.forQueue(row.queue).enqueue(fromStoredRequest(row));
+    return true;
+  }
+
+  /**
+   * Reacts to a request having completed, been dead-lettered or cancelled.
+   */
+  async settled(requestId: string): Promise<void> {
+    const row = await this.store.getRequest(requestId);
+    if (row?.ordering_key) await this.release(row.ordering_key);
+  }
+}
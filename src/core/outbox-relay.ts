@@ -0,0 +1,93 @@
+import type { QueueBackend, StateStore, OutboxConfig } from '../types';
+import { fromStoredRequest } from './request';
+
+// ============================================================================
+// Outbox Relay
+// ============================================================================
+
+/**
+ * Feeds the queue backend with requests enqueued inside caller transactions.
+ * Those are only written to the state store, alongside an outbox entry; once
+ * the transaction commits, the relay hands them to the backend and removes
+ * the entries. Keyed requests, saved waiting, are handed to `release` for
+ * their ordering key instead. A rolled-back transaction leaves nothing to
+ * relay.
+ */
+export class OutboxRelay {
+  private backend: QueueBackend;
+  private store: StateStore;
+  private config: OutboxConfig;
+  private release: (orderingKey: string) => Promise<unknown>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    backend: QueueBackend,
+    store: StateStore,
+    config: OutboxConfig,
+    release: (orderingKey: string) => Promise<unknown> = async () => false
+  ) {
+    this.backend = backend;
+    this.store = store;
+    this.config = config;
+    this.release = release;
+  }
+
+  /**
+   * Starts polling the outbox, if enabled and the store has one.
+   */
+  start(): void {
+    if (this.timer || !this.config.enabled || !this.store.relayOutbox) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(() => {});
+    }, this.config.pollInterval);
+  }
+
+  /**
+   * Stops polling.
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Drains the outbox. Returns the number of entries consumed; entries for
+   * requests cancelled in the meantime are consumed without being queued.
+   */
+  async run(): Promise<number> {
+    if (!this.store.relayOutbox || this.running) return 0;
+    this.running = true;
+
+    try {
+      let relayed = 0;
+
+      while (true) {
+        // Re-adding a queued request is harmless, so a batch whose entries
+        // failed to delete can be relayed again
+        const consumed = await this.store.relayOutbox(this.config.batchSize, async (rows) => {
+          const queued = rows.filter((row) => row.status !== 'waiting');
+          const queues = new Set(queued.map((row) => row.queue));
+          for (const queue of queues) {
+            await this.backend
+              .forQueue(queue)
+              .enqueueMany(queued.filter((row) => row.queue === queue).map(fromStoredRequest));
+          }
+
+          const keys = new Set(
+            rows.flatMap((row) => (row.status === 'waiting' && row.ordering_key ? [row.ordering_key] : []))
+          );
+          for (const key of keys) {
+            await this.release(key);
+          }
+        });
+
+        relayed += consumed;
+        if (consumed < this.config.batchSize) return relayed;
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
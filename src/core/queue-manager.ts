@@ -3,48 +3,175 @@ import type {
   QueueRequestInput,
   QueueResponse,
   EnqueueResult,
+  BulkEnqueueResult,
+  BulkEnqueueItemResult,
+  QueueRequest,
   QueueStats,
   RequestState,
+  RequestSearchQuery,
+  RequestSearchPage,
+  StoredRequest,
   BackpressureConfig,
   RetryConfig,
+  RecoveryConfig,
+  RecoveryOutcome,
+  ReconciliationReport,
+  RetentionConfig,
+  RetentionReport,
+  OutboxConfig,
+  TransactionClient,
+  ResponseStorageConfig,
+  DiagnosticsConfig,
+  RequestAttempt,
+  WorkflowConfig,
+  WorkflowDefinition,
+  WorkflowResult,
+  WorkflowState,
+  EnqueueManyOptions,
+  BatchConfig,
+  BatchState,
+  NewBatch,
+  Schedule,
+  ScheduleConfig,
+  ScheduleInput,
+  ScheduleUpdate,
+  OrderingConfig,
+  QueueConfig,
+  QueueInfo,
+  QueueBackend,
+  StateStore,
 } from '../types';
-import { RedisStore } from '../storage/redis';
-import { PostgresStore } from '../storage/postgres';
+import { ZodError } from 'zod';
+import { createQueueBackend, createStateStore } from '../storage/factory';
 import { BackpressureController } from '../backpressure/controller';
 import { Worker, type WorkerEvents } from './worker';
-import { createRequest } from './request';
-import { mergeConfig } from '../config';
+import { LeaseReaper } from './reaper';
+import { Reconciler } from './reconciler';
+import { RetentionScheduler } from './retention';
+import { OutboxRelay } from './outbox-relay';
+import { WorkflowCoordinator, planWorkflow } from './workflow';
+import { BatchTracker } from './batch';
+import { CronScheduler, planSchedule, reviseSchedule, toSchedule } from './schedules';
+import { OrderingCoordinator } from './ordering';
+import { createRequest, fromStoredRequest } from './request';
+import { loadResponseBody } from './response-body';
+import { mergeConfig, resolveQueues, DEFAULT_QUEUE } from '../config';
 
 // ============================================================================
 // Queue Manager
 // ============================================================================
 
+/** A queue as run by this instance. */
+interface ManagedQueue {
+  config: QueueConfig;
+  backend: QueueBackend;
+  backpressure: BackpressureController;
+  workers: Worker[];
+  serving: boolean;
+  paused: boolean;
+}
+
 export class QueueManager {
-  private redis: RedisStore;
-  private postgres: PostgresStore;
-  private backpressure: BackpressureController;
-  private workers: Worker[] = [];
+  private backend: QueueBackend;
+  private store: StateStore;
+  private queues = new Map<string, ManagedQueue>();
+  private reaper: LeaseReaper;
+  private retention: RetentionScheduler;
+  private outbox: OutboxRelay;
+  private workflows: WorkflowCoordinator;
+  private batches: BatchTracker;
+  private schedules: CronScheduler;
+  private ordering: OrderingCoordinator;
+  private instanceId = crypto.randomUUID();
   private config: QueueManagerConfig & {
     retry: RetryConfig;
     backpressure: BackpressureConfig;
+    recovery: RecoveryConfig;
+    retention: RetentionConfig;
+    outbox: OutboxConfig;
+    responseStorage: ResponseStorageConfig;
+    diagnostics: DiagnosticsConfig;
+    workflows: WorkflowConfig;
+    batches: BatchConfig;
+    schedules: ScheduleConfig;
+    ordering: OrderingConfig;
   };
   private eventHandlers: Partial<{
     complete: ((response: QueueResponse) => void | Promise<void>)[];
     error: ((requestId: string, error: Error, willRetry: boolean) => void)[];
     retry: ((requestId: string, attempt: number, nextRetryAt: Date) => void)[];
     dead: ((requestId: string, error: Error) => void)[];
+    recovered: ((requestId: string, outcome: RecoveryOutcome, attempt: number) => void)[];
+    batchComplete: ((batch: BatchState) => void | Promise<void>)[];
   }> = {};
   private started = false;
   private shuttingDown = false;
 
   private constructor(config: QueueManagerConfig) {
     this.config = mergeConfig(config);
-    this.redis = new RedisStore(config.redis);
-    this.postgres = new PostgresStore(config.postgres);
-    this.backpressure = new BackpressureController(
-      this.redis,
-      this.config.backpressure
+    this.backend = createQueueBackend(config);
+    this.store = createStateStore(config);
+
+    const queues = resolveQueues(this.config);
+    const serve = this.config.serve ?? queues.map((queue) => queue.name);
+
+    for (const name of serve) {
+      if (!queues.some((queue) => queue.name === name)) throw new Error(`Unknown queue: ${name}`);
+    }
+
+    for (const queue of queues) {
+      const backend = this.backend.forQueue(queue.name);
+
+      this.queues.set(queue.name, {
+        config: queue,
+        backend,
+        backpressure: new BackpressureController(backend, queue.backpressure),
+        workers: [],
+        serving: serve.includes(queue.name),
+        paused: false,
+      });
+    }
+
+    const names = [...this.queues.keys()];
+    const retryConfigs = new Map(queues.map((queue) => [queue.name, queue.retry]));
+    this.reaper = new LeaseReaper(
+      this.backend,
+      this.store,
+      this.instanceId,
+      this.config.recovery,
+      this.config.retry,
+      {
+        onRecovered: (id, outcome, attempt) => this.emitRecovered(id, outcome, attempt),
+        onDead: async (id, err) => {
+          await this.settle(id);
+          await this.emitDead(id, err);
+        },
+      },
+      retryConfigs
+    );
+    this.retention = new RetentionScheduler(
+      this.backend,
+      this.store,
+      this.config.retention,
+      this.config.responseStorage.blobStore,
+      names
+    );
+    this.outbox = new OutboxRelay(this.backend, this.store, this.config.outbox, (key) =>
+      this.ordering.release(key)
+    );
+    this.workflows = new WorkflowCoordinator(
+      this.backend,
+      this.store,
+      this.config.workflows,
+      this.config.responseStorage.blobStore
+    );
+    this.batches = new BatchTracker(this.store, this.config.batches, (batch) =>
+      this.emitBatchComplete(batch)
     );
+    this.schedules = new CronScheduler(this.backend, this.store, this.config.schedules, (input) =>
+      this.enqueue(input)
+    );
+    this.ordering = new OrderingCoordinator(this.backend, this.store, this.config.ordering);
   }
 
   /**
@@ -60,9 +187,13 @@ export class QueueManager {
    * Initializes connections and schema.
    */
   private async initialize(): Promise<void> {
-    await this.redis.connect();
-    await this.postgres.connect();
-    await this.postgres.initializeSchema();
+    await this.backend.connect();
+    await this.store.connect();
+    await this.store.initializeSchema();
+
+    if (this.config.reconcileOnStart) {
+      await this.reconcile();
+    }
   }
 
   /**
@@ -72,25 +203,59 @@ export class QueueManager {
     if (this.started) return;
     this.started = true;
 
-    const workerCount = this.config.workerCount ?? 1;
+    for (const queue of this.queues.values()) {
+      if (queue.serving && !queue.paused) await this.startWorkers(queue);
+    }
+
+    await this.reaper.start();
+    this.retention.start();
+    this.outbox.start();
+    this.workflows.start();
+    this.batches.start();
+    this.schedules.start();
+    this.ordering.start();
+  }
+
+  /**
+   * Starts a queue's workers, creating them on first use.
+   */
+  private async startWorkers(queue: ManagedQueue): Promise<void> {
+    if (queue.workers.length === 0) {
+      for (let i = 0; i < queue.config.workerCount; i++) {
+        queue.workers.push(this.createWorker(queue));
+      }
+    }
+
+    for (const worker of queue.workers) {
+      await worker.start();
+    }
+  }
+
+  private createWorker(queue: ManagedQueue): Worker {
     const workerEvents: WorkerEvents = {
-      onComplete: (response) => this.emitComplete(response),
+      onComplete: async (response) => {
+        await this.settle(response.requestId);
+        await this.emitComplete(response);
+      },
       onError: (id, err, retry) => this.emitError(id, err, retry),
       onRetry: (id, attempt, next) => this.emitRetry(id, attempt, next),
-      onDead: (id, err) => this.emitDead(id, err),
+      onDead: async (id, err) => {
+        await this.settle(id);
+        await this.emitDead(id, err);
+      },
     };
 
-    for (let i = 0; i < workerCount; i++) {
-      const worker = new Worker(
-        this.redis,
-        this.postgres,
-        this.backpressure,
-        this.config.retry,
-        workerEvents
-      );
-      this.workers.push(worker);
-      await worker.start();
-    }
+    return new Worker(
+      queue.backend,
+      this.store,
+      queue.backpressure,
+      queue.config.retry,
+      workerEvents,
+      this.instanceId,
+      this.config.recovery.leaseTimeout,
+      this.config.responseStorage,
+      this.config.diagnostics
+    );
   }
 
   // ============================================================================
@@ -105,34 +270,407 @@ export class QueueManager {
       throw new Error('Queue manager is shutting down');
     }
 
-    const request = createRequest(input);
+    const request = this.createRequest(input);
+
+    // Persist durable state first; a taken idempotency key stops here
+    const duplicateOf = await this.store.saveRequest(request);
+    if (duplicateOf) return { id: duplicateOf, deduplicated: true };
 
-    // Persist to PostgreSQL first
-    await this.postgres.saveRequest(request);
+    // A request with dependencies is queued once they complete
+    if (request.dependsOn?.length) {
+      await this.workflows.release([request.id]);
+      return { id: request.id };
+    }
 
-    // Add to Redis queue
-    const position = await this.redis.enqueue(request);
+    // One with an ordering key once the requests before it have finished
+    if (request.orderingKey) {
+      await this.ordering.release(request.orderingKey);
+      return { id: request.id };
+    }
+
+    // Add to the queue backend
+    const position = await this.queue(request.queue).backend.enqueue(request);
 
     return { id: request.id, position };
   }
 
   /**
-   * Enqueues multiple requests in batch.
+   * Enqueues a request inside the caller's PostgreSQL transaction. Only the
+   * row and an outbox entry are written, through `client`; the outbox relay
+   * queues the request once the transaction commits, and a rollback leaves
+   * no request behind. A request with dependencies is left waiting for them.
+   */
+  async enqueueInTransaction(
+    client: TransactionClient,
+    input: QueueRequestInput
+  ): Promise<EnqueueResult> {
+    if (this.shuttingDown) {
+      throw new Error('Queue manager is shutting down');
+    }
+
+    if (!this.store.saveRequestInTransaction) {
+      throw new Error('Transactional enqueue requires the PostgreSQL state store');
+    }
+
+    const request = this.createRequest(input);
+    const duplicateOf = await this.store.saveRequestInTransaction(client, request);
+
+    return duplicateOf ? { id: duplicateOf, deduplicated: true } : { id: request.id };
+  }
+
+  /**
+   * Enqueues multiple requests in batch. With `batch`, the saved requests
+   * are also tracked as one batch: see `getBatch` and `onBatchComplete`.
+   */
+  async enqueueMany(
+    inputs: QueueRequestInput[],
+    options: EnqueueManyOptions = {}
+  ): Promise<EnqueueResult[]> {
+    if (this.shuttingDown) {
+      throw new Error('Queue manager is shutting down');
+    }
+
+    const batch: NewBatch | undefined = options.batch
+      ? {
+          id: crypto.randomUUID(),
+          metadata: options.batch === true ? undefined : options.batch.metadata,
+        }
+      : undefined;
+
+    const requests = inputs.map((input) => {
+      const request = this.createRequest(input);
+      if (batch) request.batchId = batch.id;
+      return request;
+    });
+
+    // Persist durable state
+    const duplicates = await this.store.saveRequestBatch(requests, batch);
+    const saved = requests.filter((_, i) => !duplicates[i]);
+
+    // Add to the queue backend, except requests waiting on dependencies or
+    // their ordering key
+    await this.enqueueReady(saved);
+    await this.workflows.release(saved.filter((r) => r.dependsOn?.length).map((r) => r.id));
+    await this.releaseOrdered(saved);
+
+    // A batch left without members has nothing to wait for
+    if (batch && saved.length === 0) await this.batches.check(batch.id);
+
+    return requests.map((r, i) => {
+      const duplicateOf = duplicates[i];
+      const result: EnqueueResult = duplicateOf ? { id: duplicateOf, deduplicated: true } : { id: r.id };
+      if (batch) result.batchId = batch.id;
+      return result;
+    });
+  }
+
+  /**
+   * Enqueues a large number of requests in chunks. Unlike `enqueueMany`, bad
+   * inputs don't abort the call: every input gets a result, and a chunk that
+   * fails to persist or queue is reported as failed while the rest go ahead.
+   */
+  async enqueueBulk(inputs: QueueRequestInput[]): Promise<BulkEnqueueResult> {
+    if (this.shuttingDown) {
+      throw new Error('Queue manager is shutting down');
+    }
+
+    const items: BulkEnqueueItemResult[] = [];
+    const valid: { index: number; request: QueueRequest }[] = [];
+
+    for (const [index, input] of inputs.entries()) {
+      try {
+        valid.push({ index, request: this.createRequest(input) });
+      } catch (error) {
+        items[index] = { index, status: 'invalid', error: describeError(error) };
+      }
+    }
+
+    const chunkSize = this.config.bulkChunkSize ?? valid.length;
+
+    for (let i = 0; i < valid.length; i += chunkSize) {
+      const chunk = valid.slice(i, i + chunkSize);
+      const requests = chunk.map((entry) => entry.request);
+      const result = await this.enqueueChunk(requests);
+
+      for (const [i, { index, request }] of chunk.entries()) {
+        const duplicateOf = result.duplicates?.[i];
+
+        items[index] = result.error
+          ? { index, status: 'failed', id: request.id, error: result.error }
+          : duplicateOf
+            ? { index, status: 'deduplicated', id: duplicateOf }
+            : { index, status: 'enqueued', id: request.id };
+      }
+    }
+
+    const count = (status: BulkEnqueueItemResult['status']) =>
+      items.filter((item) => item.status === status).length;
+
+    return {
+      enqueued: count('enqueued'),
+      deduplicated: count('deduplicated'),
+      invalid: count('invalid'),
+      failed: count('failed'),
+      items,
+    };
+  }
+
+  /**
+   * Validates input, applying the configured idempotency window and
+   * ordering policy to requests that don't set their own.
+   */
+  private createRequest(input: QueueRequestInput): QueueRequest {
+    const request = createRequest(input);
+    this.queue(request.queue);
+
+    if (request.idempotencyKey && request.idempotencyWindow === undefined) {
+      request.idempotencyWindow = this.config.idempotencyWindow;
+    }
+
+    if (request.orderingKey && request.orderingPolicy === undefined) {
+      request.orderingPolicy = this.config.ordering.onDead;
+    }
+
+    return request;
+  }
+
+  /**
+   * Persists and queues one chunk, returning which requests were duplicates
+   * or an error message on failure. Rows saved for a chunk the backend
+   * rejected are removed again, so a failed item can simply be resubmitted.
+   */
+  private async enqueueChunk(
+    requests: QueueRequest[]
+  ): Promise<{ duplicates?: (string | null)[]; error?: string }> {
+    let duplicates: (string | null)[];
+
+    try {
+      duplicates = await this.store.saveRequestBatch(requests);
+    } catch (error) {
+      return { error: describeError(error) };
+    }
+
+    const saved = requests.filter((_, i) => !duplicates[i]);
+
+    try {
+      await this.enqueueReady(saved);
+    } catch (error) {
+      // Best effort: undo whatever part of the chunk reached the backend
+      await Promise.all(
+        saved.map(async (r) => {
+          const backend = this.queue(r.queue).backend;
+          await backend.cancel(r.id);
+          await backend.deleteRequest(r.id);
+        })
+      ).catch(() => {});
+      await this.store.deleteRequests(saved.map((r) => r.id)).catch(() => {});
+
+      return { error: describeError(error) };
+    }
+
+    // The chunk is saved either way; requests left waiting are released later
+    await this.workflows
+      .release(saved.filter((r) => r.dependsOn?.length).map((r) => r.id))
+      .catch(() => {});
+    await this.releaseOrdered(saved).catch(() => {});
+
+    return { duplicates };
+  }
+
+  /**
+   * Adds saved requests to their queues, except those waiting on
+   * dependencies or their ordering key.
+   */
+  private async enqueueReady(requests: QueueRequest[]): Promise<void> {
+    const ready = requests.filter((r) => !r.dependsOn?.length && !r.orderingKey);
+
+    for (const name of new Set(ready.map((r) => r.queue))) {
+      await this.queue(name).backend.enqueueMany(ready.filter((r) => r.queue === name));
+    }
+  }
+
+  /**
+   * Releases the head of each ordering key among saved requests.
+   */
+  private async releaseOrdered(requests: QueueRequest[]): Promise<void> {
+    for (const key of new Set(requests.flatMap((r) => (r.orderingKey ? [r.orderingKey] : [])))) {
+      await this.ordering.release(key);
+    }
+  }
+
+  /**
+   * Gets a queue declared in the configuration.
    */
-  async enqueueMany(inputs: QueueRequestInput[]): Promise<EnqueueResult[]> {
+  private queue(name: string): ManagedQueue {
+    const queue = this.queues.get(name);
+    if (!queue) throw new Error(`Unknown queue: ${name}`);
+    return queue;
+  }
+
+  // ============================================================================
+  // Workflows
+  // ============================================================================
+
+  /**
+   * Starts a workflow: a DAG of named steps, each run once the steps it
+   * comes `after` have completed. A step's URL, headers and body may refer to
+   * their responses, e.g. `{{steps.login.body.token}}`. Steps are saved
+   * atomically and those without dependencies are queued right away.
+   */
+  async createWorkflow(definition: WorkflowDefinition): Promise<WorkflowResult> {
     if (this.shuttingDown) {
       throw new Error('Queue manager is shutting down');
     }
 
-    const requests = inputs.map((input) => createRequest(input));
+    const id = crypto.randomUUID();
+    const requests = planWorkflow(definition, id);
+    for (const request of requests) this.queue(request.queue);
+
+    await this.store.saveRequestBatch(requests);
+    await this.enqueueReady(requests);
+
+    return { id, steps: Object.fromEntries(requests.map((r) => [r.step!, r.id])) };
+  }
+
+  /**
+   * Gets a workflow's status and the state of each of its steps.
+   */
+  async getWorkflow(workflowId: string): Promise<WorkflowState | null> {
+    return this.workflows.getWorkflow(workflowId);
+  }
+
+  /**
+   * Releases or cancels every waiting request whose dependencies have
+   * finished, instead of waiting for the next periodic check. Returns how
+   * many moved, or null if another instance is already checking.
+   */
+  async checkWaiting(): Promise<number | null> {
+    return this.workflows.run();
+  }
+
+  /**
+   * Moves on whatever waits for a request that just finished, including the
+   * next request with its ordering key, and completes its batch if it was
+   * the last member. A failure here is picked up by the periodic checks
+   * instead of failing the caller.
+   */
+  private async settle(requestId: string): Promise<void> {
+    await this.workflows.settled(requestId).catch(() => {});
+    await this.batches.settled(requestId).catch(() => {});
+    await this.ordering.settled(requestId).catch(() => {});
+  }
 
-    // Persist to PostgreSQL
-    await this.postgres.saveRequestBatch(requests);
+  // ============================================================================
+  // Batches
+  // ============================================================================
 
-    // Add to Redis queue
-    await this.redis.enqueueMany(requests);
+  /**
+   * Gets a batch's member counts, or null if there is no such batch.
+   */
+  async getBatch(batchId: string): Promise<BatchState | null> {
+    return this.batches.getBatch(batchId);
+  }
 
-    return requests.map((r) => ({ id: r.id }));
+  /**
+   * Cancels every member of a batch that is still pending, scheduled or
+   * waiting. Members already being processed are left to finish. Returns
+   * how many were cancelled.
+   */
+  async cancelBatch(batchId: string): Promise<number> {
+    let cancelled = 0;
+    let afterId: string | undefined;
+
+    while (true) {
+      const rows = await this.store.getBatchRequests(batchId, afterId);
+
+      for (const row of rows) {
+        if (await this.cancel(row.id)) cancelled++;
+      }
+
+      if (rows.length === 0) return cancelled;
+      afterId = rows[rows.length - 1]!.id;
+    }
+  }
+
+  /**
+   * Completes every batch whose members have all finished, instead of
+   * waiting for the next periodic check. Returns how many were completed.
+   */
+  async checkBatches(): Promise<number> {
+    return this.batches.run();
+  }
+
+  // ============================================================================
+  // Schedules
+  // ============================================================================
+
+  /**
+   * Stores a recurring request: each occurrence of the cron expression, in
+   * its time zone, enqueues the request once across all instances.
+   */
+  async createSchedule(input: ScheduleInput): Promise<Schedule> {
+    const schedule = planSchedule(input);
+    this.queue(schedule.request.queue ?? DEFAULT_QUEUE);
+    await this.store.saveSchedule(schedule);
+    return toSchedule(schedule);
+  }
+
+  /**
+   * Gets a schedule, or null if there is no such schedule.
+   */
+  async getSchedule(scheduleId: string): Promise<Schedule | null> {
+    const schedule = await this.store.getSchedule(scheduleId);
+    return schedule ? toSchedule(schedule) : null;
+  }
+
+  /**
+   * Lists every schedule, oldest first.
+   */
+  async listSchedules(): Promise<Schedule[]> {
+    return (await this.store.listSchedules()).map(toSchedule);
+  }
+
+  /**
+   * Changes a schedule. Returns null if there is no such schedule.
+   */
+  async updateSchedule(scheduleId: string, update: ScheduleUpdate): Promise<Schedule | null> {
+    const schedule = await this.store.getSchedule(scheduleId);
+    if (!schedule) return null;
+
+    const updated = reviseSchedule(schedule, update);
+    this.queue(updated.request.queue ?? DEFAULT_QUEUE);
+    return (await this.store.updateSchedule(updated)) ? toSchedule(updated) : null;
+  }
+
+  /**
+   * Stops a schedule from enqueueing until it is resumed.
+   */
+  async pauseSchedule(scheduleId: string): Promise<Schedule | null> {
+    return this.updateSchedule(scheduleId, { paused: true });
+  }
+
+  /**
+   * Resumes a paused schedule from its next occurrence; occurrences missed
+   * while paused are not enqueued.
+   */
+  async resumeSchedule(scheduleId: string): Promise<Schedule | null> {
+    return this.updateSchedule(scheduleId, { paused: false });
+  }
+
+  /**
+   * Deletes a schedule. Requests it already enqueued are left alone.
+   */
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    return this.store.deleteSchedule(scheduleId);
+  }
+
+  /**
+   * Enqueues due schedule occurrences now, instead of waiting for the next
+   * check. Returns how many requests were enqueued, or null if another
+   * instance is already running schedules.
+   */
+  async runSchedules(): Promise<number | null> {
+    return this.schedules.run();
   }
 
   // ============================================================================
@@ -143,60 +681,133 @@ export class QueueManager {
    * Gets the current state of a request.
    */
   async getStatus(requestId: string): Promise<RequestState | null> {
-    const stored = await this.postgres.getRequest(requestId);
-    if (!stored) return null;
+    const stored = await this.store.getRequest(requestId);
+    return stored ? toRequestState(stored) : null;
+  }
 
-    return {
-      id: stored.id,
-      request: {
-        id: stored.id,
-        url: stored.url,
-        method: stored.method,
-        headers: stored.headers ?? undefined,
-        body: stored.body,
-        priority: stored.priority,
-        maxRetries: stored.max_retries,
-        timeout: stored.timeout ?? undefined,
-        scheduledFor: stored.scheduled_for ?? undefined,
-        metadata: stored.metadata ?? undefined,
-        createdAt: stored.created_at,
-      },
-      status: stored.status,
-      attempts: stored.attempts,
-      lastAttemptAt: stored.last_attempt_at ?? undefined,
-      nextRetryAt: stored.next_retry_at ?? undefined,
-      error: stored.error ?? undefined,
-      response: stored.response ?? undefined,
-      createdAt: stored.created_at,
-      updatedAt: stored.updated_at,
-    };
+  /**
+   * Finds requests matching all the given filters, newest first unless
+   * `sort`/`order` say otherwise. Pass `nextCursor` back as `cursor` to get
+   * the following page; pages stay stable while requests are added.
+   */
+  async search(query: RequestSearchQuery = {}): Promise<RequestSearchPage<RequestState>> {
+    const page = await this.store.searchRequests(query);
+    return { items: page.items.map(toRequestState), nextCursor: page.nextCursor };
+  }
+
+  /**
+   * Lists a request's delivery attempts, oldest first, with diagnostics when
+   * they were recorded.
+   */
+  async getAttempts(requestId: string): Promise<RequestAttempt[]> {
+    return this.store.getAttempts(requestId);
   }
 
   /**
-   * Cancels a pending request.
+   * Gets the stored response body of a completed request, loading it from
+   * the blob store if it was offloaded. Returns null if none was stored.
+   */
+  async getResponseBody(requestId: string): Promise<unknown> {
+    const response = (await this.store.getRequest(requestId))?.response;
+    return response ? loadResponseBody(response, this.config.responseStorage.blobStore) : null;
+  }
+
+  /**
+   * Cancels a pending or waiting request. Requests depending on it are
+   * cancelled too.
    */
   async cancel(requestId: string): Promise<boolean> {
-    const cancelled = await this.redis.cancel(requestId);
-    
+    // Waiting requests are only in the state store
+    const cancelled =
+      (await this.store.cancelWaiting(requestId)) || (await this.cancelQueued(requestId));
+
+    if (cancelled) {
+      await this.settle(requestId);
+    }
+
+    return cancelled;
+  }
+
+  private async cancelQueued(requestId: string): Promise<boolean> {
+    const backend = await this.backendOf(requestId);
+    const cancelled = (await backend?.cancel(requestId)) ?? false;
+
     if (cancelled) {
-      await this.postgres.updateRequestStatus(requestId, 'cancelled');
+      await this.store.updateRequestStatus(requestId, 'cancelled');
     }
 
     return cancelled;
   }
 
   /**
-   * Gets queue statistics.
+   * Moves a pending or scheduled request to run at a new time.
+   */
+  async reschedule(requestId: string, scheduledFor: Date): Promise<boolean> {
+    const backend = await this.backendOf(requestId);
+    const rescheduled = (await backend?.reschedule(requestId, scheduledFor)) ?? false;
+
+    if (rescheduled) {
+      await this.store.rescheduleRequest(requestId, scheduledFor);
+    }
+
+    return rescheduled;
+  }
+
+  /**
+   * Backend of the queue a stored request belongs to, or null if there is no
+   * such request.
    */
-  async getStats(): Promise<QueueStats> {
-    return this.postgres.getStats();
+  private async backendOf(requestId: string): Promise<QueueBackend | null> {
+    const row = await this.store.getRequest(requestId);
+    return row ? this.backend.forQueue(row.queue) : null;
   }
 
   /**
-   * Gets current backpressure state.
+   * Lists delayed requests that have not run yet, soonest first.
    */
-  getBackpressureState() {
-    return this.backpressure.getState();
+  async listScheduled(limit = 100, offset = 0) {
+    return this.store.getScheduledRequests(limit, offset);
+  }
+
+  /**
+   * Rewrites stored headers and bodies under the active encryption key, e.g.
+   * after rotating `encryption.activeKeyId`. Once done, retired keys can be
+   * removed from the configuration.
+   */
+  async reencrypt(): Promise<{ queue: number; state: number }> {
+    let queued = 0;
+    for (const queue of this.queues.values()) {
+      queued += (await queue.backend.reencrypt?.()) ?? 0;
+    }
+
+    return { queue: queued, state: (await this.store.reencrypt?.()) ?? 0 };
+  }
+
+  /**
+   * Gets statistics of one queue, or of all queues together.
+   */
+  async getStats(queue?: string): Promise<QueueStats> {
+    if (queue !== undefined) this.queue(queue);
+    return this.store.getStats(queue);
+  }
+
+  /**
+   * Gets current backpressure state of a queue.
+   */
+  getBackpressureState(queue = DEFAULT_QUEUE) {
+    return this.queue(queue).backpressure.getState();
+  }
+
+  /**
+   * Lists the configured queues and what this instance does with them.
+   */
+  getQueues(): QueueInfo[] {
+    return [...this.queues.values()].map((queue) => ({
+      name: queue.config.name,
+      serving: queue.serving,
+      paused: queue.paused,
+      workerCount: queue.config.workerCount,
+    }));
   }
 
   // ============================================================================
@@ -207,29 +818,79 @@ export class QueueManager {
    * Gets requests in the dead letter queue.
    */
   async getDeadLetterRequests(limit = 100) {
-    return this.postgres.getDeadLetterRequests(limit);
-  }
-
-  /**
-   * Retries a request from the dead letter queue.
-   */
-  async retryDeadRequest(requestId: string): Promise<void> {
-    await this.postgres.retryDeadRequest(requestId);
-    
-    const request = await this.postgres.getRequest(requestId);
-    if (request) {
-      await this.redis.enqueue({
-        id: request.id,
-        url: request.url,
-        method: request.method,
-        headers: request.headers ?? undefined,
-        body: request.body,
-        priority: request.priority,
-        maxRetries: request.max_retries,
-        timeout: request.timeout ?? undefined,
-        createdAt: request.created_at,
-      });
+    return this.store.getDeadLetterRequests(limit);
+  }
+
+  /**
+   * Retries a request from the dead letter queue. One with an ordering key
+   * rejoins its key in creation order. Returns false if the request isn't dead.
+   */
+  async retryDeadRequest(requestId: string): Promise<boolean> {
+    if (!(await this.store.retryDeadRequest(requestId))) return false;
+
+    const request = await this.store.getRequest(requestId);
+    if (request?.ordering_key) {
+      await this.ordering.release(request.ordering_key);
+    } else if (request) {
+      await this.backend.forQueue(request.queue).enqueue(fromStoredRequest(request));
     }
+
+    return true;
+  }
+
+  // ============================================================================
+  // Ordering
+  // ============================================================================
+
+  /**
+   * Lets an ordering key held by a dead request under the 'block' policy
+   * move on to its next request; the dead request stays in the dead letter
+   * queue. Returns whether a request was released.
+   */
+  async unblockOrderingKey(orderingKey: string): Promise<boolean> {
+    await this.store.unblockOrderingKey(orderingKey);
+    return this.ordering.release(orderingKey);
+  }
+
+  /**
+   * Releases the next request of every ordering key that is free to move
+   * on, instead of waiting for the next periodic check. Returns how many
+   * were released.
+   */
+  async checkOrdering(): Promise<number> {
+    return this.ordering.run();
+  }
+
+  // ============================================================================
+  // Reconciliation
+  // ============================================================================
+
+  /**
+   * Rebuilds queue backend state from the state store, e.g. after Redis lost
+   * data. Returns null if another instance is already reconciling.
+   */
+  async reconcile(): Promise<ReconciliationReport | null> {
+    return new Reconciler(this.backend, this.store, [...this.queues.keys()]).run();
+  }
+
+  // ============================================================================
+  // Retention
+  // ============================================================================
+
+  /**
+   * Applies the retention policy now. Returns null if another instance is
+   * already running it.
+   */
+  async runRetention(): Promise<RetentionReport | null> {
+    return this.retention.run();
+  }
+
+  /**
+   * Queues requests committed through `enqueueInTransaction` now, instead of
+   * waiting for the next poll. Returns the number of outbox entries consumed.
+   */
+  async relayOutbox(): Promise<number> {
+    return this.outbox.run();
   }
 
   // ============================================================================
@@ -237,23 +898,33 @@ export class QueueManager {
   // ============================================================================
 
   /**
-   * Pauses processing (workers continue current work but don't pick up new).
+   * Pauses processing of one queue, or of all of them, on this instance
+   * (workers continue current work but don't pick up new).
    */
-  async pause(): Promise<void> {
-    for (const worker of this.workers) {
-      await worker.stop();
+  async pause(queue?: string): Promise<void> {
+    for (const target of this.targets(queue)) {
+      target.paused = true;
+
+      for (const worker of target.workers) {
+        await worker.stop();
+      }
     }
   }
 
   /**
-   * Resumes processing.
+   * Resumes processing of one queue, or of all of them.
    */
-  async resume(): Promise<void> {
-    for (const worker of this.workers) {
-      await worker.start();
+  async resume(queue?: string): Promise<void> {
+    for (const target of this.targets(queue)) {
+      target.paused = false;
+      if (this.started && target.serving && !this.shuttingDown) await this.startWorkers(target);
     }
   }
 
+  private targets(queue?: string): ManagedQueue[] {
+    return queue === undefined ? [...this.queues.values()] : [this.queue(queue)];
+  }
+
   // ============================================================================
   // Event Handlers
   // ============================================================================
@@ -294,6 +965,25 @@ export class QueueManager {
     this.eventHandlers.dead.push(handler);
   }
 
+  /**
+   * Registers a handler for requests reclaimed from crashed workers.
+   */
+  onRecovered(
+    handler: (requestId: string, outcome: RecoveryOutcome, attempt: number) => void | Promise<void>
+  ): void {
+    this.eventHandlers.recovered ??= [];
+    this.eventHandlers.recovered.push(handler);
+  }
+
+  /**
+   * Registers a handler for batches whose members have all finished. Each
+   * batch is reported once, by whichever instance saw its last member finish.
+   */
+  onBatchComplete(handler: (batch: BatchState) => void | Promise<void>): void {
+    this.eventHandlers.batchComplete ??= [];
+    this.eventHandlers.batchComplete.push(handler);
+  }
+
   private async emitComplete(response: QueueResponse): Promise<void> {
     for (const handler of this.eventHandlers.complete ?? []) {
       await handler(response);
@@ -326,6 +1016,22 @@ export class QueueManager {
     }
   }
 
+  private async emitRecovered(
+    requestId: string,
+    outcome: RecoveryOutcome,
+    attempt: number
+  ): Promise<void> {
+    for (const handler of this.eventHandlers.recovered ?? []) {
+      await handler(requestId, outcome, attempt);
+    }
+  }
+
+  private async emitBatchComplete(batch: BatchState): Promise<void> {
+    for (const handler of this.eventHandlers.batchComplete ?? []) {
+      await handler(batch);
+    }
+  }
+
   // ============================================================================
   // Shutdown
   // ============================================================================
@@ -338,14 +1044,71 @@ export class QueueManager {
     this.shuttingDown = true;
 
     // Stop all workers
-    await Promise.all(this.workers.map((w) => w.stop()));
+    await Promise.all([...this.queues.values()].flatMap((q) => q.workers.map((w) => w.stop())));
+    this.reaper.stop();
+    this.retention.stop();
+    this.outbox.stop();
+    this.workflows.stop();
+    this.batches.stop();
+    this.schedules.stop();
+    this.ordering.stop();
 
     // Close connections
-    await this.redis.disconnect();
-    await this.postgres.disconnect();
+    await this.backend.disconnect();
+    await this.store.disconnect();
   }
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toRequestState(stored: StoredRequest): RequestState {
+  return {
+    id: stored.id,
+    request: {
+      id: stored.id,
+      queue: stored.queue,
+      url: stored.url,
+      method: stored.method,
+      headers: stored.headers ?? undefined,
+      body: stored.body,
+      priority: stored.priority,
+      maxRetries: stored.max_retries,
+      timeout: stored.timeout ?? undefined,
+      scheduledFor: stored.scheduled_for ?? undefined,
+      metadata: stored.metadata ?? undefined,
+      responseStorage: stored.response_storage ?? undefined,
+      dependsOn: stored.depends_on ?? undefined,
+      onFailure: stored.on_failure ?? undefined,
+      workflowId: stored.workflow_id ?? undefined,
+      step: stored.step ?? undefined,
+      batchId: stored.batch_id ?? undefined,
+      orderingKey: stored.ordering_key ?? undefined,
+      orderingPolicy: stored.ordering_policy ?? undefined,
+      createdAt: stored.created_at,
+    },
+    status: stored.status,
+    attempts: stored.attempts,
+    lastAttemptAt: stored.last_attempt_at ?? undefined,
+    nextRetryAt: stored.next_retry_at ?? undefined,
+    error: stored.error ?? undefined,
+    response: stored.response ?? undefined,
+    createdAt: stored.created_at,
+    updatedAt: stored.updated_at,
+  };
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ZodError) {
+    return error.issues
+      .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
 // ============================================================================
 // Factory Function
 // ============================================================================
@@ -0,0 +1,161 @@
+import type {
+  QueueBackend,
+  StateStore,
+  RecoveryConfig,
+  RecoveryOutcome,
+  RetryConfig,
+} from '../types';
+import { DEFAULT_QUEUE } from '../config';
+
+// ============================================================================
+// Lease Reaper
+// ============================================================================
+
+export interface ReaperEvents {
+  onRecovered: (requestId: string, outcome: RecoveryOutcome, attempt: number) => void | Promise<void>;
+  onDead: (requestId: string, error: Error) => void | Promise<void>;
+}
+
+const REAPER_LOCK = 'lease-reaper';
+
+/**
+ * Keeps this instance's heartbeat alive and reclaims requests left in
+ * processing by crashed workers: ones whose lease ran out, or owned by an
+ * instance whose heartbeat has expired.
+ */
+export class LeaseReaper {
+  private backend: QueueBackend;
+  private store: StateStore;
+  private instanceId: string;
+  private config: RecoveryConfig;
+  private events: Partial<ReaperEvents>;
+  private queues: Map<string, RetryConfig>;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reapTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * `queues` maps each queue to reap to its retry config; by default only the
+   * default queue is reaped, with `retryConfig`.
+   */
+  constructor(
+    backend: QueueBackend,
+    store: StateStore,
+    instanceId: string,
+    config: RecoveryConfig,
+    retryConfig: RetryConfig,
+    events: Partial<ReaperEvents> = {},
+    queues: Map<string, RetryConfig> = new Map([[DEFAULT_QUEUE, retryConfig]])
+  ) {
+    this.backend = backend;
+    this.store = store;
+    this.instanceId = instanceId;
+    this.config = config;
+    this.events = events;
+    this.queues = queues;
+  }
+
+  /**
+   * Starts heartbeats and, if enabled, periodic lease checks.
+   */
+  async start(): Promise<void> {
+    if (this.heartbeatTimer) return;
+
+    await this.sendHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.sendHeartbeat().catch(() => {});
+    }, this.config.heartbeatInterval);
+
+    if (this.config.enabled) {
+      this.reapTimer = setInterval(() => {
+        this.reap().catch(() => {});
+      }, this.config.checkInterval);
+    }
+  }
+
+  /**
+   * Stops heartbeats and lease checks.
+   */
+  stop(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.reapTimer) clearInterval(this.reapTimer);
+    this.heartbeatTimer = null;
+    this.reapTimer = null;
+  }
+
+  /**
+   * Reclaims expired processing entries once. Only one instance reaps at a
+   * time; returns the ids that were handled by this call.
+   */
+  async reap(): Promise<string[]> {
+    const lock = await this.backend.acquireLock(REAPER_LOCK, this.config.checkInterval);
+    if (!lock.acquired || !lock.lockId) return [];
+
+    try {
+      const reaped: string[] = [];
+
+      for (const [queue, retryConfig] of this.queues) {
+        const backend = this.backend.forQueue(queue);
+        const expired = await backend.getExpiredProcessing();
+
+        for (const requestId of expired) {
+          await this.recover(backend, retryConfig, requestId);
+        }
+
+        reaped.push(...expired);
+      }
+
+      return reaped;
+    } finally {
+      await this.backend.releaseLock(REAPER_LOCK, lock.lockId);
+    }
+  }
+
+  private async sendHeartbeat(): Promise<void> {
+    // Three missed beats before other instances consider us gone
+    await this.backend.heartbeat(this.instanceId, this.config.heartbeatInterval * 3);
+  }
+
+  private async recover(
+    backend: QueueBackend,
+    retryConfig: RetryConfig,
+    requestId: string
+  ): Promise<void> {
+    const stored = await this.store.getRequest(requestId);
+
+    // Already finished (or gone): only the processing entry was left behind
+    if (!stored || ['completed', 'dead', 'cancelled'].includes(stored.status)) {
+      await backend.markComplete(requestId);
+      return;
+    }
+
+    // A worker marks 'processing' once the attempt starts; otherwise count it now
+    const attempt = stored.status === 'processing' ? stored.attempts : stored.attempts + 1;
+    const request = await backend.getRequest(requestId);
+    const maxRetries = request?.maxRetries ?? retryConfig.maxRetries;
+    const error = new Error('Processing lease expired');
+
+    await this.store.logAttempt(requestId, attempt, { error: error.message });
+
+    if (attempt >= maxRetries) {
+      await this.store.updateRequestStatus(requestId, 'dead', {
+        attempts: attempt,
+        error: error.message,
+      });
+      await backend.moveToDead(requestId);
+
+      await this.events.onRecovered?.(requestId, 'dead', attempt);
+      await this.events.onDead?.(requestId, error);
+    } else {
+      const now = new Date();
+
+      await this.store.updateRequestStatus(requestId, 'pending', {
+        attempts: attempt,
+        nextRetryAt: now,
+        error: error.message,
+      });
+      await backend.scheduleRetry(requestId, now);
+
+      await this.events.onRecovered?.(requestId, 'requeued', attempt);
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import type {
+  QueueBackend,
+  StateStore,
+  StoredRequest,
+  ReconciliationReport,
+} from '../types';
+import { fromStoredRequest } from './request';
+import { DEFAULT_QUEUE } from '../config';
+
+// ============================================================================
+// Reconciler
+// ============================================================================
+
+const RECONCILE_LOCK = 'reconcile';
+const RECONCILE_LOCK_TTL = 5 * 60 * 1000;
+const PAGE_SIZE = 500;
+
+const TERMINAL_STATUSES = ['completed', 'dead', 'cancelled'];
+
+/**
+ * Rebuilds the queue backend from the state store after the backend lost
+ * data (e.g. a Redis flush or failover without persistence). Active rows
+ * missing from the queue are re-seeded, missing payloads are rewritten, and
+ * queue entries whose row is terminal or gone are dropped.
+ */
+export class Reconciler {
+  private backend: QueueBackend;
+  private store: StateStore;
+  private queues: string[];
+
+  constructor(backend: QueueBackend, store: StateStore, queues: string[] = [DEFAULT_QUEUE]) {
+    this.backend = backend;
+    this.store = store;
+    this.queues = queues;
+  }
+
+  /**
+   * Runs one reconciliation pass. Returns null if another instance is
+   * already reconciling.
+   */
+  async run(): Promise<ReconciliationReport | null> {
+    const lock = await this.backend.acquireLock(RECONCILE_LOCK, RECONCILE_LOCK_TTL);
+    if (!lock.acquired || !lock.lockId) return null;
+
+    try {
+      return await this.reconcile();
+    } finally {
+      await this.backend.releaseLock(RECONCILE_LOCK, lock.lockId);
+    }
+  }
+
+  private async reconcile(): Promise<ReconciliationReport> {
+    const startedAt = new Date();
+    const tracked = new Map<string, QueueBackend>();
+
+    for (const queue of this.queues) {
+      const backend = this.backend.forQueue(queue);
+      const snapshot = await backend.getQueueSnapshot();
+
+      for (const requestId of [...snapshot.pending, ...snapshot.scheduled, ...snapshot.processing]) {
+        tracked.set(requestId, backend);
+      }
+    }
+
+    const report: ReconciliationReport = {
+      requeued: [],
+      rescheduled: [],
+      restoredPayloads: [],
+      removed: [],
+      startedAt,
+      completedAt: startedAt,
+    };
+
+    // Re-seed active rows the backend no longer knows about
+    const active = new Set<string>();
+    let afterId: string | undefined;
+
+    while (true) {
+      const rows = await this.store.getActiveRequests(afterId, PAGE_SIZE);
+      if (rows.length === 0) break;
+
+      const payloads = await Promise.all(
+        rows.map((row) => this.backend.forQueue(row.queue).getRequest(row.id))
+      );
+
+      for (const [i, row] of rows.entries()) {
+        active.add(row.id);
+
+        // Rows changed after the snapshot are mid-flight, and queues this
+        // instance doesn't know of weren't snapshotted; leave them be
+        if (row.updated_at > startedAt || !this.queues.includes(row.queue)) continue;
+
+        await this.reconcileRow(row, !!payloads[i], tracked.has(row.id), report);
+      }
+
+      afterId = rows[rows.length - 1]!.id;
+    }
+
+    // Drop queue entries whose row finished or no longer exists
+    for (const [requestId, backend] of tracked) {
+      if (active.has(requestId)) continue;
+
+      const row = await this.store.getRequest(requestId);
+      if (row && !TERMINAL_STATUSES.includes(row.status)) continue;
+
+      await backend.cancel(requestId);
+      await backend.markComplete(requestId);
+      await backend.deleteRequest(requestId);
+      report.removed.push(requestId);
+    }
+
+    report.completedAt = new Date();
+    return report;
+  }
+
+  private async reconcileRow(
+    row: StoredRequest,
+    hasPayload: boolean,
+    isTracked: boolean,
+    report: ReconciliationReport
+  ): Promise<void> {
+    const request = fromStoredRequest(row);
+    const backend = this.backend.forQueue(row.queue);
+
+    // Fix queue membership before the payload, so the payload is never left
+    // unreferenced (retention purges those)
+    if (!isTracked) {
+      const dueAt = row.status === 'scheduled' ? row.scheduled_for : row.next_retry_at;
+
+      if (row.status !== 'processing' && dueAt && dueAt.getTime() > Date.now()) {
+        await backend.scheduleRetry(row.id, dueAt);
+        report.rescheduled.push(row.id);
+      } else {
+        // A processing row the backend lost has no live lease; run it again
+        if (row.status === 'processing') {
+          await this.store.updateRequestStatus(row.id, 'pending');
+        }
+
+        // Enqueueing writes the payload too
+        await backend.enqueue(request);
+        report.requeued.push(row.id);
+
+        if (!hasPayload) report.restoredPayloads.push(row.id);
+        return;
+      }
+    }
+
+    if (!hasPayload) {
+      await backend.updateRequest(request);
+      report.restoredPayloads.push(row.id);
+    }
+  }
+}
@@ -1,10 +1,36 @@
-import { QueueRequestSchema, type QueueRequest, type QueueRequestInput } from '../types';
+import {
+  QueueRequestSchema,
+  TemplatedRequestSchema,
+  type QueueRequest,
+  type QueueRequestInput,
+  type RequestStatus,
+  type StoredRequest,
+} from '../types';
+import { DEFAULT_QUEUE_MANAGER_CONFIG } from '../config';
+import { hasPlaceholder } from './template';
+
+/**
+ * Validates request input. When the request is rendered before it runs, a
+ * URL with placeholders is only checked once rendered.
+ */
+export function parseRequest(input: QueueRequestInput, templated = !!input.dependsOn?.length) {
+  const schema =
+    templated && typeof input.url === 'string' && hasPlaceholder(input.url)
+      ? TemplatedRequestSchema
+      : QueueRequestSchema;
+
+  return schema.parse(input);
+}
 
 /**
  * Creates a normalized QueueRequest from user input.
  */
 export function createRequest(input: QueueRequestInput): QueueRequest {
-  const validated = QueueRequestSchema.parse(input);
+  const validated = parseRequest(input);
+
+  if (validated.orderingKey && validated.dependsOn?.length) {
+    throw new Error('orderingKey cannot be combined with dependsOn');
+  }
 
   return {
     ...validated,
@@ -14,6 +40,52 @@ export function createRequest(input: QueueRequestInput): QueueRequest {
   };
 }
 
+/**
+ * When a request's idempotency key may be claimed by another request.
+ */
+export function idempotencyExpiry(request: QueueRequest): Date {
+  const window = request.idempotencyWindow ?? DEFAULT_QUEUE_MANAGER_CONFIG.idempotencyWindow;
+  return new Date(request.createdAt.getTime() + window);
+}
+
+/**
+ * Status a request is saved with: held while it has dependencies or until
+ * its ordering key releases it, otherwise queued now or at its scheduled time.
+ */
+export function initialStatus(request: QueueRequest): RequestStatus {
+  if (request.dependsOn?.length || request.orderingKey) return 'waiting';
+  return request.scheduledFor ? 'scheduled' : 'pending';
+}
+
+/**
+ * Rebuilds the queued form of a request from its durable row.
+ */
+export function fromStoredRequest(row: StoredRequest): QueueRequest {
+  return {
+    id: row.id,
+    queue: row.queue,
+    url: row.url,
+    method: row.method,
+    headers: row.headers ?? undefined,
+    body: row.body ?? undefined,
+    priority: row.priority,
+    maxRetries: row.max_retries,
+    timeout: row.timeout ?? undefined,
+    scheduledFor: row.scheduled_for ?? undefined,
+    metadata: row.metadata ?? undefined,
+    responseStorage: row.response_storage ?? undefined,
+    dependsOn: row.depends_on ?? undefined,
+    onFailure: row.on_failure ?? undefined,
+    workflowId: row.workflow_id ?? undefined,
+    step: row.step ?? undefined,
+    compensation: row.compensation ?? undefined,
+    batchId: row.batch_id ?? undefined,
+    orderingKey: row.ordering_key ?? undefined,
+    orderingPolicy: row.ordering_policy ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
 /**
  * Extracts the host from a URL for per-host operations.
  */
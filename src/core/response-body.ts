@@ -0,0 +1,156 @@
+import type {
+  BlobStore,
+  QueueResponse,
+  ResponseStorageConfig,
+  ResponseStoragePolicy,
+} from '../types';
+
+// ============================================================================
+// Reading Bodies
+// ============================================================================
+
+export interface ReadBody {
+  bytes: Uint8Array;
+  /** Whether the body went on past the byte limit. */
+  truncated: boolean;
+}
+
+/**
+ * Reads at most `maxBytes` of a response body and cancels the rest of the
+ * stream, so an oversized download never sits in memory.
+ */
+export async function readBody(response: Response, maxBytes: number): Promise<ReadBody> {
+  if (!response.body) return { bytes: new Uint8Array(0), truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (size + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      size = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+
+    chunks.push(value);
+    size += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return { bytes, truncated };
+}
+
+/**
+ * Decodes body bytes: complete JSON bodies are parsed, anything else
+ * (including cut-off JSON) is returned as text.
+ */
+export function decodeBody(bytes: Uint8Array, contentType: string, truncated: boolean): unknown {
+  const text = new TextDecoder().decode(bytes);
+
+  if (contentType.includes('application/json') && !truncated) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  return text;
+}
+
+// ============================================================================
+// Storing Bodies
+// ============================================================================
+
+/**
+ * Shapes the response kept in the state store under a storage policy.
+ * Returns null when nothing should be stored. Under 'full', large bodies are
+ * written to the blob store and only their reference is kept; if that
+ * fails the body is stored truncated rather than failing a request that
+ * already succeeded.
+ */
+export async function toStoredResponse(
+  response: QueueResponse,
+  bytes: Uint8Array,
+  policy: ResponseStoragePolicy,
+  config: ResponseStorageConfig
+): Promise<QueueResponse | null> {
+  const contentType = response.headers['content-type'] ?? '';
+
+  switch (policy) {
+    case 'none':
+      return null;
+
+    case 'headers':
+      return { ...response, body: null };
+
+    case 'full': {
+      const blobStore = config.blobStore;
+      if (!blobStore || bytes.byteLength <= config.offloadThresholdBytes) return response;
+
+      try {
+        const bodyRef = await blobStore.put(`${response.requestId}/${response.attempt}`, bytes);
+        return { ...response, body: null, bodyRef };
+      } catch {
+        return truncate(response, bytes, config.truncateBytes, contentType);
+      }
+    }
+
+    case 'truncated':
+      return truncate(response, bytes, config.truncateBytes, contentType);
+  }
+}
+
+function truncate(
+  response: QueueResponse,
+  bytes: Uint8Array,
+  limit: number,
+  contentType: string
+): QueueResponse {
+  if (bytes.byteLength <= limit) return response;
+
+  return {
+    ...response,
+    body: decodeBody(bytes.subarray(0, limit), contentType, true),
+    bodyTruncated: true,
+  };
+}
+
+// ============================================================================
+// Loading Bodies
+// ============================================================================
+
+/**
+ * Returns a stored response's body, reading it from the blob store if it
+ * was offloaded. Returns null if no body was kept.
+ */
+export async function loadResponseBody(
+  response: QueueResponse,
+  blobStore?: BlobStore
+): Promise<unknown> {
+  if (!response.bodyRef) return response.body ?? null;
+
+  if (!blobStore) {
+    throw new Error(
+      `Request ${response.requestId} has an offloaded body but no blob store is configured`
+    );
+  }
+
+  const bytes = await blobStore.get(response.bodyRef);
+  return bytes
+    ? decodeBody(bytes, response.headers['content-type'] ?? '', response.bodyTruncated ?? false)
+    : null;
+}
@@ -0,0 +1,162 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  BlobStore,
+  QueueBackend,
+  StateStore,
+  FinishedStatus,
+  RequestWithAttempts,
+  RetentionConfig,
+  RetentionReport,
+} from '../types';
+import { DEFAULT_QUEUE } from '../config';
+
+// ============================================================================
+// Retention Scheduler
+// ============================================================================
+
+const RETENTION_LOCK = 'retention';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Periodically deletes finished requests past their retention age, in
+ * batches, optionally archiving them first, and sweeps queue payloads that
+ * no longer belong to a queued request and idempotency keys past their
+ * window. Only one instance runs at a time.
+ */
+export class RetentionScheduler {
+  private backend: QueueBackend;
+  private store: StateStore;
+  private config: RetentionConfig;
+  private blobStore?: BlobStore;
+  private queues: string[];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    backend: QueueBackend,
+    store: StateStore,
+    config: RetentionConfig,
+    blobStore?: BlobStore,
+    queues: string[] = [DEFAULT_QUEUE]
+  ) {
+    if (config.archive === 'ndjson' && !config.archiveDirectory) {
+      throw new Error('retention.archiveDirectory is required for NDJSON archiving');
+    }
+
+    this.backend = backend;
+    this.store = store;
+    this.config = config;
+    this.blobStore = blobStore;
+    this.queues = queues;
+  }
+
+  /**
+   * Starts periodic runs if retention is enabled.
+   */
+  start(): void {
+    if (this.timer || !this.config.enabled) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(() => {});
+    }, this.config.interval);
+  }
+
+  /**
+   * Stops periodic runs.
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Runs retention once. Returns null if another instance is already running it.
+   */
+  async run(): Promise<RetentionReport | null> {
+    const lock = await this.backend.acquireLock(RETENTION_LOCK, this.config.interval);
+    if (!lock.acquired || !lock.lockId) return null;
+
+    try {
+      const report: RetentionReport = {
+        deleted: { completed: 0, dead: 0, cancelled: 0 },
+        archived: 0,
+        orphanedPayloads: 0,
+        idempotencyKeys: 0,
+        startedAt: new Date(),
+        completedAt: new Date(),
+      };
+
+      const ages: [FinishedStatus, number | undefined][] = [
+        ['completed', this.config.completedAfterDays],
+        ['dead', this.config.deadAfterDays],
+        ['cancelled', this.config.cancelledAfterDays],
+      ];
+
+      for (const [status, days] of ages) {
+        if (days === undefined) continue;
+        await this.purge(status, new Date(Date.now() - days * DAY_MS), report);
+      }
+
+      for (const queue of this.queues) {
+        const backend = this.backend.forQueue(queue);
+        let cursor = '0';
+        do {
+          const page = await backend.purgeOrphanedPayloads(cursor, this.config.batchSize);
+          report.orphanedPayloads += page.purged;
+          cursor = page.cursor;
+        } while (cursor !== '0');
+      }
+
+      report.idempotencyKeys = await this.store.purgeIdempotencyKeys();
+
+      report.completedAt = new Date();
+      return report;
+    } finally {
+      await this.backend.releaseLock(RETENTION_LOCK, lock.lockId);
+    }
+  }
+
+  private async purge(
+    status: FinishedStatus,
+    olderThan: Date,
+    report: RetentionReport
+  ): Promise<void> {
+    while (true) {
+      const rows = await this.store.getExpiredRequests(status, olderThan, this.config.batchSize);
+      if (rows.length === 0) return;
+
+      // Files are written before deleting; a crash in between only duplicates lines
+      if (this.config.archive === 'ndjson') {
+        await this.appendArchive(status, rows);
+      }
+
+      const ids = rows.map((row) => row.id);
+      const deleted = await this.store.deleteRequests(ids, this.config.archive === 'table');
+      await Promise.all(rows.map((row) => this.backend.forQueue(row.queue).deleteRequest(row.id)));
+
+      // Archived rows keep their body references, so only unarchived blobs go
+      if (this.blobStore && this.config.archive === 'none') {
+        const refs = rows.flatMap((row) => (row.response?.bodyRef ? [row.response.bodyRef] : []));
+        await Promise.all(refs.map((ref) => this.blobStore!.delete(ref)));
+      }
+
+      report.deleted[status] += deleted;
+      if (this.config.archive !== 'none') {
+        report.archived += this.config.archive === 'table' ? deleted : rows.length;
+      }
+
+      if (rows.length < this.config.batchSize) return;
+    }
+  }
+
+  private async appendArchive(status: FinishedStatus, rows: RequestWithAttempts[]): Promise<void> {
+    const directory = this.config.archiveDirectory!;
+    const day = new Date().toISOString().slice(0, 10);
+
+    await mkdir(directory, { recursive: true });
+    await appendFile(
+      join(directory, `requests-${status}-${day}.ndjson`),
+      rows.map((row) => JSON.stringify(row)).join('\n') + '\n'
+    );
+  }
+}
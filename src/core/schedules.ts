@@ -0,0 +1,218 @@
+import {
+  QueueRequestSchema,
+  type EnqueueResult,
+  type QueueBackend,
+  type QueueRequestInput,
+  type Schedule,
+  type ScheduleConfig,
+  type ScheduleInput,
+  type ScheduleUpdate,
+  type StateStore,
+  type StoredSchedule,
+} from '../types';
+import { assertTimeZone, nextOccurrence, parseCron } from './cron';
+
+// ============================================================================
+// Schedule Definitions
+// ============================================================================
+
+const FINISHED_STATUSES = ['completed', 'dead', 'cancelled'];
+
+/**
+ * Validates a schedule definition and works out its first run.
+ */
+export function planSchedule(input: ScheduleInput, now: Date = new Date()): StoredSchedule {
+  const schedule: StoredSchedule = {
+    id: crypto.randomUUID(),
+    name: input.name ?? null,
+    cron: input.cron,
+    timezone: input.timezone ?? 'UTC',
+    request: input.request,
+    overlap: input.overlap ?? 'skip',
+    paused: input.paused ?? false,
+    next_run_at: now,
+    last_run_at: null,
+    last_request_id: null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  validateSchedule(schedule);
+  schedule.next_run_at = nextRun(schedule, now);
+  return schedule;
+}
+
+/**
+ * Applies changes to a schedule. A new expression or time zone, or resuming
+ * a paused schedule, moves the next run to the first occurrence from now, so
+ * occurrences missed while paused are not made up.
+ */
+export function reviseSchedule(
+  schedule: StoredSchedule,
+  update: ScheduleUpdate,
+  now: Date = new Date()
+): StoredSchedule {
+  const updated: StoredSchedule = {
+    ...schedule,
+    name: update.name !== undefined ? update.name : schedule.name,
+    cron: update.cron ?? schedule.cron,
+    timezone: update.timezone ?? schedule.timezone,
+    request: update.request ?? schedule.request,
+    overlap: update.overlap ?? schedule.overlap,
+    paused: update.paused ?? schedule.paused,
+    updated_at: now,
+  };
+
+  validateSchedule(updated);
+
+  if (
+    updated.cron !== schedule.cron ||
+    updated.timezone !== schedule.timezone ||
+    (schedule.paused && !updated.paused)
+  ) {
+    updated.next_run_at = nextRun(updated, now);
+  }
+
+  return updated;
+}
+
+function validateSchedule(schedule: StoredSchedule): void {
+  parseCron(schedule.cron);
+  assertTimeZone(schedule.timezone);
+  QueueRequestSchema.parse(schedule.request);
+
+  if (!['skip', 'allow'].includes(schedule.overlap)) {
+    throw new Error(`Invalid overlap policy: ${schedule.overlap}`);
+  }
+}
+
+function nextRun(schedule: StoredSchedule, after: Date): Date {
+  return nextOccurrence(parseCron(schedule.cron), schedule.timezone, after);
+}
+
+export function toSchedule(stored: StoredSchedule): Schedule {
+  return {
+    id: stored.id,
+    name: stored.name ?? undefined,
+    cron: stored.cron,
+    timezone: stored.timezone,
+    request: stored.request,
+    overlap: stored.overlap,
+    paused: stored.paused,
+    nextRunAt: stored.next_run_at,
+    lastRunAt: stored.last_run_at ?? undefined,
+    lastRequestId: stored.last_request_id ?? undefined,
+    createdAt: stored.created_at,
+    updatedAt: stored.updated_at,
+  };
+}
+
+// ============================================================================
+// Cron Scheduler
+// ============================================================================
+
+const SCHEDULE_LOCK = 'schedules';
+const PAGE_SIZE = 100;
+
+/**
+ * Enqueues the due occurrences of stored schedules. Only the instance
+ * holding the scheduler lock runs at a time, and each occurrence is enqueued
+ * under an idempotency key derived from the schedule and its time, so an
+ * occurrence retried after a crash or a lost lock is enqueued only once.
+ *
+ * An occurrence that was missed, e.g. while no instance was running, is
+ * enqueued once when next checked; the schedule then carries on from now.
+ */
+export class CronScheduler {
+  private backend: QueueBackend;
+  private store: StateStore;
+  private config: ScheduleConfig;
+  private enqueue: (input: QueueRequestInput) => Promise<EnqueueResult>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    backend: QueueBackend,
+    store: StateStore,
+    config: ScheduleConfig,
+    enqueue: (input: QueueRequestInput) => Promise<EnqueueResult>
+  ) {
+    this.backend = backend;
+    this.store = store;
+    this.config = config;
+    this.enqueue = enqueue;
+  }
+
+  /**
+   * Starts periodic checks for due schedules, if enabled.
+   */
+  start(): void {
+    if (this.timer || !this.config.enabled) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(() => {});
+    }, this.config.checkInterval);
+  }
+
+  /**
+   * Stops periodic checks.
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Handles every schedule due at `now`. Returns how many requests were
+   * enqueued, or null if another instance is already running schedules.
+   * A schedule that fails to enqueue is retried on the next check.
+   */
+  async run(now: Date = new Date()): Promise<number | null> {
+    const lock = await this.backend.acquireLock(SCHEDULE_LOCK, this.config.checkInterval);
+    if (!lock.acquired || !lock.lockId) return null;
+
+    try {
+      let enqueued = 0;
+
+      for (const schedule of await this.store.getDueSchedules(now, PAGE_SIZE)) {
+        try {
+          if (await this.runOccurrence(schedule, now)) enqueued++;
+        } catch {
+          // Left due; the next check tries again
+        }
+      }
+
+      return enqueued;
+    } finally {
+      await this.backend.releaseLock(SCHEDULE_LOCK, lock.lockId);
+    }
+  }
+
+  /**
+   * Enqueues the schedule's due occurrence, unless the previous run is still
+   * unfinished under the 'skip' policy, and moves it to the next one.
+   * Returns whether a request was enqueued.
+   */
+  private async runOccurrence(schedule: StoredSchedule, now: Date): Promise<boolean> {
+    const runAt = schedule.next_run_at;
+    const nextRunAt = nextRun(schedule, runAt > now ? runAt : now);
+    let requestId: string | null = null;
+
+    if (schedule.overlap === 'allow' || !(await this.isRunning(schedule))) {
+      const result = await this.enqueue({
+        ...schedule.request,
+        idempotencyKey: `schedule:${schedule.id}:${runAt.toISOString()}`,
+      });
+      requestId = result.id;
+    }
+
+    await this.store.advanceSchedule(schedule.id, runAt, nextRunAt, requestId);
+    return requestId !== null;
+  }
+
+  private async isRunning(schedule: StoredSchedule): Promise<boolean> {
+    if (!schedule.last_request_id) return false;
+
+    const last = await this.store.getRequest(schedule.last_request_id);
+    return last !== null && !FINISHED_STATUSES.includes(last.status);
+  }
+}
@@ -0,0 +1,105 @@
+import type { QueueRequest } from '../types';
+
+// ============================================================================
+// Request Templates
+// ============================================================================
+
+/**
+ * What a template can refer to: the status, headers and body of each
+ * finished dependency, keyed by step name (or request id outside a
+ * workflow). A dependency that was skipped has no entry.
+ */
+export interface TemplateContext {
+  steps: Record<string, { status: number; headers: Record<string, string>; body: unknown }>;
+}
+
+const PLACEHOLDER = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([^{}\s]+)\s*\}\}$/;
+
+/**
+ * Whether a string contains a `{{ path }}` placeholder.
+ */
+export function hasPlaceholder(text: string): boolean {
+  return text.search(PLACEHOLDER) !== -1;
+}
+
+/**
+ * Looks up a dotted path such as `steps.login.body.token` or
+ * `steps.list.body.items.0.id`. Missing values resolve to undefined.
+ */
+export function resolvePath(context: TemplateContext, path: string): unknown {
+  let value: unknown = context;
+
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object' || !Object.hasOwn(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+/**
+ * Replaces `{{ path }}` placeholders in strings, recursing into arrays and
+ * objects. A string that is a single placeholder takes the value as is, so
+ * numbers and objects keep their type; placeholders inside a longer string
+ * are formatted (objects as JSON, missing values as '') and passed through
+ * `encode`.
+ */
+export function renderTemplate(
+  value: unknown,
+  context: TemplateContext,
+  encode: (text: string) => string = (text) => text
+): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole) return resolvePath(context, whole[1]!);
+
+    return value.replace(PLACEHOLDER, (_, path: string) => encode(formatValue(resolvePath(context, path))));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => renderTemplate(item, context, encode));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplate(item, context, encode)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Renders a request's URL, headers and body. Values placed inside the URL
+ * are percent-encoded; a URL that is a single placeholder is used as is.
+ * Throws if the result is not a valid URL.
+ */
+export function renderRequest(
+  request: Pick<QueueRequest, 'url' | 'headers' | 'body'>,
+  context: TemplateContext
+): Pick<QueueRequest, 'url' | 'headers' | 'body'> {
+  const url = formatValue(renderTemplate(request.url, context, encodeURIComponent));
+
+  if (!URL.canParse(url)) {
+    throw new Error(`Templated URL is invalid: ${url}`);
+  }
+
+  const headers = request.headers
+    ? Object.fromEntries(
+        Object.entries(request.headers).map(([name, value]) => [
+          name,
+          formatValue(renderTemplate(value, context)),
+        ])
+      )
+    : undefined;
+
+  return { url, headers, body: renderTemplate(request.body, context) };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -2,15 +2,36 @@ import type {
   QueueRequest,
   QueueResponse,
   RetryConfig,
+  QueueBackend,
+  StateStore,
+  ResponseStorageConfig,
+  DiagnosticsConfig,
+  AttemptTimings,
 } from '../types';
-import type { RedisStore } from '../storage/redis';
-import type { PostgresStore } from '../storage/postgres';
+import {
+  DEFAULT_RECOVERY_CONFIG,
+  DEFAULT_RESPONSE_STORAGE_CONFIG,
+  DEFAULT_DIAGNOSTICS_CONFIG,
+} from '../config';
 import { BackpressureController } from '../backpressure/controller';
 import {
   calculateRetryDelay,
   shouldRetry,
 } from '../retry/strategies';
 import { getHostFromUrl } from './request';
+import { readBody, decodeBody, toStoredResponse } from './response-body';
+import { requestDiagnostics, responseDiagnostics, serializeBody } from './diagnostics';
+
+interface HttpResult {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+  bytes: Uint8Array;
+  truncated: boolean;
+  url: string;
+  redirected: boolean;
+  timings: AttemptTimings;
+}
 
 // ============================================================================
 // Worker Class
@@ -24,26 +45,39 @@ export interface WorkerEvents {
 }
 
 export class Worker {
-  private redis: RedisStore;
-  private postgres: PostgresStore;
+  private backend: QueueBackend;
+  private store: StateStore;
   private backpressure: BackpressureController;
   private retryConfig: RetryConfig;
   private events: Partial<WorkerEvents>;
+  private ownerId: string;
+  private leaseTimeout: number;
+  private responseStorage: ResponseStorageConfig;
+  private diagnostics: DiagnosticsConfig;
   private running = false;
   private processing = new Set<string>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(
-    redis: RedisStore,
-    postgres: PostgresStore,
+    backend: QueueBackend,
+    store: StateStore,
     backpressure: BackpressureController,
     retryConfig: RetryConfig,
-    events: Partial<WorkerEvents> = {}
+    events: Partial<WorkerEvents> = {},
+    ownerId: string = crypto.randomUUID(),
+    leaseTimeout: number = DEFAULT_RECOVERY_CONFIG.leaseTimeout,
+    responseStorage: ResponseStorageConfig = DEFAULT_RESPONSE_STORAGE_CONFIG,
+    diagnostics: DiagnosticsConfig = DEFAULT_DIAGNOSTICS_CONFIG
   ) {
-    this.redis = redis;
-    this.postgres = postgres;
+    this.backend = backend;
+    this.store = store;
     this.backpressure = backpressure;
     this.retryConfig = retryConfig;
     this.events = events;
+    this.ownerId = ownerId;
+    this.leaseTimeout = leaseTimeout;
+    this.responseStorage = responseStorage;
+    this.diagnostics = diagnostics;
   }
 
   /**
@@ -54,7 +88,7 @@ export class Worker {
     this.running = true;
 
     // Subscribe to new request notifications
-    await this.redis.subscribe('new-request', async (message) => {
+    await this.backend.subscribe('new-request', async (message) => {
       if (!this.running) return;
 
       // Handle batch notifications
@@ -67,11 +101,11 @@ export class Worker {
     });
 
     // Subscribe to retry notifications
-    await this.redis.subscribe('retry', async () => {
+    await this.backend.subscribe('retry', async () => {
       if (!this.running) return;
       
       // Promote any scheduled requests that are due
-      await this.redis.promoteScheduledRequests();
+      await this.promoteDue();
     });
 
     // Initial check for existing queue items
@@ -86,7 +120,9 @@ export class Worker {
    */
   async stop(): Promise<void> {
     this.running = false;
-    await this.redis.unsubscribe();
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    await this.backend.unsubscribe();
 
     // Wait for in-flight requests to complete (with timeout)
     const timeout = 30000;
@@ -111,7 +147,7 @@ export class Worker {
    * Processes the next request in the queue.
    */
   private async processNext(): Promise<boolean> {
-    const request = await this.redis.dequeue();
+    const request = await this.backend.dequeue(this.ownerId, this.leaseTimeout);
     if (!request) return false;
 
     // Don't process if already being processed
@@ -119,10 +155,24 @@ export class Worker {
 
     this.processing.add(request.id);
 
-    // Process in background
-    this.processRequest(request).finally(() => {
-      this.processing.delete(request.id);
-    });
+    // Renew the lease while the request runs so it isn't reclaimed
+    const renewal = setInterval(() => {
+      this.backend
+        .extendLease(request.id, this.ownerId, this.leaseTimeout)
+        .then((held) => {
+          if (!held) clearInterval(renewal);
+        })
+        .catch(() => {});
+    }, this.leaseTimeout / 3);
+
+    // Process in background; if it throws, the lease runs out and the reaper
+    // takes the request back
+    this.processRequest(request)
+      .catch(() => {})
+      .finally(() => {
+        clearInterval(renewal);
+        this.processing.delete(request.id);
+      });
 
     return true;
   }
@@ -134,8 +184,8 @@ export class Worker {
     const host = getHostFromUrl(request.url);
     const maxRetries = request.maxRetries ?? this.retryConfig.maxRetries;
 
-    // Get current attempt count from PostgreSQL
-    const storedRequest = await this.postgres.getRequest(request.id);
+    // Get current attempt count from the state store
+    const storedRequest = await this.store.getRequest(request.id);
     const currentAttempt = (storedRequest?.attempts ?? 0) + 1;
 
     // Wait for backpressure slot
@@ -143,29 +193,38 @@ export class Worker {
     
     if (!canProceed) {
       // Reschedule if we couldn't get a slot
-      await this.redis.scheduleRetry(request.id, new Date(Date.now() + 5000));
+      await this.backend.scheduleRetry(request.id, new Date(Date.now() + 5000), this.ownerId);
       return;
     }
 
     this.backpressure.acquire(host);
 
+    const diagnostics = this.diagnostics.enabled
+      ? requestDiagnostics(request, this.diagnostics)
+      : undefined;
+    const startTime = Date.now();
+
     try {
       // Update status to processing
-      await this.postgres.updateRequestStatus(request.id, 'processing', {
+      await this.store.updateRequestStatus(request.id, 'processing', {
         attempts: currentAttempt,
         lastAttemptAt: new Date(),
       });
 
       // Execute the request
-      const startTime = Date.now();
       const response = await this.executeRequest(request);
       const duration = Date.now() - startTime;
 
       // Log attempt
-      await this.postgres.logAttempt(request.id, currentAttempt, {
+      await this.store.logAttempt(request.id, currentAttempt, {
         statusCode: response.status,
         durationMs: duration,
         responseHeaders: response.headers,
+        diagnostics: diagnostics && {
+          ...diagnostics,
+          ...responseDiagnostics(response, this.diagnostics),
+          timings: response.timings,
+        },
       });
 
       // Check if response indicates success
@@ -187,8 +246,12 @@ export class Worker {
       const err = error instanceof Error ? error : new Error(String(error));
 
       // Log failed attempt
-      await this.postgres.logAttempt(request.id, currentAttempt, {
+      await this.store.logAttempt(request.id, currentAttempt, {
         error: err.message,
+        diagnostics: diagnostics && {
+          ...diagnostics,
+          timings: { totalMs: Date.now() - startTime },
+        },
       });
 
       await this.handleFailure(request, undefined, err, currentAttempt, maxRetries);
@@ -203,42 +266,48 @@ export class Worker {
   /**
    * Executes the HTTP request.
    */
-  private async executeRequest(request: QueueRequest): Promise<{
-    status: number;
-    headers: Record<string, string>;
-    body: unknown;
-  }> {
+  private async executeRequest(request: QueueRequest): Promise<HttpResult> {
     const controller = new AbortController();
     const timeout = request.timeout ?? 30000;
 
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const startTime = Date.now();
 
     try {
       const response = await fetch(request.url, {
         method: request.method,
         headers: request.headers,
-        body: request.body ? JSON.stringify(request.body) : undefined,
+        body: serializeBody(request),
         signal: controller.signal,
       });
+      const headersAt = Date.now();
 
       const headers: Record<string, string> = {};
       response.headers.forEach((value, key) => {
         headers[key] = value;
       });
 
-      let body: unknown;
+      // Read no more than the configured limit, however large the body is
+      const { bytes, truncated } = await readBody(
+        response,
+        this.responseStorage.maxResponseBodyBytes
+      );
       const contentType = response.headers.get('content-type') ?? '';
-      
-      if (contentType.includes('application/json')) {
-        body = await response.json();
-      } else {
-        body = await response.text();
-      }
+      const endTime = Date.now();
 
       return {
         status: response.status,
         headers,
-        body,
+        body: decodeBody(bytes, contentType, truncated),
+        bytes,
+        truncated,
+        url: response.url || request.url,
+        redirected: response.redirected,
+        timings: {
+          headersMs: headersAt - startTime,
+          bodyMs: endTime - headersAt,
+          totalMs: endTime - startTime,
+        },
       };
     } finally {
       clearTimeout(timeoutId);
@@ -250,7 +319,7 @@ export class Worker {
    */
   private async handleSuccess(
     request: QueueRequest,
-    response: { status: number; headers: Record<string, string>; body: unknown },
+    response: HttpResult,
     attempt: number,
     duration: number
   ): Promise<void> {
@@ -262,17 +331,27 @@ export class Worker {
       duration,
       attempt,
       completedAt: new Date(),
+      bodySize: response.bytes.byteLength,
+      ...(response.truncated && { bodyTruncated: true }),
     };
 
-    // Update PostgreSQL
-    await this.postgres.updateRequestStatus(request.id, 'completed', {
-      response: queueResponse,
+    // Release the lease first; if it was lost, another worker now owns the request
+    if (!(await this.backend.markComplete(request.id, this.ownerId))) return;
+
+    // Store only what the request's policy allows
+    const stored = await toStoredResponse(
+      queueResponse,
+      response.bytes,
+      request.responseStorage ?? this.responseStorage.policy,
+      this.responseStorage
+    );
+
+    // Update durable state
+    await this.store.updateRequestStatus(request.id, 'completed', {
+      response: stored ?? undefined,
       completedAt: new Date(),
     });
 
-    // Mark complete in Redis
-    await this.redis.markComplete(request.id);
-
     // Emit event
     await this.events.onComplete?.(queueResponse);
   }
@@ -299,49 +378,69 @@ export class Worker {
       const delay = calculateRetryDelay(currentAttempt, this.retryConfig);
       const nextRetryAt = new Date(Date.now() + delay);
 
-      // Update PostgreSQL
-      await this.postgres.updateRequestStatus(request.id, 'pending', {
+      // Schedule retry in the queue backend, unless the lease was lost
+      if (!(await this.backend.scheduleRetry(request.id, nextRetryAt, this.ownerId))) return;
+
+      // Update durable state
+      await this.store.updateRequestStatus(request.id, 'pending', {
         nextRetryAt,
         error: error.message,
       });
 
-      // Schedule retry in Redis
-      await this.redis.scheduleRetry(request.id, nextRetryAt);
-
       // Emit event
       await this.events.onRetry?.(request.id, currentAttempt, nextRetryAt);
       await this.events.onError?.(request.id, error, true);
     } else {
-      // Move to dead letter queue
-      await this.postgres.updateRequestStatus(request.id, 'dead', {
+      // Move to dead letter queue, unless the lease was lost
+      if (!(await this.backend.moveToDead(request.id, this.ownerId))) return;
+
+      await this.store.updateRequestStatus(request.id, 'dead', {
         error: error.message,
       });
 
-      await this.redis.moveToDead(request.id);
-
       // Emit events
       await this.events.onDead?.(request.id, error);
       await this.events.onError?.(request.id, error, false);
     }
   }
 
+  /**
+   * Promotes due scheduled requests and marks delayed ones pending again.
+   */
+  private async promoteDue(): Promise<string[]> {
+    const promoted = await this.backend.promoteScheduledRequests();
+
+    if (promoted.length > 0) {
+      await this.store.promoteScheduled(promoted);
+    }
+
+    return promoted;
+  }
+
   /**
    * Periodically checks for scheduled retries.
    */
   private scheduleRetryCheck(): void {
     const check = async () => {
       if (!this.running) return;
+      const timer = this.retryTimer;
 
-      const promoted = await this.redis.promoteScheduledRequests();
-      
-      if (promoted.length > 0) {
-        await this.processAvailable();
+      try {
+        const promoted = await this.promoteDue();
+
+        if (promoted.length > 0) {
+          await this.processAvailable();
+        }
+      } catch {
+        // A failed check is retried on the next one
       }
 
-      // Schedule next check
-      setTimeout(check, 1000);
+      // Schedule next check, unless stopped meanwhile; a restart runs its own
+      if (this.running && this.retryTimer === timer) {
+        this.retryTimer = setTimeout(check, 1000);
+      }
     };
 
-    setTimeout(check, 1000);
+    this.retryTimer = setTimeout(check, 1000);
   }
 }
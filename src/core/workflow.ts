@@ -0,0 +1,401 @@
+import {
+  type BlobStore,
+  type QueueBackend,
+  type QueueRequest,
+  type StateStore,
+  type StoredRequest,
+  type WorkflowConfig,
+  type WorkflowDefinition,
+  type WorkflowState,
+  type WorkflowStatus,
+  type WorkflowStepInput,
+  type WorkflowStepState,
+} from '../types';
+import { createRequest, fromStoredRequest, parseRequest } from './request';
+import { loadResponseBody } from './response-body';
+import { renderRequest, type TemplateContext } from './template';
+
+// ============================================================================
+// Workflow Planning
+// ============================================================================
+
+const STEP_NAME = /^[A-Za-z0-9_-]+$/;
+
+// Compensation rows are named after the step they undo; ':' can't appear in
+// a step name, so they never collide with one
+const COMPENSATION_PREFIX = 'compensate:';
+
+const TERMINAL_STATUSES = ['completed', 'dead', 'cancelled'];
+
+/**
+ * Turns a workflow definition into its step requests, each depending on the
+ * requests of the steps it runs after. Throws on unknown or invalid step
+ * names and on cycles.
+ */
+export function planWorkflow(
+  definition: WorkflowDefinition,
+  workflowId: string = crypto.randomUUID()
+): QueueRequest[] {
+  const names = Object.keys(definition.steps);
+  if (names.length === 0) {
+    throw new Error('A workflow needs at least one step');
+  }
+
+  const ids = new Map(names.map((name) => [name, crypto.randomUUID()]));
+
+  for (const [name, step] of Object.entries(definition.steps)) {
+    if (!STEP_NAME.test(name)) {
+      throw new Error(`Invalid step name: ${name}`);
+    }
+
+    for (const parent of step.after ?? []) {
+      if (!ids.has(parent)) throw new Error(`Step ${name} runs after unknown step ${parent}`);
+    }
+  }
+
+  assertAcyclic(definition.steps);
+
+  return names.map((name) => {
+    const { after, onFailure, compensate, ...input } = definition.steps[name]!;
+    if (compensate) parseRequest(compensate, true);
+
+    return {
+      ...createRequest({
+        ...input,
+        id: ids.get(name),
+        dependsOn: after?.map((parent) => ids.get(parent)!),
+        onFailure: onFailure ?? definition.onFailure,
+      }),
+      workflowId,
+      step: name,
+      compensation: compensate,
+    };
+  });
+}
+
+function assertAcyclic(steps: Record<string, WorkflowStepInput>): void {
+  const visited = new Set<string>();
+
+  const visit = (name: string, path: string[]) => {
+    if (path.includes(name)) {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      throw new Error(`Workflow steps form a cycle: ${cycle.join(' -> ')}`);
+    }
+    if (visited.has(name)) return;
+
+    for (const parent of steps[name]?.after ?? []) visit(parent, [...path, name]);
+    visited.add(name);
+  };
+
+  for (const name of Object.keys(steps)) visit(name, []);
+}
+
+// ============================================================================
+// Workflow State
+// ============================================================================
+
+/**
+ * Whether a finished request counts as failed for what depends on it.
+ * Cancellation always does; dead-lettering does unless the policy is 'skip'.
+ */
+function isFailure(row: StoredRequest): boolean {
+  return row.status === 'cancelled' || (row.status === 'dead' && row.on_failure !== 'skip');
+}
+
+function isCompensation(row: StoredRequest): boolean {
+  return row.step?.startsWith(COMPENSATION_PREFIX) ?? false;
+}
+
+/**
+ * Derives a workflow's state from its rows. It is failed once any step
+ * failed, compensating while compensations run, and completed once every
+ * step finished without failing.
+ */
+export function workflowState(workflowId: string, rows: StoredRequest[]): WorkflowState {
+  const names = new Map(rows.map((row) => [row.id, row.step ?? row.id]));
+  const toStep = (row: StoredRequest, name: string): WorkflowStepState => ({
+    name,
+    requestId: row.id,
+    status: row.status,
+    after: (row.depends_on ?? []).map((id) => names.get(id) ?? id),
+    attempts: row.attempts,
+    error: row.error ?? undefined,
+    response: row.response ?? undefined,
+  });
+
+  const compensations = rows.filter(isCompensation);
+
+  // Steps are listed parents first, then by name
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const depths = new Map<string, number>();
+  const depth = (row: StoredRequest): number => {
+    let value = depths.get(row.id);
+    if (value === undefined) {
+      const parents = (row.depends_on ?? []).flatMap((id) => byId.get(id) ?? []);
+      value = parents.length === 0 ? 0 : 1 + Math.max(...parents.map(depth));
+      depths.set(row.id, value);
+    }
+    return value;
+  };
+  const steps = rows
+    .filter((row) => !isCompensation(row))
+    .sort((a, b) => depth(a) - depth(b) || (a.step ?? a.id).localeCompare(b.step ?? b.id));
+
+  let status: WorkflowStatus = 'running';
+  if (steps.some(isFailure)) {
+    status =
+      compensations.length === 0
+        ? 'failed'
+        : compensations.every((row) => TERMINAL_STATUSES.includes(row.status))
+          ? 'compensated'
+          : 'compensating';
+  } else if (steps.every((row) => TERMINAL_STATUSES.includes(row.status))) {
+    status = 'completed';
+  }
+
+  return {
+    id: workflowId,
+    status,
+    steps: steps.map((row) => toStep(row, row.step ?? row.id)),
+    compensations: compensations.map((row) =>
+      toStep(row, row.step!.slice(COMPENSATION_PREFIX.length))
+    ),
+    createdAt: new Date(Math.min(...rows.map((row) => row.created_at.getTime()))),
+    updatedAt: new Date(Math.max(...rows.map((row) => row.updated_at.getTime()))),
+  };
+}
+
+// ============================================================================
+// Workflow Coordinator
+// ============================================================================
+
+const WORKFLOW_LOCK = 'workflows';
+const PAGE_SIZE = 500;
+
+/**
+ * Moves waiting requests on once their dependencies finish: a request whose
+ * dependencies all completed (or were skipped) is rendered against their
+ * responses and queued, one with a failed dependency is cancelled. When a
+ * workflow step fails, the workflow's other waiting steps are cancelled and,
+ * under 'compensate', the compensations of its completed steps are queued.
+ *
+ * Every transition is a conditional update in the state store, so several
+ * instances can race on the same request and only one of them queues it.
+ */
+export class WorkflowCoordinator {
+  private backend: QueueBackend;
+  private store: StateStore;
+  private config: WorkflowConfig;
+  private blobStore?: BlobStore;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    backend: QueueBackend,
+    store: StateStore,
+    config: WorkflowConfig,
+    blobStore?: BlobStore
+  ) {
+    this.backend = backend;
+    this.store = store;
+    this.config = config;
+    this.blobStore = blobStore;
+  }
+
+  /**
+   * Starts periodic checks of waiting requests, if enabled.
+   */
+  start(): void {
+    if (this.timer || !this.config.enabled) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(() => {});
+    }, this.config.checkInterval);
+  }
+
+  /**
+   * Stops periodic checks.
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Checks every waiting request once. Returns how many were released or
+   * cancelled, or null if another instance is already checking.
+   */
+  async run(): Promise<number | null> {
+    const lock = await this.backend.acquireLock(WORKFLOW_LOCK, this.config.checkInterval);
+    if (!lock.acquired || !lock.lockId) return null;
+
+    try {
+      let moved = 0;
+      let afterId: string | undefined;
+
+      while (true) {
+        const rows = await this.store.getWaitingRequests(afterId, PAGE_SIZE);
+
+        for (const row of rows) {
+          if (await this.evaluate(row)) moved++;
+        }
+
+        if (rows.length < PAGE_SIZE) return moved;
+        afterId = rows[rows.length - 1]!.id;
+      }
+    } finally {
+      await this.backend.releaseLock(WORKFLOW_LOCK, lock.lockId);
+    }
+  }
+
+  /**
+   * Releases the given requests if their dependencies have already
+   * finished. Used right after saving requests that wait on others.
+   */
+  async release(requestIds: string[]): Promise<void> {
+    for (const requestId of requestIds) {
+      const row = await this.store.getRequest(requestId);
+      if (row?.status === 'waiting') await this.evaluate(row);
+    }
+  }
+
+  /**
+   * Reacts to a request having completed, been dead-lettered or cancelled.
+   */
+  async settled(requestId: string): Promise<void> {
+    const row = await this.store.getRequest(requestId);
+    if (!row) return;
+
+    if (row.workflow_id && isFailure(row)) {
+      await this.failWorkflow(row);
+    }
+
+    await this.evaluateDependents(requestId);
+  }
+
+  /**
+   * Gets a workflow's state, or null if it has no requests.
+   */
+  async getWorkflow(workflowId: string): Promise<WorkflowState | null> {
+    const rows = await this.store.getWorkflowRequests(workflowId);
+    return rows.length > 0 ? workflowState(workflowId, rows) : null;
+  }
+
+  /**
+   * Releases or cancels a waiting request if its dependencies allow it.
+   * Returns whether it moved.
+   */
+  private async evaluate(row: StoredRequest): Promise<boolean> {
+    const context: TemplateContext = { steps: {} };
+
+    for (const parentId of row.depends_on ?? []) {
+      const parent = await this.store.getRequest(parentId);
+      if (!parent) return this.cancel(row, `Dependency ${parentId} not found`);
+
+      const name = parent.step ?? parent.id;
+
+      if (parent.status === 'completed') {
+        if (parent.response) {
+          context.steps[name] = {
+            status: parent.response.status,
+            headers: parent.response.headers,
+            body: await loadResponseBody(parent.response, this.blobStore),
+          };
+        }
+      } else if (isFailure(parent)) {
+        return this.cancel(row, `Dependency ${name} is ${parent.status}`);
+      } else if (parent.status !== 'dead') {
+        return false;
+      }
+    }
+
+    const request = fromStoredRequest(row);
+    let rendered: ReturnType<typeof renderRequest>;
+
+    try {
+      rendered = renderRequest(request, context);
+    } catch (error) {
+      const cancelled = await this.cancel(row, (error as Error).message);
+      if (cancelled && row.workflow_id) await this.failWorkflow({ ...row, status: 'cancelled' });
+      return cancelled;
+    }
+
+    if (!(await this.store.releaseRequest(row.id, rendered))) return false;
+
+    await this.backend.forQueue(request.queue).enqueue({ ...request, ...rendered });
+    return true;
+  }
+
+  private async evaluateDependents(requestId: string): Promise<void> {
+    for (const dependent of await this.store.getDependents(requestId)) {
+      await this.evaluate(dependent);
+    }
+  }
+
+  /**
+   * Cancels a waiting request and passes the failure on to its dependents.
+   */
+  private async cancel(row: StoredRequest, error: string): Promise<boolean> {
+    if (!(await this.store.cancelWaiting(row.id, error))) return false;
+
+    await this.evaluateDependents(row.id);
+    return true;
+  }
+
+  /**
+   * Cancels the workflow's waiting steps and, if the failed step asks for
+   * it, queues compensations. Steps already queued are left to run.
+   */
+  private async failWorkflow(failed: StoredRequest): Promise<void> {
+    const rows = await this.store.getWorkflowRequests(failed.workflow_id!);
+
+    for (const row of rows) {
+      if (row.status === 'waiting') {
+        await this.cancel(row, `Workflow failed at step ${failed.step}`);
+      }
+    }
+
+    if (failed.on_failure === 'compensate') {
+      await this.compensate(failed.workflow_id!, rows);
+    }
+  }
+
+  /**
+   * Queues the compensation of every completed step that has one, most
+   * recently completed first. Each compensation holds an idempotency key
+   * derived from its step, so repeated failures queue it only once.
+   */
+  private async compensate(workflowId: string, rows: StoredRequest[]): Promise<void> {
+    const completed = rows.filter((row) => row.status === 'completed' && !isCompensation(row));
+    const context: TemplateContext = { steps: {} };
+
+    for (const row of completed) {
+      if (!row.response) continue;
+      context.steps[row.step ?? row.id] = {
+        status: row.response.status,
+        headers: row.response.headers,
+        body: await loadResponseBody(row.response, this.blobStore),
+      };
+    }
+
+    const undo = completed
+      .filter((row) => row.compensation)
+      .sort((a, b) => (b.completed_at?.getTime() ?? 0) - (a.completed_at?.getTime() ?? 0));
+
+    for (const row of undo) {
+      const step = `${COMPENSATION_PREFIX}${row.step}`;
+      const request: QueueRequest = {
+        ...createRequest({
+          ...row.compensation!,
+          ...renderRequest(row.compensation!, context),
+          idempotencyKey: `workflow:${workflowId}:${step}`,
+        }),
+        workflowId,
+        step,
+      };
+
+      if (!(await this.store.saveRequest(request))) {
+        await this.backend.forQueue(request.queue).enqueue(request);
+      }
+    }
+  }
+}
@@ -27,10 +27,67 @@ export type {
   RateLimitConfig,
   CircuitBreakerConfig,
   CircuitBreakerState,
+  RecoveryConfig,
+  RecoveryOutcome,
+  ReconciliationReport,
+  RetentionConfig,
+  RetentionArchive,
+  RetentionReport,
+  FinishedStatus,
+  OutboxConfig,
+  TransactionClient,
+  ResponseStorageConfig,
+  ResponseStoragePolicy,
+  BlobStore,
+  DiagnosticsConfig,
+  AttemptDiagnostics,
+  AttemptTimings,
+  EncryptionConfig,
+  PartitionInterval,
+  PostgresPartitioningConfig,
+  PartitionMaintenanceReport,
+  WorkflowConfig,
+  BatchConfig,
+  ScheduleConfig,
+  OrderingConfig,
+  OrderingPolicy,
+  
+  // Workflow types
+  FailurePolicy,
+  WorkflowDefinition,
+  WorkflowStepInput,
+  WorkflowRequestInput,
+  WorkflowResult,
+  WorkflowState,
+  WorkflowStatus,
+  WorkflowStepState,
+  
+  // Batch types
+  EnqueueManyOptions,
+  BatchState,
+  
+  // Schedule types
+  Schedule,
+  ScheduleInput,
+  ScheduleUpdate,
+  ScheduleRequestInput,
+  OverlapPolicy,
+  
+  // Queue types
+  NamedQueueConfig,
+  QueueConfig,
+  QueueInfo,
   
   // Result types
   EnqueueResult,
+  BulkEnqueueResult,
+  BulkEnqueueItemResult,
+  BulkEnqueueItemStatus,
   QueueStats,
+  RequestSearchQuery,
+  RequestSearchPage,
+  RequestSortField,
+  TimeRange,
   
   // Event types
   QueueEvent,
@@ -39,7 +96,23 @@ export type {
   
   // Storage types
   StoredRequest,
+  StoredBatch,
+  NewBatch,
+  StoredSchedule,
   RequestAttempt,
+  StorageConfig,
+  QueueBackendType,
+  StateStoreType,
+  QueueBackend,
+  StateStore,
+  QueueChannel,
+  QueueSnapshot,
+  StoredCircuitBreakerState,
+  CircuitBreakerUpdate,
+  RequestStatusUpdate,
+  AttemptResult,
+  MigrationStatus,
+  RequestWithAttempts,
   
   // Utility types
   CustomRetryFn,
@@ -62,6 +135,30 @@ export { CircuitBreaker } from './backpressure/circuit-breaker';
 // Storage components (for direct access if needed)
 export { RedisStore } from './storage/redis';
 export { PostgresStore } from './storage/postgres';
+export { PostgresQueueBackend } from './storage/postgres-queue';
+export { SqliteStore } from './storage/sqlite';
+export { MemoryQueueBackend, MemoryStateStore } from './storage/memory';
+export { createQueueBackend, createStateStore } from './storage/factory';
+export { FilesystemBlobStore } from './storage/blob-store';
+
+// Encryption (for custom storage implementations)
+export { FieldEncryptor, isEncryptedField, type EncryptedField } from './core/encryption';
 
 // Configuration utilities
-export { mergeConfig, DEFAULT_RETRY_CONFIG, DEFAULT_BACKPRESSURE_CONFIG } from './config';
+export {
+  mergeConfig,
+  hashTaggedPrefix,
+  redisKeyPrefixes,
+  DEFAULT_RETRY_CONFIG,
+  DEFAULT_BACKPRESSURE_CONFIG,
+  DEFAULT_RECOVERY_CONFIG,
+  DEFAULT_RETENTION_CONFIG,
+  DEFAULT_OUTBOX_CONFIG,
+  DEFAULT_RESPONSE_STORAGE_CONFIG,
+  DEFAULT_DIAGNOSTICS_CONFIG,
+  DEFAULT_WORKFLOW_CONFIG,
+  DEFAULT_BATCH_CONFIG,
+  DEFAULT_SCHEDULE_CONFIG,
+  DEFAULT_ORDERING_CONFIG,
+  DEFAULT_QUEUE,
+} from './config';
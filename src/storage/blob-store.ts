@@ -0,0 +1,51 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve, sep } from 'node:path';
+import type { BlobStore } from '../types';
+
+// ============================================================================
+// Filesystem Blob Store
+// ============================================================================
+
+/**
+ * Keeps response bodies as files under a directory. References are paths
+ * relative to that directory, so the directory can be moved.
+ */
+export class FilesystemBlobStore implements BlobStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+  }
+
+  async put(key: string, data: Uint8Array): Promise<string> {
+    const path = this.resolve(key);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+
+    return key;
+  }
+
+  async get(reference: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await readFile(this.resolve(reference)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(reference: string): Promise<void> {
+    await rm(this.resolve(reference), { force: true });
+  }
+
+  private resolve(reference: string): string {
+    const path = resolve(join(this.directory, reference));
+
+    if (!path.startsWith(this.directory + sep)) {
+      throw new Error(`Invalid blob reference: ${reference}`);
+    }
+
+    return path;
+  }
+}
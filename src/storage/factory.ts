@@ -0,0 +1,62 @@
+import type { QueueManagerConfig, QueueBackend, StateStore, StorageConfig } from '../types';
+import { RedisStore } from './redis';
+import { PostgresStore } from './postgres';
+import { PostgresQueueBackend } from './postgres-queue';
+import { SqliteStore } from './sqlite';
+import { MemoryQueueBackend, MemoryStateStore } from './memory';
+
+// ============================================================================
+// Storage Factory
+// ============================================================================
+
+function resolveStorageConfig(config: QueueManagerConfig): StorageConfig {
+  if (config.storage === 'memory') {
+    return { queue: 'memory', state: 'memory' };
+  }
+  return config.storage ?? {};
+}
+
+/**
+ * Resolves the queue backend for a configuration, falling back to Redis.
+ */
+export function createQueueBackend(config: QueueManagerConfig): QueueBackend {
+  const { queue = 'redis', state = 'postgres' } = resolveStorageConfig(config);
+
+  if (queue === 'postgres' && state !== 'postgres') {
+    throw new Error("The 'postgres' queue backend requires the 'postgres' state store");
+  }
+
+  switch (queue) {
+    case 'redis':
+      return new RedisStore(config.redis, config.encryption);
+    case 'postgres':
+      return new PostgresQueueBackend(config.postgres, config.encryption);
+    case 'memory':
+      return new MemoryQueueBackend();
+    default:
+      return queue;
+  }
+}
+
+/**
+ * Resolves the durable state store for a configuration, falling back to PostgreSQL.
+ */
+export function createStateStore(config: QueueManagerConfig): StateStore {
+  const state = resolveStorageConfig(config).state ?? 'postgres';
+
+  // Only PostgresStore encrypts; don't let other stores keep plaintext silently
+  if (config.encryption && (state === 'sqlite' || state === 'memory')) {
+    throw new Error(`Encryption is not supported by the '${state}' state store`);
+  }
+
+  switch (state) {
+    case 'postgres':
+      return new PostgresStore(config.postgres, config.encryption);
+    case 'sqlite':
+      return new SqliteStore(config.sqlite);
+    case 'memory':
+      return new MemoryStateStore();
+    default:
+      return state;
+  }
+}
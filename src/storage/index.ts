@@ -1,2 +1,6 @@
 export { RedisStore } from './redis';
 export { PostgresStore } from './postgres';
+export { PostgresQueueBackend } from './postgres-queue';
+export { SqliteStore } from './sqlite';
+export { MemoryQueueBackend, MemoryStateStore } from './memory';
+export { createQueueBackend, createStateStore } from './factory';
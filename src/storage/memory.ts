@@ -0,0 +1,1199 @@
+import type {
+  QueueRequest,
+  QueueBackend,
+  QueueChannel,
+  QueueStats,
+  StateStore,
+  StoredRequest,
+  RequestAttempt,
+  RequestStatus,
+  RequestStatusUpdate,
+  AttemptResult,
+  StoredCircuitBreakerState,
+  CircuitBreakerUpdate,
+  QueueSnapshot,
+  FinishedStatus,
+  RequestWithAttempts,
+  RequestSearchQuery,
+  RequestSearchPage,
+  StoredBatch,
+  NewBatch,
+  StoredSchedule,
+} from '../types';
+import { DEFAULT_QUEUE, DEFAULT_RECOVERY_CONFIG } from '../config';
+import { getHostFromUrl, idempotencyExpiry, initialStatus } from '../core/request';
+import { resolveSearch, encodeCursor } from './search';
+
+// ============================================================================
+// Sorted Set
+// ============================================================================
+
+/**
+ * Minimal sorted set mirroring the Redis ZSET operations the queue relies on.
+ * Ties on score are broken by insertion order.
+ */
+class SortedSet {
+  private entries = new Map<string, { score: number; seq: number }>();
+  private seq = 0;
+
+  add(member: string, score: number): number {
+    const existing = this.entries.get(member);
+    this.entries.set(member, { score, seq: existing?.seq ?? this.seq++ });
+    return existing ? 0 : 1;
+  }
+
+  remove(member: string): boolean {
+    return this.entries.delete(member);
+  }
+
+  has(member: string): boolean {
+    return this.entries.has(member);
+  }
+
+  score(member: string): number | undefined {
+    return this.entries.get(member)?.score;
+  }
+
+  popMin(): string | undefined {
+    const [first] = this.sorted();
+    if (first !== undefined) {
+      this.entries.delete(first);
+    }
+    return first;
+  }
+
+  rangeByScore(min: number, max: number): string[] {
+    return this.sorted().filter((member) => {
+      const score = this.entries.get(member)!.score;
+      return score >= min && score <= max;
+    });
+  }
+
+  members(): string[] {
+    return this.sorted();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private sorted(): string[] {
+    return [...this.entries.entries()]
+      .sort(([, a], [, b]) => a.score - b.score || a.seq - b.seq)
+      .map(([member]) => member);
+  }
+}
+
+// ============================================================================
+// JSON Containment
+// ============================================================================
+
+/**
+ * Whether `value` contains `pattern`, following PostgreSQL's jsonb `@>`:
+ * objects match on a subset of keys, arrays on a subset of elements.
+ */
+function containsJson(value: unknown, pattern: unknown): boolean {
+  if (Array.isArray(pattern)) {
+    return (
+      Array.isArray(value) &&
+      pattern.every((item) => value.some((candidate) => containsJson(candidate, item)))
+    );
+  }
+
+  if (typeof pattern === 'object' && pattern !== null) {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      Object.entries(pattern).every(([key, item]) =>
+        containsJson((value as Record<string, unknown>)[key], item)
+      )
+    );
+  }
+
+  return value === pattern;
+}
+
+// ============================================================================
+// Memory Queue Backend
+// ============================================================================
+
+/**
+ * In-process implementation of QueueBackend with the same semantics as
+ * RedisStore. State lives for the lifetime of the instance only.
+ */
+export class MemoryQueueBackend implements QueueBackend {
+  private queue = new SortedSet();
+  private processing = new SortedSet();
+  private owners = new Map<string, string>();
+  private heartbeats = new Map<string, number>();
+  private scheduled = new SortedSet();
+  private deadLetter = new SortedSet();
+  private requests = new Map<string, QueueRequest>();
+  private buckets = new Map<string, { tokens: number; lastUpdate: number }>();
+  private circuitBreakers = new Map<string, StoredCircuitBreakerState>();
+  private locks = new Map<string, { lockId: string; expiresAt: number }>();
+  private handlers = new Map<QueueChannel, ((message: string) => void | Promise<void>)[]>();
+  private queues = new Map<string, MemoryQueueBackend>([[DEFAULT_QUEUE, this]]);
+
+  // ============================================================================
+  // Connection Management
+  // ============================================================================
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {
+    this.handlers.clear();
+  }
+
+  async ping(): Promise<boolean> {
+    return true;
+  }
+
+  // ============================================================================
+  // Named Queues
+  // ============================================================================
+
+  forQueue(name: string): QueueBackend {
+    let backend = this.queues.get(name);
+
+    if (!backend) {
+      // Shares heartbeats and locks; everything else is the queue's own
+      backend = Object.create(MemoryQueueBackend.prototype) as MemoryQueueBackend;
+      Object.assign(backend, this, {
+        queue: new SortedSet(),
+        processing: new SortedSet(),
+        owners: new Map(),
+        scheduled: new SortedSet(),
+        deadLetter: new SortedSet(),
+        requests: new Map(),
+        buckets: new Map(),
+        circuitBreakers: new Map(),
+        handlers: new Map(),
+      });
+      this.queues.set(name, backend);
+    }
+
+    return backend;
+  }
+
+  // ============================================================================
+  // Queue Operations
+  // ============================================================================
+
+  async enqueue(request: QueueRequest): Promise<number> {
+    this.requests.set(request.id, structuredClone(request));
+
+    // Delayed requests wait in the scheduled set until they are due
+    if (request.scheduledFor) {
+      const added = this.scheduled.add(request.id, request.scheduledFor.getTime());
+      this.publish(
+        'retry',
+        JSON.stringify({ requestId: request.id, retryAt: request.scheduledFor.toISOString() })
+      );
+      return added;
+    }
+
+    const position = this.queue.add(request.id, 100 - request.priority);
+    this.publish('new-request', request.id);
+    return position;
+  }
+
+  async enqueueMany(requests: QueueRequest[]): Promise<void> {
+    for (const request of requests) {
+      this.requests.set(request.id, structuredClone(request));
+
+      if (request.scheduledFor) {
+        this.scheduled.add(request.id, request.scheduledFor.getTime());
+      } else {
+        this.queue.add(request.id, 100 - request.priority);
+      }
+    }
+    this.publish('new-request', `batch:${requests.length}`);
+  }
+
+  async dequeue(
+    ownerId?: string,
+    leaseMs: number = DEFAULT_RECOVERY_CONFIG.leaseTimeout
+  ): Promise<QueueRequest | null> {
+    const requestId = this.queue.popMin();
+    if (!requestId) return null;
+
+    // Processing entries are scored by lease expiry
+    this.processing.add(requestId, Date.now() + leaseMs);
+    if (ownerId) {
+      this.owners.set(requestId, ownerId);
+    }
+    return this.getRequest(requestId);
+  }
+
+  async extendLease(requestId: string, ownerId: string, leaseMs: number): Promise<boolean> {
+    if (this.owners.get(requestId) !== ownerId || !this.processing.has(requestId)) {
+      return false;
+    }
+
+    this.processing.add(requestId, Date.now() + leaseMs);
+    return true;
+  }
+
+  async scheduleRetry(requestId: string, retryAt: Date, ownerId?: string): Promise<boolean> {
+    if (!this.releaseProcessing(requestId, ownerId)) return false;
+
+    this.scheduled.add(requestId, retryAt.getTime());
+    this.publish('retry', JSON.stringify({ requestId, retryAt: retryAt.toISOString() }));
+    return true;
+  }
+
+  async promoteScheduledRequests(): Promise<string[]> {
+    const dueRequests = this.scheduled.rangeByScore(-Infinity, Date.now());
+    if (dueRequests.length === 0) {
+      return [];
+    }
+
+    // Back into the queue at the request's original priority
+    for (const requestId of dueRequests) {
+      this.scheduled.remove(requestId);
+      this.queue.add(requestId, 100 - (this.requests.get(requestId)?.priority ?? 50));
+    }
+
+    this.publish('new-request', `promoted:${dueRequests.length}`);
+    return dueRequests;
+  }
+
+  async reschedule(requestId: string, scheduledFor: Date): Promise<boolean> {
+    if (!this.queue.remove(requestId) && !this.scheduled.has(requestId)) {
+      return false;
+    }
+
+    this.scheduled.add(requestId, scheduledFor.getTime());
+
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.scheduledFor = new Date(scheduledFor);
+    }
+
+    this.publish('retry', JSON.stringify({ requestId, retryAt: scheduledFor.toISOString() }));
+    return true;
+  }
+
+  async markComplete(requestId: string, ownerId?: string): Promise<boolean> {
+    return this.releaseProcessing(requestId, ownerId);
+  }
+
+  async moveToDead(requestId: string, ownerId?: string): Promise<boolean> {
+    if (!this.releaseProcessing(requestId, ownerId)) return false;
+
+    this.deadLetter.add(requestId, Date.now());
+    return true;
+  }
+
+  private releaseProcessing(requestId: string, ownerId?: string): boolean {
+    if (ownerId && this.owners.get(requestId) !== ownerId) {
+      return false;
+    }
+
+    this.processing.remove(requestId);
+    this.owners.delete(requestId);
+    return true;
+  }
+
+  async cancel(requestId: string): Promise<boolean> {
+    const fromQueue = this.queue.remove(requestId);
+    const fromScheduled = this.scheduled.remove(requestId);
+    return fromQueue || fromScheduled;
+  }
+
+  // ============================================================================
+  // Request Data Operations
+  // ============================================================================
+
+  async getRequest(requestId: string): Promise<QueueRequest | null> {
+    const request = this.requests.get(requestId);
+    return request ? structuredClone(request) : null;
+  }
+
+  async updateRequest(request: QueueRequest): Promise<void> {
+    this.requests.set(request.id, structuredClone(request));
+  }
+
+  async deleteRequest(requestId: string): Promise<void> {
+    this.requests.delete(requestId);
+  }
+
+  // ============================================================================
+  // Queue Stats
+  // ============================================================================
+
+  async getQueueSize(): Promise<number> {
+    return this.queue.size;
+  }
+
+  async getProcessingCount(): Promise<number> {
+    return this.processing.size;
+  }
+
+  async getScheduledCount(): Promise<number> {
+    return this.scheduled.size;
+  }
+
+  async getDeadCount(): Promise<number> {
+    return this.deadLetter.size;
+  }
+
+  async getQueueSnapshot(): Promise<QueueSnapshot> {
+    return {
+      pending: this.queue.members(),
+      scheduled: this.scheduled.members(),
+      processing: this.processing.members(),
+    };
+  }
+
+  // ============================================================================
+  // Retention
+  // ============================================================================
+
+  async purgeOrphanedPayloads(
+    cursor: string,
+    count: number
+  ): Promise<{ cursor: string; purged: number }> {
+    const start = parseInt(cursor, 10);
+    const ids = [...this.requests.keys()];
+    let purged = 0;
+
+    for (const requestId of ids.slice(start, start + count)) {
+      if (this.queue.has(requestId) || this.scheduled.has(requestId) || this.processing.has(requestId)) {
+        continue;
+      }
+
+      this.requests.delete(requestId);
+      purged++;
+    }
+
+    // Deleted entries shift later ones back, so only advance past the kept ones
+    const next = start + count - purged;
+    return { cursor: next >= ids.length - purged ? '0' : String(next), purged };
+  }
+
+  // ============================================================================
+  // Crash Recovery
+  // ============================================================================
+
+  async heartbeat(instanceId: string, ttlMs: number): Promise<void> {
+    this.heartbeats.set(instanceId, Date.now() + ttlMs);
+  }
+
+  async getExpiredProcessing(): Promise<string[]> {
+    const now = Date.now();
+    const expired = this.processing.rangeByScore(-Infinity, now);
+    const orphaned = [...this.owners.entries()]
+      .filter(([, instanceId]) => (this.heartbeats.get(instanceId) ?? 0) <= now)
+      .map(([requestId]) => requestId);
+
+    return [...new Set([...expired, ...orphaned])];
+  }
+
+  // ============================================================================
+  // Rate Limiting (Token Bucket)
+  // ============================================================================
+
+  async checkRateLimit(
+    key: string,
+    tokensPerSecond: number,
+    burstSize: number
+  ): Promise<{ allowed: boolean; retryAfter?: number }> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: burstSize, lastUpdate: now };
+
+    // Refill tokens based on time elapsed
+    const elapsed = (now - bucket.lastUpdate) / 1000;
+    const tokens = Math.min(burstSize, bucket.tokens + elapsed * tokensPerSecond);
+
+    if (tokens >= 1) {
+      this.buckets.set(key, { tokens: tokens - 1, lastUpdate: now });
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      retryAfter: Math.ceil(((1 - tokens) / tokensPerSecond) * 1000),
+    };
+  }
+
+  // ============================================================================
+  // Circuit Breaker
+  // ============================================================================
+
+  async getCircuitBreakerState(host: string): Promise<StoredCircuitBreakerState> {
+    const state = this.circuitBreakers.get(host);
+    return state ? { ...state } : { state: 'closed', failures: 0, successes: 0 };
+  }
+
+  async updateCircuitBreaker(host: string, update: CircuitBreakerUpdate): Promise<void> {
+    const now = new Date();
+    const state = await this.getCircuitBreakerState(host);
+
+    if (update.resetCounters) {
+      state.failures = 0;
+      state.successes = 0;
+    }
+
+    if (update.incrementFailures) {
+      state.failures++;
+      state.lastFailure = now;
+    }
+
+    if (update.incrementSuccesses) {
+      state.successes++;
+    }
+
+    if (update.state) {
+      state.state = update.state;
+      state.stateChangedAt = now;
+    }
+
+    this.circuitBreakers.set(host, state);
+  }
+
+  // ============================================================================
+  // Pub/Sub for Push-based Workers
+  // ============================================================================
+
+  async subscribe(
+    channel: QueueChannel,
+    handler: (message: string) => void | Promise<void>
+  ): Promise<void> {
+    const handlers = this.handlers.get(channel) ?? [];
+    handlers.push(handler);
+    this.handlers.set(channel, handlers);
+  }
+
+  async unsubscribe(): Promise<void> {
+    this.handlers.clear();
+  }
+
+  private publish(channel: QueueChannel, message: string): void {
+    for (const handler of this.handlers.get(channel) ?? []) {
+      // Deliver asynchronously, like a Redis subscriber would
+      queueMicrotask(() => void handler(message));
+    }
+  }
+
+  // ============================================================================
+  // Distributed Locking
+  // ============================================================================
+
+  async acquireLock(
+    resource: string,
+    ttlMs: number
+  ): Promise<{ acquired: boolean; lockId?: string }> {
+    const existing = this.locks.get(resource);
+    if (existing && existing.expiresAt > Date.now()) {
+      return { acquired: false };
+    }
+
+    const lockId = crypto.randomUUID();
+    this.locks.set(resource, { lockId, expiresAt: Date.now() + ttlMs });
+    return { acquired: true, lockId };
+  }
+
+  async releaseLock(resource: string, lockId: string): Promise<boolean> {
+    const existing = this.locks.get(resource);
+    if (!existing || existing.lockId !== lockId) {
+      return false;
+    }
+
+    this.locks.delete(resource);
+    return true;
+  }
+}
+
+// ============================================================================
+// Memory State Store
+// ============================================================================
+
+const BATCH_COUNTED = ['completed', 'dead', 'cancelled'] as const;
+
+/**
+ * In-process implementation of StateStore with the same semantics as
+ * PostgresStore. State lives for the lifetime of the instance only.
+ */
+export class MemoryStateStore implements StateStore {
+  private requests = new Map<string, StoredRequest>();
+  private attempts: RequestAttempt[] = [];
+  private archived = new Map<string, RequestWithAttempts & { archived_at: Date }>();
+  private idempotencyKeys = new Map<string, { requestId: string; expiresAt: Date }>();
+  private batches = new Map<string, StoredBatch>();
+  private schedules = new Map<string, StoredSchedule>();
+
+  // ============================================================================
+  // Connection Management
+  // ============================================================================
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async ping(): Promise<boolean> {
+    return true;
+  }
+
+  async initializeSchema(): Promise<void> {}
+
+  // ============================================================================
+  // Request Operations
+  // ============================================================================
+
+  async saveRequest(request: QueueRequest): Promise<string | null> {
+    if (this.requests.has(request.id)) {
+      throw new Error(`Request ${request.id} already exists`);
+    }
+
+    if (request.idempotencyKey) {
+      const holder = this.idempotencyKeys.get(request.idempotencyKey);
+      if (holder && holder.expiresAt > new Date() && holder.requestId !== request.id) {
+        return holder.requestId;
+      }
+
+      this.idempotencyKeys.set(request.idempotencyKey, {
+        requestId: request.id,
+        expiresAt: idempotencyExpiry(request),
+      });
+    }
+
+    this.requests.set(request.id, {
+      id: request.id,
+      url: request.url,
+      method: request.method,
+      headers: request.headers ? structuredClone(request.headers) : null,
+      body: request.body !== undefined ? structuredClone(request.body) : null,
+      priority: request.priority,
+      max_retries: request.maxRetries ?? 3,
+      timeout: request.timeout ?? null,
+      status: initialStatus(request),
+      attempts: 0,
+      scheduled_for: request.scheduledFor ?? null,
+      last_attempt_at: null,
+      next_retry_at: null,
+      error: null,
+      response: null,
+      metadata: request.metadata ? structuredClone(request.metadata) : null,
+      response_storage: request.responseStorage ?? null,
+      depends_on: request.dependsOn ? [...request.dependsOn] : null,
+      on_failure: request.onFailure ?? null,
+      workflow_id: request.workflowId ?? null,
+      step: request.step ?? null,
+      compensation: request.compensation ? structuredClone(request.compensation) : null,
+      batch_id: request.batchId ?? null,
+      queue: request.queue,
+      ordering_key: request.orderingKey ?? null,
+      ordering_policy: request.orderingPolicy ?? null,
+      created_at: request.createdAt,
+      updated_at: new Date(),
+      completed_at: null,
+    });
+    this.countBatchMember(this.requests.get(request.id)!);
+
+    return null;
+  }
+
+  async saveRequestBatch(requests: QueueRequest[], batch?: NewBatch): Promise<(string | null)[]> {
+    const duplicate = requests.find((request) => this.requests.has(request.id));
+    if (duplicate) {
+      throw new Error(`Request ${duplicate.id} already exists`);
+    }
+
+    if (batch) {
+      const now = new Date();
+      this.batches.set(batch.id, {
+        id: batch.id,
+        total: 0,
+        completed: 0,
+        dead: 0,
+        cancelled: 0,
+        metadata: batch.metadata ? structuredClone(batch.metadata) : null,
+        created_at: now,
+        updated_at: now,
+        completed_at: null,
+      });
+    }
+
+    const duplicates: (string | null)[] = [];
+    for (const request of requests) {
+      duplicates.push(await this.saveRequest(request));
+    }
+    return duplicates;
+  }
+
+  async getRequest(requestId: string): Promise<StoredRequest | null> {
+    const stored = this.requests.get(requestId);
+    return stored ? structuredClone(stored) : null;
+  }
+
+  async updateRequestStatus(
+    requestId: string,
+    status: RequestStatus,
+    additionalData?: RequestStatusUpdate
+  ): Promise<void> {
+    const stored = this.requests.get(requestId);
+    if (!stored) return;
+
+    const previous = stored.status;
+    stored.status = status;
+    this.countBatchMember(stored, previous);
+
+    if (additionalData?.attempts !== undefined) {
+      stored.attempts = additionalData.attempts;
+    }
+
+    if (additionalData?.lastAttemptAt) {
+      stored.last_attempt_at = additionalData.lastAttemptAt;
+    }
+
+    if (additionalData?.nextRetryAt) {
+      stored.next_retry_at = additionalData.nextRetryAt;
+    }
+
+    if (additionalData?.error !== undefined) {
+      stored.error = additionalData.error;
+    }
+
+    if (additionalData?.response) {
+      stored.response = structuredClone(additionalData.response);
+    }
+
+    if (additionalData?.completedAt) {
+      stored.completed_at = additionalData.completedAt;
+    }
+
+    stored.updated_at = new Date();
+  }
+
+  async deleteRequest(requestId: string): Promise<void> {
+    this.deleteWhere((request) => request.id === requestId);
+  }
+
+  async promoteScheduled(requestIds: string[]): Promise<void> {
+    for (const requestId of requestIds) {
+      const stored = this.requests.get(requestId);
+      if (stored?.status !== 'scheduled') continue;
+
+      stored.status = 'pending';
+      stored.updated_at = new Date();
+    }
+  }
+
+  async rescheduleRequest(requestId: string, scheduledFor: Date): Promise<boolean> {
+    const stored = this.requests.get(requestId);
+    if (!stored || !['pending', 'scheduled'].includes(stored.status)) return false;
+
+    stored.status = 'scheduled';
+    stored.scheduled_for = new Date(scheduledFor);
+    stored.next_retry_at = null;
+    stored.updated_at = new Date();
+    return true;
+  }
+
+  // ============================================================================
+  // Attempt Logging
+  // ============================================================================
+
+  async logAttempt(
+    requestId: string,
+    attemptNumber: number,
+    result: AttemptResult
+  ): Promise<void> {
+    this.attempts.push({
+      id: crypto.randomUUID(),
+      request_id: requestId,
+      attempt_number: attemptNumber,
+      status_code: result.statusCode ?? null,
+      duration_ms: result.durationMs ?? null,
+      error: result.error ?? null,
+      response_headers: result.responseHeaders ?? null,
+      diagnostics: result.diagnostics ? structuredClone(result.diagnostics) : null,
+      created_at: new Date(),
+    });
+  }
+
+  async getAttempts(requestId: string): Promise<RequestAttempt[]> {
+    return this.attempts
+      .filter((attempt) => attempt.request_id === requestId)
+      .sort((a, b) => a.attempt_number - b.attempt_number)
+      .map((attempt) => structuredClone(attempt));
+  }
+
+  // ============================================================================
+  // Query Operations
+  // ============================================================================
+
+  async getRequestsByStatus(
+    status?: RequestStatus,
+    limit = 100,
+    offset = 0,
+    host?: string
+  ): Promise<StoredRequest[]> {
+    return [...this.requests.values()]
+      .filter((request) => !status || request.status === status)
+      .filter((request) => !host || request.url.includes(host))
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
+      .slice(offset, offset + limit)
+      .map((request) => structuredClone(request));
+  }
+
+  async getDeadLetterRequests(limit = 100): Promise<StoredRequest[]> {
+    return this.getRequestsByStatus('dead', limit);
+  }
+
+  async searchRequests(query: RequestSearchQuery): Promise<RequestSearchPage<StoredRequest>> {
+    const search = resolveSearch(query);
+    const field = search.sort === 'updatedAt' ? 'updated_at' : 'created_at';
+    const direction = search.order === 'asc' ? 1 : -1;
+    const inRange = (date: Date, range?: { from?: Date; to?: Date }) =>
+      (!range?.from || date >= range.from) && (!range?.to || date < range.to);
+
+    // Compares a request's position in the sort order with the cursor's
+    const compare = (request: StoredRequest, value: number, id: string) =>
+      (request[field].getTime() - value || (request.id < id ? -1 : request.id > id ? 1 : 0)) * direction;
+
+    const matches = [...this.requests.values()]
+      .filter((request) =>
+        (!search.status || search.status.includes(request.status)) &&
+        (!search.method || search.method.includes(request.method)) &&
+        (!search.queue || search.queue.includes(request.queue)) &&
+        (!search.host || getHostFromUrl(request.url) === search.host.toLowerCase()) &&
+        (!search.metadata || containsJson(request.metadata, search.metadata)) &&
+        inRange(request.created_at, search.created) &&
+        inRange(request.updated_at, search.updated) &&
+        request.attempts >= (search.attempts?.min ?? 0) &&
+        request.attempts <= (search.attempts?.max ?? Infinity) &&
+        (!search.error || !!request.error?.toLowerCase().includes(search.error.toLowerCase())) &&
+        (!search.after || compare(request, Number(search.after.value), search.after.id) > 0)
+      )
+      .sort((a, b) => compare(a, b[field].getTime(), b.id));
+
+    const page = matches.slice(0, search.limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((request) => structuredClone(request)),
+      nextCursor:
+        matches.length > search.limit && last
+          ? encodeCursor(search, { value: last[field].getTime(), id: last.id })
+          : null,
+    };
+  }
+
+  async getScheduledRequests(limit = 100, offset = 0): Promise<StoredRequest[]> {
+    return [...this.requests.values()]
+      .filter((request) => request.status === 'scheduled')
+      .sort((a, b) => (a.scheduled_for?.getTime() ?? 0) - (b.scheduled_for?.getTime() ?? 0))
+      .slice(offset, offset + limit)
+      .map((request) => structuredClone(request));
+  }
+
+  async getActiveRequests(afterId?: string, limit = 500): Promise<StoredRequest[]> {
+    return [...this.requests.values()]
+      .filter((request) => ['pending', 'scheduled', 'processing'].includes(request.status))
+      .filter((request) => !afterId || request.id > afterId)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit)
+      .map((request) => structuredClone(request));
+  }
+
+  async retryDeadRequest(requestId: string): Promise<boolean> {
+    const stored = this.requests.get(requestId);
+    if (!stored || stored.status !== 'dead') return false;
+
+    stored.status = stored.ordering_key ? 'waiting' : 'pending';
+    this.countBatchMember(stored, 'dead');
+    stored.attempts = 0;
+    stored.error = null;
+    stored.next_retry_at = null;
+    stored.updated_at = new Date();
+    return true;
+  }
+
+  // ============================================================================
+  // Statistics
+  // ============================================================================
+
+  async getStats(queue?: string): Promise<QueueStats> {
+    const counts: Record<RequestStatus, number> = {
+      waiting: 0,
+      pending: 0,
+      scheduled: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      dead: 0,
+      cancelled: 0,
+    };
+
+    for (const request of this.requests.values()) {
+      if (queue === undefined || request.queue === queue) counts[request.status]++;
+    }
+
+    const durations = this.attempts
+      .filter((attempt) => attempt.status_code !== null && attempt.duration_ms !== null)
+      .filter((attempt) => queue === undefined || this.requests.get(attempt.request_id)?.queue === queue)
+      .map((attempt) => attempt.duration_ms as number);
+
+    const total = counts.completed + counts.failed + counts.dead;
+    const successRate = total > 0 ? counts.completed / total : 0;
+
+    return {
+      waiting: counts.waiting,
+      pending: counts.pending + counts.scheduled,
+      processing: counts.processing,
+      completed: counts.completed,
+      failed: counts.failed,
+      dead: counts.dead,
+      avgProcessingTime:
+        durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : 0,
+      successRate,
+    };
+  }
+
+  // ============================================================================
+  // Cleanup Operations
+  // ============================================================================
+
+  async cleanupCompleted(olderThanDays: number): Promise<number> {
+    const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+    return this.deleteWhere(
+      (request) =>
+        request.status === 'completed' &&
+        request.completed_at !== null &&
+        request.completed_at.getTime() < cutoff
+    );
+  }
+
+  async cleanupDead(olderThanDays: number): Promise<number> {
+    const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+    return this.deleteWhere(
+      (request) => request.status === 'dead' && request.updated_at.getTime() < cutoff
+    );
+  }
+
+  async getExpiredRequests(
+    status: FinishedStatus,
+    olderThan: Date,
+    limit: number
+  ): Promise<RequestWithAttempts[]> {
+    const expired = [...this.requests.values()]
+      .filter(
+        (request) =>
+          request.status === status &&
+          (request.completed_at ?? request.updated_at).getTime() < olderThan.getTime()
+      )
+      .sort((a, b) => a.updated_at.getTime() - b.updated_at.getTime())
+      .slice(0, limit);
+
+    return Promise.all(
+      expired.map(async (request) => ({
+        ...structuredClone(request),
+        attempt_log: await this.getAttempts(request.id),
+      }))
+    );
+  }
+
+  async deleteRequests(requestIds: string[], archive = false): Promise<number> {
+    const ids = new Set(requestIds);
+
+    if (archive) {
+      for (const request of this.requests.values()) {
+        if (!ids.has(request.id) || this.archived.has(request.id)) continue;
+
+        this.archived.set(request.id, {
+          ...structuredClone(request),
+          attempt_log: await this.getAttempts(request.id),
+          archived_at: new Date(),
+        });
+      }
+    }
+
+    return this.deleteWhere((request) => ids.has(request.id));
+  }
+
+  async purgeIdempotencyKeys(): Promise<number> {
+    const now = new Date();
+    let purged = 0;
+
+    for (const [key, holder] of this.idempotencyKeys) {
+      if (holder.expiresAt <= now) {
+        this.idempotencyKeys.delete(key);
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+
+  // ============================================================================
+  // Dependencies
+  // ============================================================================
+
+  async getDependents(requestId: string): Promise<StoredRequest[]> {
+    return [...this.requests.values()]
+      .filter((request) => request.status === 'waiting' && !!request.depends_on?.includes(requestId))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map((request) => structuredClone(request));
+  }
+
+  async getWaitingRequests(afterId?: string, limit = 500): Promise<StoredRequest[]> {
+    return [...this.requests.values()]
+      .filter(
+        (request) =>
+          request.status === 'waiting' && !request.ordering_key && (!afterId || request.id > afterId)
+      )
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit)
+      .map((request) => structuredClone(request));
+  }
+
+  async getWorkflowRequests(workflowId: string): Promise<StoredRequest[]> {
+    return [...this.requests.values()]
+      .filter((request) => request.workflow_id === workflowId)
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime() || (a.id < b.id ? -1 : 1))
+      .map((request) => structuredClone(request));
+  }
+
+  async releaseRequest(
+    requestId: string,
+    rendered: Pick<QueueRequest, 'url' | 'headers' | 'body'>
+  ): Promise<boolean> {
+    const stored = this.requests.get(requestId);
+    if (stored?.status !== 'waiting') return false;
+
+    stored.status = stored.scheduled_for && stored.scheduled_for > new Date() ? 'scheduled' : 'pending';
+    stored.url = rendered.url;
+    stored.headers = rendered.headers ? structuredClone(rendered.headers) : null;
+    stored.body = rendered.body !== undefined ? structuredClone(rendered.body) : null;
+    stored.updated_at = new Date();
+    return true;
+  }
+
+  async cancelWaiting(requestId: string, error?: string): Promise<boolean> {
+    const stored = this.requests.get(requestId);
+    if (stored?.status !== 'waiting') return false;
+
+    stored.status = 'cancelled';
+    this.countBatchMember(stored, 'waiting');
+    if (error !== undefined) stored.error = error;
+    stored.updated_at = new Date();
+    return true;
+  }
+
+  // ============================================================================
+  // Ordering
+  // ============================================================================
+
+  async releaseOrderingHead(orderingKey: string): Promise<StoredRequest | null> {
+    const rows = [...this.requests.values()].filter((request) => request.ordering_key === orderingKey);
+    const busy = rows.some(
+      (request) =>
+        ['pending', 'scheduled', 'processing'].includes(request.status) ||
+        (request.status === 'dead' && request.ordering_policy === 'block')
+    );
+    if (busy) return null;
+
+    // Rows are kept in insertion order
+    const head = rows.find((request) => request.status === 'waiting');
+    if (!head) return null;
+
+    head.status = head.scheduled_for && head.scheduled_for > new Date() ? 'scheduled' : 'pending';
+    head.updated_at = new Date();
+    return structuredClone(head);
+  }
+
+  async getHeldOrderingKeys(afterKey?: string, limit = 500): Promise<string[]> {
+    const keys = new Set<string>();
+    for (const request of this.requests.values()) {
+      if (request.status === 'waiting' && request.ordering_key) keys.add(request.ordering_key);
+    }
+
+    return [...keys]
+      .filter((key) => !afterKey || key > afterKey)
+      .sort()
+      .slice(0, limit);
+  }
+
+  async unblockOrderingKey(orderingKey: string): Promise<number> {
+    let unblocked = 0;
+
+    for (const request of this.requests.values()) {
+      if (
+        request.ordering_key === orderingKey &&
+        request.status === 'dead' &&
+        request.ordering_policy === 'block'
+      ) {
+        request.ordering_policy = 'skip';
+        request.updated_at = new Date();
+        unblocked++;
+      }
+    }
+
+    return unblocked;
+  }
+
+  // ============================================================================
+  // Batches
+  // ============================================================================
+
+  async getBatch(batchId: string): Promise<StoredBatch | null> {
+    const batch = this.batches.get(batchId);
+    return batch ? structuredClone(batch) : null;
+  }
+
+  async getBatchRequests(batchId: string, afterId?: string, limit = 500): Promise<StoredRequest[]> {
+    return [...this.requests.values()]
+      .filter(
+        (request) =>
+          request.batch_id === batchId &&
+          !(BATCH_COUNTED as readonly RequestStatus[]).includes(request.status) &&
+          (!afterId || request.id > afterId)
+      )
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit)
+      .map((request) => structuredClone(request));
+  }
+
+  async completeBatch(batchId: string): Promise<StoredBatch | null> {
+    const batch = this.batches.get(batchId);
+    if (!batch || !isCompletable(batch)) return null;
+
+    batch.completed_at = new Date();
+    return structuredClone(batch);
+  }
+
+  async completeFinishedBatches(limit: number): Promise<StoredBatch[]> {
+    const now = new Date();
+
+    return [...this.batches.values()]
+      .filter(isCompletable)
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime())
+      .slice(0, limit)
+      .map((batch) => {
+        batch.completed_at = now;
+        return structuredClone(batch);
+      });
+  }
+
+  async reopenBatch(batchId: string): Promise<void> {
+    const batch = this.batches.get(batchId);
+    if (batch) batch.completed_at = null;
+  }
+
+  /**
+   * Keeps a member's batch counts in step with its status, as the triggers
+   * of the SQL stores do. `previous` is unset when the row is new.
+   */
+  private countBatchMember(stored: StoredRequest, previous?: RequestStatus): void {
+    const batch = stored.batch_id ? this.batches.get(stored.batch_id) : undefined;
+    if (!batch || previous === stored.status) return;
+
+    if (previous === undefined) batch.total++;
+    for (const status of BATCH_COUNTED) {
+      batch[status] += Number(stored.status === status) - Number(previous === status);
+    }
+    batch.updated_at = new Date();
+  }
+
+  // ============================================================================
+  // Schedules
+  // ============================================================================
+
+  async saveSchedule(schedule: StoredSchedule): Promise<void> {
+    if (this.schedules.has(schedule.id)) {
+      throw new Error(`Schedule ${schedule.id} already exists`);
+    }
+
+    this.schedules.set(schedule.id, structuredClone(schedule));
+  }
+
+  async getSchedule(scheduleId: string): Promise<StoredSchedule | null> {
+    const schedule = this.schedules.get(scheduleId);
+    return schedule ? structuredClone(schedule) : null;
+  }
+
+  async listSchedules(): Promise<StoredSchedule[]> {
+    return [...this.schedules.values()]
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime() || (a.id < b.id ? -1 : 1))
+      .map((schedule) => structuredClone(schedule));
+  }
+
+  async updateSchedule(schedule: StoredSchedule): Promise<boolean> {
+    const stored = this.schedules.get(schedule.id);
+    if (!stored) return false;
+
+    this.schedules.set(schedule.id, {
+      ...structuredClone(schedule),
+      last_run_at: stored.last_run_at,
+      last_request_id: stored.last_request_id,
+      created_at: stored.created_at,
+      updated_at: new Date(),
+    });
+    return true;
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    return this.schedules.delete(scheduleId);
+  }
+
+  async getDueSchedules(now: Date, limit: number): Promise<StoredSchedule[]> {
+    return [...this.schedules.values()]
+      .filter((schedule) => !schedule.paused && schedule.next_run_at <= now)
+      .sort((a, b) => a.next_run_at.getTime() - b.next_run_at.getTime())
+      .slice(0, limit)
+      .map((schedule) => structuredClone(schedule));
+  }
+
+  async advanceSchedule(
+    scheduleId: string,
+    runAt: Date,
+    nextRunAt: Date,
+    requestId: string | null
+  ): Promise<boolean> {
+    const stored = this.schedules.get(scheduleId);
+    if (!stored || stored.paused || stored.next_run_at.getTime() !== runAt.getTime()) return false;
+
+    stored.next_run_at = new Date(nextRunAt);
+    stored.last_run_at = new Date(runAt);
+    stored.last_request_id = requestId ?? stored.last_request_id;
+    stored.updated_at = new Date();
+    return true;
+  }
+
+  /**
+   * Rows copied aside by `deleteRequests(ids, true)`.
+   */
+  getArchived(): (RequestWithAttempts & { archived_at: Date })[] {
+    return [...this.archived.values()].map((request) => structuredClone(request));
+  }
+
+  private deleteWhere(predicate: (request: StoredRequest) => boolean): number {
+    let deleted = 0;
+
+    for (const request of [...this.requests.values()]) {
+      if (predicate(request)) {
+        this.requests.delete(request.id);
+        this.attempts = this.attempts.filter((attempt) => attempt.request_id !== request.id);
+        deleted++;
+      }
+    }
+
+    // A deleted request no longer holds its idempotency key
+    for (const [key, holder] of this.idempotencyKeys) {
+      if (!this.requests.has(holder.requestId)) this.idempotencyKeys.delete(key);
+    }
+
+    return deleted;
+  }
+}
+
+/**
+ * Whether every member of the batch has finished and it isn't marked complete yet.
+ */
+function isCompletable(batch: StoredBatch): boolean {
+  return batch.completed_at === null && batch.completed + batch.dead + batch.cancelled >= batch.total;
+}
@@ -0,0 +1,494 @@
+import type { Pool } from 'pg';
+import type { MigrationStatus } from '../types';
+import { resolvePostgresTables, type PostgresTables } from './postgres-tables';
+
+// ============================================================================
+// Migration Definitions
+// ============================================================================
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (t: PostgresTables) => string;
+}
+
+// Partitioned tables key on (id, created_at) and drop the attempts foreign
+// key, which cannot reference a partitioned table by id alone
+const partitionedBy = (t: PostgresTables) =>
+  t.partitioned ? ',\n        PRIMARY KEY (id, created_at)' : '';
+const partitionKey = (t: PostgresTables) =>
+  t.partitioned ? ' PARTITION BY RANGE (created_at)' : '';
+
+/**
+ * Host (with port) of a request URL, as searched by host. Shared by the
+ * index and the query so the index applies.
+ */
+export const URL_HOST_SQL = `lower(substring(url from '^[^:/]+://(?:[^/?#@]*@)?([^/?#]+)'))`;
+
+/**
+ * Ordered schema migrations for PostgreSQL. Applied migrations must never be
+ * edited: append a new step instead. The first step keeps `IF NOT EXISTS`
+ * so databases created before migrations existed are adopted in place.
+ * Steps are rendered against the configured table names before running.
+ */
+export const POSTGRES_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (t) => `
+      CREATE TABLE IF NOT EXISTS ${t.requests} (
+        id UUID ${t.partitioned ? 'NOT NULL' : 'PRIMARY KEY'},
+        url TEXT NOT NULL,
+        method VARCHAR(10) NOT NULL,
+        headers JSONB,
+        body JSONB,
+        priority INT DEFAULT 50,
+        max_retries INT DEFAULT 3,
+        timeout INT,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INT DEFAULT 0,
+        scheduled_for TIMESTAMPTZ,
+        last_attempt_at TIMESTAMPTZ,
+        next_retry_at TIMESTAMPTZ,
+        error TEXT,
+        response JSONB,
+        metadata JSONB,
+        created_at TIMESTAMPTZ ${t.partitioned ? 'NOT NULL ' : ''}DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        completed_at TIMESTAMPTZ${partitionedBy(t)}
+      )${partitionKey(t)};
+
+      CREATE TABLE IF NOT EXISTS ${t.attempts} (
+        id UUID ${t.partitioned ? 'NOT NULL' : 'PRIMARY KEY'} DEFAULT gen_random_uuid(),
+        request_id UUID ${t.partitioned ? 'NOT NULL' : `REFERENCES ${t.requests}(id) ON DELETE CASCADE`},
+        attempt_number INT NOT NULL,
+        status_code INT,
+        duration_ms INT,
+        error TEXT,
+        response_headers JSONB,
+        created_at TIMESTAMPTZ ${t.partitioned ? 'NOT NULL ' : ''}DEFAULT NOW()${partitionedBy(t)}
+      )${partitionKey(t)};
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_status ON ${t.requests}(status);
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_scheduled ON ${t.requests}(scheduled_for)
+        WHERE status = 'pending' OR status = 'scheduled';
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_created ON ${t.requests}(created_at);
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}attempts_request ON ${t.attempts}(request_id);
+
+      CREATE OR REPLACE FUNCTION ${t.updatedAtFunction}()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        NEW.updated_at = NOW();
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS trigger_${t.prefix}requests_updated_at ON ${t.requests};
+      CREATE TRIGGER trigger_${t.prefix}requests_updated_at
+        BEFORE UPDATE ON ${t.requests}
+        FOR EACH ROW
+        EXECUTE FUNCTION ${t.updatedAtFunction}();
+    `,
+  },
+  {
+    version: 2,
+    name: 'dequeue_index',
+    up: (t) => `
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_dequeue ON ${t.requests}(priority DESC, created_at)
+        WHERE status = 'pending';
+    `,
+  },
+  {
+    version: 3,
+    name: 'queue_backend_tables',
+    up: (t) => `
+      CREATE TABLE IF NOT EXISTS ${t.rateLimits} (
+        key TEXT PRIMARY KEY,
+        tokens DOUBLE PRECISION NOT NULL,
+        last_update BIGINT NOT NULL,
+        allowed BOOLEAN NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS ${t.circuitBreakers} (
+        host TEXT PRIMARY KEY,
+        state VARCHAR(20) NOT NULL DEFAULT 'closed',
+        failures INT NOT NULL DEFAULT 0,
+        successes INT NOT NULL DEFAULT 0,
+        last_failure TIMESTAMPTZ,
+        state_changed_at TIMESTAMPTZ
+      );
+
+      CREATE TABLE IF NOT EXISTS ${t.locks} (
+        resource TEXT PRIMARY KEY,
+        lock_id UUID NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL
+      );
+    `,
+  },
+  {
+    version: 4,
+    name: 'processing_leases',
+    up: (t) => `
+      ALTER TABLE ${t.requests}
+        ADD COLUMN IF NOT EXISTS locked_by TEXT,
+        ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_processing ON ${t.requests}(locked_at)
+        WHERE status = 'processing';
+
+      CREATE TABLE IF NOT EXISTS ${t.instances} (
+        instance_id TEXT PRIMARY KEY,
+        expires_at TIMESTAMPTZ NOT NULL
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: 'processing_lease_expiry',
+    up: (t) => `
+      ALTER TABLE ${t.requests}
+        ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+      DROP INDEX IF EXISTS ${t.schema ? `${t.schema}.` : ''}idx_${t.prefix}requests_processing;
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_lease ON ${t.requests}(lease_expires_at)
+        WHERE status = 'processing';
+    `,
+  },
+  {
+    version: 6,
+    name: 'requests_archive',
+    up: (t) => `
+      CREATE TABLE IF NOT EXISTS ${t.archive} (
+        id UUID PRIMARY KEY,
+        status VARCHAR(20) NOT NULL,
+        request JSONB NOT NULL,
+        attempts JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMPTZ NOT NULL,
+        finished_at TIMESTAMPTZ,
+        archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}archive_archived ON ${t.archive}(archived_at);
+    `,
+  },
+  {
+    version: 7,
+    name: 'response_storage_policy',
+    up: (t) => `
+      ALTER TABLE ${t.requests}
+        ADD COLUMN IF NOT EXISTS response_storage VARCHAR(10);
+    `,
+  },
+  {
+    version: 8,
+    name: 'attempt_diagnostics',
+    up: (t) => `
+      ALTER TABLE ${t.attempts}
+        ADD COLUMN IF NOT EXISTS diagnostics JSONB;
+    `,
+  },
+  {
+    version: 9,
+    name: 'request_outbox',
+    up: (t) => `
+      CREATE TABLE IF NOT EXISTS ${t.outbox} (
+        request_id UUID PRIMARY KEY,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}outbox_created ON ${t.outbox}(created_at);
+    `,
+  },
+  {
+    version: 10,
+    name: 'request_search_indexes',
+    up: (t) => `
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_created_id ON ${t.requests}(created_at, id);
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_updated_id ON ${t.requests}(updated_at, id);
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_status_created ON ${t.requests}(status, created_at, id);
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_status_updated ON ${t.requests}(status, updated_at, id);
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_host ON ${t.requests}((${URL_HOST_SQL}), created_at);
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_metadata ON ${t.requests} USING GIN (metadata jsonb_path_ops);
+    `,
+  },
+  {
+    version: 11,
+    name: 'idempotency_keys',
+    up: (t) => `
+      CREATE TABLE IF NOT EXISTS ${t.idempotencyKeys} (
+        key VARCHAR(255) PRIMARY KEY,
+        request_id UUID NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}idempotency_request ON ${t.idempotencyKeys}(request_id);
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}idempotency_expires ON ${t.idempotencyKeys}(expires_at);
+    `,
+  },
+  {
+    version: 12,
+    name: 'request_dependencies',
+    up: (t) => `
+      ALTER TABLE ${t.requests}
+        ADD COLUMN IF NOT EXISTS depends_on JSONB,
+        ADD COLUMN IF NOT EXISTS on_failure VARCHAR(10),
+        ADD COLUMN IF NOT EXISTS workflow_id UUID,
+        ADD COLUMN IF NOT EXISTS step VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS compensation JSONB;
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_waiting ON ${t.requests}(id)
+        WHERE status = 'waiting';
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_depends_on ON ${t.requests}
+        USING GIN (depends_on jsonb_path_ops) WHERE status = 'waiting';
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_workflow ON ${t.requests}(workflow_id, created_at)
+        WHERE workflow_id IS NOT NULL;
+    `,
+  },
+  {
+    version: 13,
+    name: 'request_batches',
+    up: (t) => `
+      CREATE TABLE IF NOT EXISTS ${t.batches} (
+        id UUID PRIMARY KEY,
+        total INT NOT NULL DEFAULT 0,
+        completed INT NOT NULL DEFAULT 0,
+        dead INT NOT NULL DEFAULT 0,
+        cancelled INT NOT NULL DEFAULT 0,
+        metadata JSONB,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        completed_at TIMESTAMPTZ
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}batches_open ON ${t.batches}(created_at)
+        WHERE completed_at IS NULL;
+
+      ALTER TABLE ${t.requests} ADD COLUMN IF NOT EXISTS batch_id UUID;
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_batch ON ${t.requests}(batch_id, id)
+        WHERE batch_id IS NOT NULL;
+
+      CREATE OR REPLACE FUNCTION ${t.batchCountsFunction}()
+      RETURNS TRIGGER AS $$
+      DECLARE
+        previous TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END;
+      BEGIN
+        UPDATE ${t.batches}
+        SET total = total + (TG_OP = 'INSERT')::int,
+            completed = completed + (NEW.status = 'completed')::int
+              - COALESCE(previous = 'completed', false)::int,
+            dead = dead + (NEW.status = 'dead')::int - COALESCE(previous = 'dead', false)::int,
+            cancelled = cancelled + (NEW.status = 'cancelled')::int
+              - COALESCE(previous = 'cancelled', false)::int,
+            updated_at = NOW()
+        WHERE id = NEW.batch_id;
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS trigger_${t.prefix}requests_batch_insert ON ${t.requests};
+      CREATE TRIGGER trigger_${t.prefix}requests_batch_insert
+        AFTER INSERT ON ${t.requests}
+        FOR EACH ROW
+        WHEN (NEW.batch_id IS NOT NULL)
+        EXECUTE FUNCTION ${t.batchCountsFunction}();
+
+      DROP TRIGGER IF EXISTS trigger_${t.prefix}requests_batch_status ON ${t.requests};
+      CREATE TRIGGER trigger_${t.prefix}requests_batch_status
+        AFTER UPDATE OF status ON ${t.requests}
+        FOR EACH ROW
+        WHEN (
+          NEW.batch_id IS NOT NULL AND OLD.status IS DISTINCT FROM NEW.status
+          AND (NEW.status IN ('completed', 'dead', 'cancelled')
+            OR OLD.status IN ('completed', 'dead', 'cancelled'))
+        )
+        EXECUTE FUNCTION ${t.batchCountsFunction}();
+    `,
+  },
+  {
+    version: 14,
+    name: 'request_schedules',
+    up: (t) => `
+      CREATE TABLE IF NOT EXISTS ${t.schedules} (
+        id UUID PRIMARY KEY,
+        name VARCHAR(255),
+        cron VARCHAR(255) NOT NULL,
+        timezone VARCHAR(64) NOT NULL,
+        request JSONB NOT NULL,
+        headers JSONB,
+        body JSONB,
+        overlap VARCHAR(10) NOT NULL,
+        paused BOOLEAN NOT NULL DEFAULT false,
+        next_run_at TIMESTAMPTZ NOT NULL,
+        last_run_at TIMESTAMPTZ,
+        last_request_id UUID,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}schedules_due ON ${t.schedules}(next_run_at)
+        WHERE NOT paused;
+    `,
+  },
+  {
+    version: 15,
+    name: 'named_queues',
+    up: (t) => `
+      ALTER TABLE ${t.requests} ADD COLUMN IF NOT EXISTS queue VARCHAR(32) NOT NULL DEFAULT 'default';
+
+      DROP INDEX IF EXISTS ${t.schema ? `${t.schema}.` : ''}idx_${t.prefix}requests_dequeue;
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_dequeue ON ${t.requests}(queue, priority DESC, created_at)
+        WHERE status = 'pending';
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_queue_status ON ${t.requests}(queue, status);
+    `,
+  },
+  // ordering_seq is the insertion order of a key's requests. Its default is
+  // set after the column is added, so existing rows keep NULL and the table
+  // isn't rewritten
+  {
+    version: 16,
+    name: 'ordering_keys',
+    up: (t) => `
+      ALTER TABLE ${t.requests} ADD COLUMN IF NOT EXISTS ordering_key VARCHAR(255);
+      ALTER TABLE ${t.requests} ADD COLUMN IF NOT EXISTS ordering_policy VARCHAR(10);
+
+      CREATE SEQUENCE IF NOT EXISTS ${t.orderingSequence};
+      ALTER TABLE ${t.requests} ADD COLUMN IF NOT EXISTS ordering_seq BIGINT;
+      ALTER TABLE ${t.requests} ALTER COLUMN ordering_seq SET DEFAULT nextval('${t.orderingSequence}');
+
+      CREATE INDEX IF NOT EXISTS idx_${t.prefix}requests_ordering ON ${t.requests}(ordering_key, ordering_seq)
+        WHERE ordering_key IS NOT NULL;
+    `,
+  },
+];
+
+// ============================================================================
+// Migration Runner
+// ============================================================================
+
+// Stable advisory lock key shared by every instance running migrations ('hqm')
+const MIGRATION_LOCK_KEY = 0x68716d;
+
+/**
+ * Computes the checksum recorded for a migration when it is applied.
+ */
+export function migrationChecksum(
+  migration: Migration,
+  tables: PostgresTables = resolvePostgresTables()
+): string {
+  return new Bun.CryptoHasher('sha256').update(migration.up(tables)).digest('hex');
+}
+
+/**
+ * Validates that migrations are strictly ordered by version.
+ */
+export function validateMigrations(migrations: Migration[]): void {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i]!.version <= migrations[i - 1]!.version) {
+      throw new Error(
+        `Migration ${migrations[i]!.version} (${migrations[i]!.name}) is out of order`
+      );
+    }
+  }
+}
+
+async function ensureMigrationsTable(pool: Pool, tables: PostgresTables): Promise<void> {
+  if (tables.schema) {
+    await pool.query(`CREATE SCHEMA IF NOT EXISTS ${tables.schema}`);
+  }
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS ${tables.migrations} (
+      version INT PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+}
+
+/**
+ * Reports which migrations are applied, pending, or changed since applied.
+ */
+export async function getMigrationStatus(
+  pool: Pool,
+  tables: PostgresTables = resolvePostgresTables(),
+  migrations: Migration[] = POSTGRES_MIGRATIONS
+): Promise<MigrationStatus[]> {
+  const exists = await pool.query<{ table: string | null }>(
+    'SELECT to_regclass($1)::text AS table',
+    [tables.migrations]
+  );
+
+  const result = exists.rows[0]?.table
+    ? await pool.query<{ version: number; checksum: string; applied_at: Date }>(
+        `SELECT version, checksum, applied_at FROM ${tables.migrations}`
+      )
+    : { rows: [] };
+  const applied = new Map(result.rows.map((row) => [row.version, row]));
+
+  return migrations.map((migration) => {
+    const checksum = migrationChecksum(migration, tables);
+    const row = applied.get(migration.version);
+
+    return {
+      version: migration.version,
+      name: migration.name,
+      checksum,
+      state: !row ? 'pending' : row.checksum === checksum ? 'applied' : 'changed',
+      appliedAt: row?.applied_at,
+    };
+  });
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction. An
+ * advisory lock serializes concurrent instances; the others wait and then
+ * find nothing left to do.
+ */
+export async function runMigrations(
+  pool: Pool,
+  tables: PostgresTables = resolvePostgresTables(),
+  migrations: Migration[] = POSTGRES_MIGRATIONS
+): Promise<MigrationStatus[]> {
+  validateMigrations(migrations);
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(pool, tables);
+
+    const status = await getMigrationStatus(pool, tables, migrations);
+
+    const changed = status.find((s) => s.state === 'changed');
+    if (changed) {
+      throw new Error(
+        `Migration ${changed.version} (${changed.name}) has changed since it was applied`
+      );
+    }
+
+    for (const migration of migrations) {
+      const entry = status.find((s) => s.version === migration.version)!;
+      if (entry.state === 'applied') continue;
+
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.up(tables));
+        await client.query(
+          `INSERT INTO ${tables.migrations} (version, name, checksum) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, entry.checksum]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    }
+
+    return getMigrationStatus(pool, tables, migrations);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    client.release();
+  }
+}
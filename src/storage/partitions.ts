@@ -0,0 +1,185 @@
+import type { Pool } from 'pg';
+import type {
+  PartitionInterval,
+  PartitionMaintenanceReport,
+  PostgresPartitioningConfig,
+} from '../types';
+import type { PostgresTables } from './postgres-tables';
+
+// ============================================================================
+// Partition Ranges
+// ============================================================================
+
+export interface PartitionRange {
+  suffix: string;
+  from: Date;
+  to: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stable advisory lock key for partition maintenance ('hqp')
+const PARTITION_LOCK_KEY = 0x687170;
+
+/**
+ * Returns the start of the partition containing `date`, in UTC. Weeks start
+ * on Monday.
+ */
+export function partitionStart(date: Date, interval: PartitionInterval): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  switch (interval) {
+    case 'day':
+      return day;
+    case 'week':
+      return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+    case 'month':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+}
+
+function addIntervals(date: Date, interval: PartitionInterval, count: number): Date {
+  switch (interval) {
+    case 'day':
+      return new Date(date.getTime() + count * DAY_MS);
+    case 'week':
+      return new Date(date.getTime() + count * 7 * DAY_MS);
+    case 'month':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count, 1));
+  }
+}
+
+/**
+ * Lists the current partition and `premake` future ones, named by start date.
+ */
+export function partitionRanges(
+  now: Date,
+  interval: PartitionInterval,
+  premake: number
+): PartitionRange[] {
+  const first = partitionStart(now, interval);
+
+  return Array.from({ length: premake + 1 }, (_, i) => {
+    const from = addIntervals(first, interval, i);
+    return {
+      suffix: `p${from.toISOString().slice(0, 10).replace(/-/g, '')}`,
+      from,
+      to: addIntervals(from, interval, 1),
+    };
+  });
+}
+
+// ============================================================================
+// Partition Maintenance
+// ============================================================================
+
+/**
+ * Reports whether the requests table exists and is partitioned, or null if
+ * it does not exist yet.
+ */
+export async function isPartitioned(pool: Pool, tables: PostgresTables): Promise<boolean | null> {
+  const result = await pool.query<{ relkind: string }>(
+    'SELECT relkind FROM pg_class WHERE oid = to_regclass($1)',
+    [tables.requests]
+  );
+
+  const row = result.rows[0];
+  return row ? row.relkind === 'p' : null;
+}
+
+/**
+ * Creates the current and upcoming partitions and drops expired ones.
+ * Request partitions that still hold unfinished requests are never dropped.
+ * An advisory lock keeps concurrent instances from racing.
+ */
+export async function maintainPartitions(
+  pool: Pool,
+  tables: PostgresTables,
+  config: PostgresPartitioningConfig,
+  now: Date = new Date()
+): Promise<PartitionMaintenanceReport> {
+  const interval = config.interval ?? 'day';
+  const report: PartitionMaintenanceReport = { created: [], dropped: [], retained: [] };
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [PARTITION_LOCK_KEY]);
+
+    for (const parent of [tables.requests, tables.attempts]) {
+      const existing = new Set((await listPartitions(pool, parent)).map((p) => p.name));
+
+      for (const range of partitionRanges(now, interval, config.premake ?? 7)) {
+        const name = `${parent}_${range.suffix}`;
+        if (existing.has(name)) continue;
+
+        await client.query(
+          `
+          CREATE TABLE IF NOT EXISTS ${name} PARTITION OF ${parent}
+            FOR VALUES FROM ('${range.from.toISOString()}') TO ('${range.to.toISOString()}')
+          `
+        );
+        report.created.push(name);
+      }
+    }
+
+    if (config.retentionDays !== undefined) {
+      const cutoff = new Date(now.getTime() - config.retentionDays * DAY_MS);
+
+      for (const parent of [tables.requests, tables.attempts]) {
+        for (const partition of await listPartitions(pool, parent)) {
+          if (partition.upperBound > cutoff) continue;
+
+          if (parent === tables.requests && (await hasUnfinished(pool, partition.name))) {
+            report.retained.push(partition.name);
+            continue;
+          }
+
+          await client.query(`DROP TABLE IF EXISTS ${partition.name}`);
+          report.dropped.push(partition.name);
+        }
+      }
+    }
+
+    return report;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [PARTITION_LOCK_KEY]);
+    client.release();
+  }
+}
+
+async function listPartitions(
+  pool: Pool,
+  parent: string
+): Promise<{ name: string; upperBound: Date }[]> {
+  // Names are returned qualified the same way as the parent
+  const result = await pool.query<{ name: string; upper_bound: Date }>(
+    `
+    SELECT
+      CASE WHEN position('.' IN $1) > 0 THEN n.nspname || '.' ELSE '' END || c.relname AS name,
+      substring(pg_get_expr(c.relpartbound, c.oid) FROM 'TO \\(''([^'']+)''\\)')::timestamptz AS upper_bound
+    FROM pg_inherits i
+    JOIN pg_class c ON c.oid = i.inhrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE i.inhparent = to_regclass($1)
+    ORDER BY upper_bound
+    `,
+    [parent]
+  );
+
+  return result.rows.map((row) => ({ name: row.name, upperBound: row.upper_bound }));
+}
+
+async function hasUnfinished(pool: Pool, partition: string): Promise<boolean> {
+  // Listing finished statuses keeps waiting rows, and any status added later, live
+  const result = await pool.query<{ unfinished: boolean }>(
+    `
+    SELECT EXISTS (
+      SELECT 1 FROM ${partition}
+      WHERE status NOT IN ('completed', 'failed', 'dead', 'cancelled')
+    ) AS unfinished
+    `
+  );
+
+  return result.rows[0]?.unfinished ?? false;
+}
@@ -0,0 +1,672 @@
+import { Pool, type PoolClient } from 'pg';
+import type {
+  QueueRequest,
+  QueueManagerConfig,
+  QueueBackend,
+  QueueChannel,
+  StoredRequest,
+  StoredCircuitBreakerState,
+  CircuitBreakerUpdate,
+  QueueSnapshot,
+  EncryptionConfig,
+} from '../types';
+import { DEFAULT_QUEUE, DEFAULT_RECOVERY_CONFIG } from '../config';
+import { fromStoredRequest } from '../core/request';
+import { FieldEncryptor } from '../core/encryption';
+import { resolvePostgresTables, type PostgresTables } from './postgres-tables';
+
+// ============================================================================
+// Channels
+// ============================================================================
+
+const CHANNELS: Record<QueueChannel, string> = {
+  'new-request': 'hqm_new_request',
+  retry: 'hqm_retry',
+};
+
+/**
+ * One LISTEN connection shared by a backend and its named queues, with the
+ * handlers of every queue keyed by channel name.
+ */
+interface Listener {
+  client: Promise<PoolClient> | null;
+  handlers: Map<string, ((message: string) => void | Promise<void>)[]>;
+}
+
+// ============================================================================
+// PostgreSQL Queue Backend Class
+// ============================================================================
+
+/**
+ * QueueBackend that runs the queue directly on the `requests` table, for
+ * deployments without Redis. Must be paired with PostgresStore on the same
+ * database: dequeue uses `FOR UPDATE SKIP LOCKED`, scheduling uses
+ * `scheduled_for`/`next_retry_at`, and notifications use LISTEN/NOTIFY.
+ * Named queues are the rows with that `queue`.
+ */
+export class PostgresQueueBackend implements QueueBackend {
+  private pool: Pool;
+  private tables: PostgresTables;
+  private queue = DEFAULT_QUEUE;
+  private queues = new Map<string, PostgresQueueBackend>();
+  private listener: Listener = { client: null, handlers: new Map() };
+  private encryptor: FieldEncryptor | null;
+
+  /**
+   * Connects with `config` unless given a pool to use instead, which is
+   * ended on disconnect.
+   */
+  constructor(
+    config: QueueManagerConfig['postgres'] = {},
+    encryption?: EncryptionConfig,
+    pool?: Pool
+  ) {
+    this.tables = resolvePostgresTables(config);
+    this.encryptor = encryption ? new FieldEncryptor(encryption) : null;
+    this.pool = pool ?? new Pool({
+      connectionString: config.connectionString,
+      host: config.host,
+      port: config.port ?? 5432,
+      database: config.database,
+      user: config.user,
+      password: config.password,
+      ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
+      max: config.poolSize ?? 10,
+    });
+    this.queues.set(DEFAULT_QUEUE, this);
+  }
+
+  // ============================================================================
+  // Connection Management
+  // ============================================================================
+
+  /**
+   * Tables for this backend are created by PostgresStore migrations.
+   */
+  async connect(): Promise<void> {
+    await this.pool.query('SELECT 1');
+  }
+
+  async disconnect(): Promise<void> {
+    this.listener.handlers.clear();
+    await this.releaseListener();
+    await this.pool.end();
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      const result = await this.pool.query('SELECT 1');
+      return result.rowCount === 1;
+    } catch {
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // Named Queues
+  // ============================================================================
+
+  forQueue(name: string): QueueBackend {
+    let backend = this.queues.get(name);
+
+    if (!backend) {
+      // Shares the pool and the LISTEN connection
+      backend = Object.create(PostgresQueueBackend.prototype) as PostgresQueueBackend;
+      Object.assign(backend, this, { queue: name });
+      this.queues.set(name, backend);
+    }
+
+    return backend;
+  }
+
+  /**
+   * Rate limit and circuit breaker keys of named queues are kept apart.
+   */
+  private scoped(key: string): string {
+    return this.queue === DEFAULT_QUEUE ? key : `queues:${this.queue}:${key}`;
+  }
+
+  // ============================================================================
+  // Queue Operations
+  // ============================================================================
+
+  /**
+   * The row is written by the state store; enqueueing only wakes workers.
+   */
+  async enqueue(request: QueueRequest): Promise<number> {
+    await this.notify('new-request', request.id);
+    return 1;
+  }
+
+  async enqueueMany(requests: QueueRequest[]): Promise<void> {
+    await this.notify('new-request', `batch:${requests.length}`);
+  }
+
+  async dequeue(
+    ownerId?: string,
+    leaseMs: number = DEFAULT_RECOVERY_CONFIG.leaseTimeout
+  ): Promise<QueueRequest | null> {
+    const result = await this.pool.query<StoredRequest>(
+      `
+      UPDATE ${this.tables.requests}
+      SET status = 'processing', locked_by = $1, locked_at = NOW(),
+          lease_expires_at = NOW() + $2 * INTERVAL '1 millisecond'
+      WHERE id = (
+        SELECT id FROM ${this.tables.requests}
+        WHERE queue = $3 AND status = 'pending'
+          AND (next_retry_at IS NULL OR next_retry_at <= NOW())
+        ORDER BY priority DESC, created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+      `,
+      [ownerId ?? null, leaseMs, this.queue]
+    );
+
+    const row = result.rows[0];
+    return row ? this.toQueueRequest(row) : null;
+  }
+
+  async extendLease(requestId: string, ownerId: string, leaseMs: number): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET lease_expires_at = NOW() + $3 * INTERVAL '1 millisecond'
+      WHERE id = $1 AND locked_by = $2 AND status = 'processing'
+      `,
+      [requestId, ownerId, leaseMs]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async scheduleRetry(requestId: string, retryAt: Date, ownerId?: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET status = 'pending', next_retry_at = $2,
+          locked_by = NULL, locked_at = NULL, lease_expires_at = NULL
+      WHERE id = $1 AND ($3::text IS NULL OR locked_by = $3)
+      `,
+      [requestId, retryAt, ownerId ?? null]
+    );
+    if ((result.rowCount ?? 0) === 0) return false;
+
+    await this.notify(
+      'retry',
+      JSON.stringify({ requestId, retryAt: retryAt.toISOString() })
+    );
+
+    return true;
+  }
+
+  async promoteScheduledRequests(): Promise<string[]> {
+    const result = await this.pool.query<{ id: string }>(
+      `
+      WITH promoted AS (
+        UPDATE ${this.tables.requests}
+        SET status = 'pending'
+        WHERE queue = $1 AND status = 'scheduled' AND scheduled_for <= NOW()
+        RETURNING id
+      )
+      SELECT id FROM promoted
+      UNION ALL
+      SELECT id FROM ${this.tables.requests}
+      WHERE queue = $1 AND status = 'pending' AND next_retry_at <= NOW()
+      `,
+      [this.queue]
+    );
+
+    const dueRequests = result.rows.map((row) => row.id);
+
+    if (dueRequests.length > 0) {
+      await this.notify('new-request', `promoted:${dueRequests.length}`);
+    }
+
+    return dueRequests;
+  }
+
+  async reschedule(requestId: string, scheduledFor: Date): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET status = 'scheduled', scheduled_for = $2, next_retry_at = NULL
+      WHERE id = $1 AND status IN ('pending', 'scheduled')
+      `,
+      [requestId, scheduledFor]
+    );
+    if ((result.rowCount ?? 0) === 0) return false;
+
+    await this.notify(
+      'retry',
+      JSON.stringify({ requestId, retryAt: scheduledFor.toISOString() })
+    );
+
+    return true;
+  }
+
+  /**
+   * Writes the terminal status with the lease release, so a crash before the
+   * state store's update can't strand the row in `processing`.
+   */
+  async markComplete(requestId: string, ownerId?: string): Promise<boolean> {
+    return this.finish(requestId, 'completed', ownerId);
+  }
+
+  /**
+   * As `markComplete`, for a request out of retries.
+   */
+  async moveToDead(requestId: string, ownerId?: string): Promise<boolean> {
+    return this.finish(requestId, 'dead', ownerId);
+  }
+
+  private async finish(
+    requestId: string,
+    status: 'completed' | 'dead',
+    ownerId?: string
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET status = $3::varchar, locked_by = NULL, locked_at = NULL, lease_expires_at = NULL,
+          completed_at = CASE WHEN $3::varchar = 'completed' THEN NOW() ELSE completed_at END
+      WHERE id = $1 AND ($2::text IS NULL OR locked_by = $2)
+      `,
+      [requestId, ownerId ?? null, status]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async cancel(requestId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET status = 'cancelled'
+      WHERE id = $1 AND status IN ('pending', 'scheduled')
+      `,
+      [requestId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // ============================================================================
+  // Request Data Operations
+  // ============================================================================
+
+  async getRequest(requestId: string): Promise<QueueRequest | null> {
+    const result = await this.pool.query<StoredRequest>(
+      `SELECT * FROM ${this.tables.requests} WHERE id = $1`,
+      [requestId]
+    );
+
+    const row = result.rows[0];
+    return row ? this.toQueueRequest(row) : null;
+  }
+
+  async updateRequest(request: QueueRequest): Promise<void> {
+    if (this.encryptor) request = this.encryptor.seal(request);
+
+    await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET url = $2, method = $3, headers = $4, body = $5, priority = $6,
+          max_retries = $7, timeout = $8, metadata = $9
+      WHERE id = $1
+      `,
+      [
+        request.id,
+        request.url,
+        request.method,
+        request.headers ? JSON.stringify(request.headers) : null,
+        request.body !== undefined ? JSON.stringify(request.body) : null,
+        request.priority,
+        request.maxRetries ?? 3,
+        request.timeout ?? null,
+        request.metadata ? JSON.stringify(request.metadata) : null,
+      ]
+    );
+  }
+
+  private toQueueRequest(row: StoredRequest): QueueRequest {
+    return fromStoredRequest(this.encryptor ? this.encryptor.open(row) : row);
+  }
+
+  /**
+   * The row is owned by the state store; there is no separate payload to drop.
+   */
+  async deleteRequest(_requestId: string): Promise<void> {}
+
+  // ============================================================================
+  // Queue Stats
+  // ============================================================================
+
+  async getQueueSize(): Promise<number> {
+    return this.count(
+      `status = 'pending' AND (next_retry_at IS NULL OR next_retry_at <= NOW())`
+    );
+  }
+
+  async getProcessingCount(): Promise<number> {
+    return this.count(`status = 'processing'`);
+  }
+
+  async getScheduledCount(): Promise<number> {
+    return this.count(
+      `status = 'scheduled' OR (status = 'pending' AND next_retry_at > NOW())`
+    );
+  }
+
+  async getDeadCount(): Promise<number> {
+    return this.count(`status = 'dead'`);
+  }
+
+  async getQueueSnapshot(): Promise<QueueSnapshot> {
+    const result = await this.pool.query<{ id: string; state: keyof QueueSnapshot }>(
+      `
+      SELECT id,
+        CASE
+          WHEN status = 'processing' THEN 'processing'
+          WHEN status = 'scheduled' OR next_retry_at > NOW() THEN 'scheduled'
+          ELSE 'pending'
+        END AS state
+      FROM ${this.tables.requests}
+      WHERE queue = $1 AND status IN ('pending', 'scheduled', 'processing')
+      `,
+      [this.queue]
+    );
+
+    const snapshot: QueueSnapshot = { pending: [], scheduled: [], processing: [] };
+    for (const row of result.rows) {
+      snapshot[row.state].push(row.id);
+    }
+
+    return snapshot;
+  }
+
+  private async count(where: string): Promise<number> {
+    const result = await this.pool.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM ${this.tables.requests} WHERE queue = $1 AND (${where})`,
+      [this.queue]
+    );
+
+    return parseInt(result.rows[0]?.count ?? '0', 10);
+  }
+
+  // ============================================================================
+  // Retention
+  // ============================================================================
+
+  /**
+   * Requests have no separate payload here; rows are removed by the state store.
+   */
+  async purgeOrphanedPayloads(
+    _cursor: string,
+    _count: number
+  ): Promise<{ cursor: string; purged: number }> {
+    return { cursor: '0', purged: 0 };
+  }
+
+  // ============================================================================
+  // Crash Recovery
+  // ============================================================================
+
+  async heartbeat(instanceId: string, ttlMs: number): Promise<void> {
+    await this.pool.query(
+      `
+      INSERT INTO ${this.tables.instances} (instance_id, expires_at)
+      VALUES ($1, NOW() + $2 * INTERVAL '1 millisecond')
+      ON CONFLICT (instance_id) DO UPDATE SET expires_at = EXCLUDED.expires_at
+      `,
+      [instanceId, ttlMs]
+    );
+  }
+
+  /**
+   * Finds processing rows whose lease has run out, or locked by an
+   * instance that has stopped sending heartbeats.
+   */
+  async getExpiredProcessing(): Promise<string[]> {
+    const result = await this.pool.query<{ id: string }>(
+      `
+      SELECT r.id FROM ${this.tables.requests} r
+      WHERE r.queue = $1 AND r.status = 'processing'
+        AND (
+          r.lease_expires_at < NOW()
+          OR (
+            r.locked_by IS NOT NULL
+            AND NOT EXISTS (
+              SELECT 1 FROM ${this.tables.instances} i
+              WHERE i.instance_id = r.locked_by AND i.expires_at > NOW()
+            )
+          )
+        )
+      `,
+      [this.queue]
+    );
+
+    return result.rows.map((row) => row.id);
+  }
+
+  // ============================================================================
+  // Rate Limiting (Token Bucket)
+  // ============================================================================
+
+  async checkRateLimit(
+    key: string,
+    tokensPerSecond: number,
+    burstSize: number
+  ): Promise<{ allowed: boolean; retryAfter?: number }> {
+    // Single upsert so concurrent instances refill and take tokens atomically
+    const result = await this.pool.query<{ tokens: number; allowed: boolean }>(
+      `
+      INSERT INTO ${this.tables.rateLimits} AS b (key, tokens, last_update, allowed)
+      VALUES ($1, $3::float8 - 1, $4::bigint, TRUE)
+      ON CONFLICT (key) DO UPDATE SET
+        tokens = LEAST($3::float8, b.tokens + GREATEST(0, $4::bigint - b.last_update) / 1000.0 * $2::float8)
+          - CASE
+              WHEN LEAST($3::float8, b.tokens + GREATEST(0, $4::bigint - b.last_update) / 1000.0 * $2::float8) >= 1
+              THEN 1 ELSE 0
+            END,
+        allowed =
+          LEAST($3::float8, b.tokens + GREATEST(0, $4::bigint - b.last_update) / 1000.0 * $2::float8) >= 1,
+        last_update = $4::bigint
+      RETURNING tokens, allowed
+      `,
+      [this.scoped(key), tokensPerSecond, burstSize, Date.now()]
+    );
+
+    const row = result.rows[0];
+    if (!row || row.allowed) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      retryAfter: Math.ceil(((1 - row.tokens) / tokensPerSecond) * 1000),
+    };
+  }
+
+  // ============================================================================
+  // Circuit Breaker
+  // ============================================================================
+
+  async getCircuitBreakerState(host: string): Promise<StoredCircuitBreakerState> {
+    const result = await this.pool.query<{
+      state: StoredCircuitBreakerState['state'];
+      failures: number;
+      successes: number;
+      last_failure: Date | null;
+      state_changed_at: Date | null;
+    }>(`SELECT * FROM ${this.tables.circuitBreakers} WHERE host = $1`, [this.scoped(host)]);
+
+    const row = result.rows[0];
+    if (!row) {
+      return { state: 'closed', failures: 0, successes: 0 };
+    }
+
+    return {
+      state: row.state,
+      failures: row.failures,
+      successes: row.successes,
+      lastFailure: row.last_failure ?? undefined,
+      stateChangedAt: row.state_changed_at ?? undefined,
+    };
+  }
+
+  async updateCircuitBreaker(host: string, update: CircuitBreakerUpdate): Promise<void> {
+    const updates: string[] = [];
+
+    // Order matches RedisStore: reset first, then increments, then state
+    const failures = update.resetCounters ? '0' : 'cb.failures';
+    const successes = update.resetCounters ? '0' : 'cb.successes';
+
+    updates.push(`failures = ${failures}${update.incrementFailures ? ' + 1' : ''}`);
+    updates.push(`successes = ${successes}${update.incrementSuccesses ? ' + 1' : ''}`);
+
+    if (update.incrementFailures) {
+      updates.push('last_failure = NOW()');
+    }
+
+    if (update.state) {
+      updates.push('state = $2', 'state_changed_at = NOW()');
+    }
+
+    await this.pool.query(
+      `
+      INSERT INTO ${this.tables.circuitBreakers} AS cb (host, state, failures, successes, last_failure, state_changed_at)
+      VALUES (
+        $1,
+        COALESCE($2::varchar, 'closed'),
+        ${update.incrementFailures ? 1 : 0},
+        ${update.incrementSuccesses ? 1 : 0},
+        ${update.incrementFailures ? 'NOW()' : 'NULL'},
+        ${update.state ? 'NOW()' : 'NULL'}
+      )
+      ON CONFLICT (host) DO UPDATE SET ${updates.join(', ')}
+      `,
+      [this.scoped(host), update.state ?? null]
+    );
+  }
+
+  // ============================================================================
+  // Pub/Sub via LISTEN/NOTIFY
+  // ============================================================================
+
+  async subscribe(
+    channel: QueueChannel,
+    handler: (message: string) => void | Promise<void>
+  ): Promise<void> {
+    const { handlers } = this.listener;
+    const client = await this.listen();
+
+    const name = this.channel(channel);
+    if (!handlers.has(name)) {
+      handlers.set(name, []);
+      await client.query(`LISTEN "${name}"`);
+    }
+
+    handlers.get(name)!.push(handler);
+  }
+
+  /**
+   * Stops this queue's channels. The connection is released with the last.
+   */
+  async unsubscribe(): Promise<void> {
+    const { client, handlers } = this.listener;
+    const names = (Object.keys(CHANNELS) as QueueChannel[])
+      .map((channel) => this.channel(channel))
+      .filter((name) => handlers.delete(name));
+
+    if (!client) return;
+
+    if (handlers.size === 0) {
+      await this.releaseListener();
+    } else {
+      const listener = await client;
+      for (const name of names) {
+        await listener.query(`UNLISTEN "${name}"`);
+      }
+    }
+  }
+
+  /**
+   * Connects the shared listener on first use, dispatching by channel name.
+   */
+  private listen(): Promise<PoolClient> {
+    const listener = this.listener;
+
+    if (!listener.client) {
+      listener.client = this.pool.connect().then((client) => {
+        client.on('notification', async (msg) => {
+          for (const h of listener.handlers.get(msg.channel) ?? []) {
+            await h(msg.payload ?? '');
+          }
+        });
+        return client;
+      });
+
+      // A failed connect is retried by the next subscribe
+      listener.client.catch(() => {
+        listener.client = null;
+      });
+    }
+
+    return listener.client;
+  }
+
+  private async releaseListener(): Promise<void> {
+    const pending = this.listener.client;
+    if (!pending) return;
+
+    this.listener.client = null;
+    const client = await pending;
+    await client.query('UNLISTEN *');
+    client.release();
+  }
+
+  private channel(channel: QueueChannel): string {
+    const name = `${this.tables.channelPrefix}${CHANNELS[channel]}`;
+    return this.queue === DEFAULT_QUEUE ? name : `${name}_${this.queue}`;
+  }
+
+  private async notify(channel: QueueChannel, payload: string): Promise<void> {
+    await this.pool.query('SELECT pg_notify($1, $2)', [this.channel(channel), payload]);
+  }
+
+  // ============================================================================
+  // Distributed Locking
+  // ============================================================================
+
+  async acquireLock(
+    resource: string,
+    ttlMs: number
+  ): Promise<{ acquired: boolean; lockId?: string }> {
+    const lockId = crypto.randomUUID();
+
+    const result = await this.pool.query(
+      `
+      INSERT INTO ${this.tables.locks} AS l (resource, lock_id, expires_at)
+      VALUES ($1, $2, NOW() + $3 * INTERVAL '1 millisecond')
+      ON CONFLICT (resource) DO UPDATE
+        SET lock_id = EXCLUDED.lock_id, expires_at = EXCLUDED.expires_at
+        WHERE l.expires_at < NOW()
+      `,
+      [resource, lockId, ttlMs]
+    );
+
+    const acquired = (result.rowCount ?? 0) > 0;
+    return { acquired, lockId: acquired ? lockId : undefined };
+  }
+
+  async releaseLock(resource: string, lockId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM ${this.tables.locks} WHERE resource = $1 AND lock_id = $2`,
+      [resource, lockId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,78 @@
+import type { QueueManagerConfig } from '../types';
+
+// ============================================================================
+// PostgreSQL Table Names
+// ============================================================================
+
+/**
+ * Fully resolved object names for one queue manager's PostgreSQL tables.
+ * Table and function names are schema-qualified when a schema is configured;
+ * index, trigger and channel names carry the prefix only.
+ */
+export interface PostgresTables {
+  schema?: string;
+  prefix: string;
+  requests: string;
+  attempts: string;
+  rateLimits: string;
+  circuitBreakers: string;
+  locks: string;
+  instances: string;
+  archive: string;
+  outbox: string;
+  idempotencyKeys: string;
+  batches: string;
+  schedules: string;
+  migrations: string;
+  orderingSequence: string;
+  updatedAtFunction: string;
+  batchCountsFunction: string;
+  channelPrefix: string;
+  /** Whether requests and attempts are range-partitioned on created_at. */
+  partitioned: boolean;
+}
+
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Resolves table names from `postgres.schema` and `postgres.tablePrefix`.
+ * Both are restricted to plain identifiers so they can be interpolated.
+ */
+export function resolvePostgresTables(
+  config: QueueManagerConfig['postgres'] = {}
+): PostgresTables {
+  const schema = config.schema;
+  const prefix = config.tablePrefix ?? '';
+
+  if (schema !== undefined && !IDENTIFIER.test(schema)) {
+    throw new Error(`Invalid postgres schema name: ${schema}`);
+  }
+
+  if (prefix !== '' && !IDENTIFIER.test(prefix)) {
+    throw new Error(`Invalid postgres table prefix: ${prefix}`);
+  }
+
+  const name = (table: string) => (schema ? `${schema}.${prefix}${table}` : `${prefix}${table}`);
+
+  return {
+    schema,
+    prefix,
+    requests: name('requests'),
+    attempts: name('request_attempts'),
+    rateLimits: name('queue_rate_limits'),
+    circuitBreakers: name('queue_circuit_breakers'),
+    locks: name('queue_locks'),
+    instances: name('queue_instances'),
+    archive: name('requests_archive'),
+    outbox: name('request_outbox'),
+    idempotencyKeys: name('request_idempotency_keys'),
+    batches: name('request_batches'),
+    schedules: name('request_schedules'),
+    migrations: name('hqm_schema_migrations'),
+    orderingSequence: name('request_ordering_seq'),
+    updatedAtFunction: name('update_updated_at'),
+    batchCountsFunction: name('count_batch_members'),
+    channelPrefix: schema ? `${schema}_${prefix}` : prefix,
+    partitioned: config.partitioning !== undefined,
+  };
+}
@@ -1,22 +1,76 @@
-import { Pool, type PoolClient } from 'pg';
+import { Pool, type PoolClient, type QueryResult } from 'pg';
 import type {
   QueueManagerConfig,
   StoredRequest,
   RequestAttempt,
   RequestStatus,
   QueueRequest,
-  QueueResponse,
+  QueueStats,
+  StateStore,
+  RequestStatusUpdate,
+  AttemptResult,
+  MigrationStatus,
+  FinishedStatus,
+  RequestWithAttempts,
+  PostgresPartitioningConfig,
+  PartitionMaintenanceReport,
+  EncryptionConfig,
+  TransactionClient,
+  RequestSearchQuery,
+  RequestSearchPage,
+  StoredBatch,
+  NewBatch,
+  StoredSchedule,
 } from '../types';
+import { runMigrations, getMigrationStatus, URL_HOST_SQL } from './migrations';
+import { resolveSearch, encodeCursor } from './search';
+import { isPartitioned, maintainPartitions } from './partitions';
+import { FieldEncryptor } from '../core/encryption';
+import { idempotencyExpiry, initialStatus } from '../core/request';
+import { resolvePostgresTables, type PostgresTables } from './postgres-tables';
 
 // ============================================================================
 // PostgreSQL Store Class
 // ============================================================================
 
-export class PostgresStore {
+// Rows per multi-row INSERT in saveRequestBatch
+const INSERT_BATCH_SIZE = 1000;
+
+// First key of the advisory locks taken per ordering key ('hqm')
+const ORDERING_LOCK_CLASS = 0x68716d;
+
+function toJson(value: unknown): string | null {
+  return value === null || value === undefined ? null : JSON.stringify(value);
+}
+
+// Schedules keep their request's headers and body in their own columns
+interface ScheduleRow extends StoredSchedule {
+  headers: Record<string, string> | null;
+  body: unknown;
+}
+
+export class PostgresStore implements StateStore {
   private pool: Pool;
+  private tables: PostgresTables;
+  private autoMigrate: boolean;
+  private partitioning?: PostgresPartitioningConfig;
+  private maintenanceTimer: ReturnType<typeof setInterval> | null = null;
+  private encryptor: FieldEncryptor | null;
 
-  constructor(config: QueueManagerConfig['postgres']) {
-    this.pool = new Pool({
+  /**
+   * Connects with `config` unless given a pool to use instead, which is
+   * ended on disconnect.
+   */
+  constructor(
+    config: QueueManagerConfig['postgres'] = {},
+    encryption?: EncryptionConfig,
+    pool?: Pool
+  ) {
+    this.tables = resolvePostgresTables(config);
+    this.autoMigrate = config.autoMigrate ?? true;
+    this.partitioning = config.partitioning;
+    this.encryptor = encryption ? new FieldEncryptor(encryption) : null;
+    this.pool = pool ?? new Pool({
       connectionString: config.connectionString,
       host: config.host,
       port: config.port ?? 5432,
@@ -39,6 +93,8 @@ export class PostgresStore {
   }
 
   async disconnect(): Promise<void> {
+    if (this.maintenanceTimer) clearInterval(this.maintenanceTimer);
+    this.maintenanceTimer = null;
     await this.pool.end();
   }
 
@@ -56,99 +112,103 @@ export class PostgresStore {
   // ============================================================================
 
   async initializeSchema(): Promise<void> {
-    const client = await this.pool.connect();
-
-    try {
-      await client.query('BEGIN');
+    const partitioned = await isPartitioned(this.pool, this.tables);
+    if (partitioned !== null && partitioned !== this.tables.partitioned) {
+      throw new Error(
+        partitioned
+          ? `Table ${this.tables.requests} is partitioned; set postgres.partitioning to use it`
+          : `Table ${this.tables.requests} is not partitioned; partitioning must be enabled before the schema is created`
+      );
+    }
 
-      // Create requests table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS requests (
-          id UUID PRIMARY KEY,
-          url TEXT NOT NULL,
-          method VARCHAR(10) NOT NULL,
-          headers JSONB,
-          body JSONB,
-          priority INT DEFAULT 50,
-          max_retries INT DEFAULT 3,
-          timeout INT,
-          status VARCHAR(20) NOT NULL DEFAULT 'pending',
-          attempts INT DEFAULT 0,
-          scheduled_for TIMESTAMPTZ,
-          last_attempt_at TIMESTAMPTZ,
-          next_retry_at TIMESTAMPTZ,
-          error TEXT,
-          response JSONB,
-          metadata JSONB,
-          created_at TIMESTAMPTZ DEFAULT NOW(),
-          updated_at TIMESTAMPTZ DEFAULT NOW(),
-          completed_at TIMESTAMPTZ
-        );
-      `);
-
-      // Create request_attempts table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS request_attempts (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          request_id UUID REFERENCES requests(id) ON DELETE CASCADE,
-          attempt_number INT NOT NULL,
-          status_code INT,
-          duration_ms INT,
-          error TEXT,
-          response_headers JSONB,
-          created_at TIMESTAMPTZ DEFAULT NOW()
+    if (this.autoMigrate) {
+      await this.migrate();
+    } else {
+      const pending = (await this.migrationStatus()).filter((m) => m.state !== 'applied');
+      if (pending.length > 0) {
+        throw new Error(
+          `Database schema is not up to date: ${pending.map((m) => `${m.version} (${m.state})`).join(', ')}`
         );
-      `);
-
-      // Create indexes
-      await client.query(`
-        CREATE INDEX IF NOT EXISTS idx_requests_status ON requests(status);
-        CREATE INDEX IF NOT EXISTS idx_requests_scheduled ON requests(scheduled_for) 
-          WHERE status = 'pending' OR status = 'scheduled';
-        CREATE INDEX IF NOT EXISTS idx_requests_created ON requests(created_at);
-        CREATE INDEX IF NOT EXISTS idx_attempts_request ON request_attempts(request_id);
-      `);
-
-      // Create updated_at trigger function
-      await client.query(`
-        CREATE OR REPLACE FUNCTION update_updated_at()
-        RETURNS TRIGGER AS $$
-        BEGIN
-          NEW.updated_at = NOW();
-          RETURN NEW;
-        END;
-        $$ LANGUAGE plpgsql;
-      `);
-
-      // Create trigger
-      await client.query(`
-        DROP TRIGGER IF EXISTS trigger_requests_updated_at ON requests;
-        CREATE TRIGGER trigger_requests_updated_at
-          BEFORE UPDATE ON requests
-          FOR EACH ROW
-          EXECUTE FUNCTION update_updated_at();
-      `);
+      }
+    }
 
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+    if (this.partitioning && !this.maintenanceTimer) {
+      await this.maintainPartitions();
+      this.maintenanceTimer = setInterval(() => {
+        this.maintainPartitions().catch(() => {});
+      }, this.partitioning.maintenanceInterval ?? 60 * 60 * 1000);
     }
   }
 
+  /**
+   * Applies pending schema migrations.
+   */
+  async migrate(): Promise<MigrationStatus[]> {
+    return runMigrations(this.pool, this.tables);
+  }
+
+  /**
+   * Lists schema migrations and whether each is applied.
+   */
+  async migrationStatus(): Promise<MigrationStatus[]> {
+    return getMigrationStatus(this.pool, this.tables);
+  }
+
+  /**
+   * Creates upcoming partitions and drops expired ones. Runs on startup and
+   * then periodically when partitioning is enabled.
+   */
+  async maintainPartitions(): Promise<PartitionMaintenanceReport> {
+    if (!this.partitioning) {
+      throw new Error('Partitioning is not enabled');
+    }
+
+    return maintainPartitions(this.pool, this.tables, this.partitioning);
+  }
+
   // ============================================================================
   // Request Operations
   // ============================================================================
 
-  async saveRequest(request: QueueRequest): Promise<void> {
-    await this.pool.query(
+  async saveRequest(request: QueueRequest): Promise<string | null> {
+    if (!request.idempotencyKey) {
+      await this.insertRequest(this.pool, request);
+      return null;
+    }
+
+    const [duplicateOf] = await this.withTransaction((client) => this.saveRequests(client, [request]));
+    return duplicateOf ?? null;
+  }
+
+  /**
+   * Inserts the row and its outbox entry using the caller's client, so both
+   * commit or roll back with the caller's transaction.
+   */
+  async saveRequestInTransaction(
+    client: TransactionClient,
+    request: QueueRequest
+  ): Promise<string | null> {
+    const [duplicateOf] = await this.saveRequests(client, [request]);
+    if (duplicateOf) return duplicateOf;
+
+    await client.query(`INSERT INTO ${this.tables.outbox} (request_id) VALUES ($1)`, [request.id]);
+    return null;
+  }
+
+  private async insertRequest(client: TransactionClient, request: QueueRequest): Promise<void> {
+    if (this.encryptor) request = this.encryptor.seal(request);
+
+    await client.query(
       `
-      INSERT INTO requests (
+      INSERT INTO ${this.tables.requests} (
         id, url, method, headers, body, priority, max_retries, timeout,
-        status, scheduled_for, metadata, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        status, scheduled_for, metadata, response_storage, created_at,
+        depends_on, on_failure, workflow_id, step, compensation, batch_id, queue,
+        ordering_key, ordering_policy
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20,
+        $21, $22
+      )
       `,
       [
         request.id,
@@ -159,46 +219,47 @@ export class PostgresStore {
         request.priority,
         request.maxRetries ?? 3,
         request.timeout ?? null,
-        request.scheduledFor ? 'scheduled' : 'pending',
+        initialStatus(request),
         request.scheduledFor ?? null,
         request.metadata ? JSON.stringify(request.metadata) : null,
+        request.responseStorage ?? null,
         request.createdAt,
+        toJson(request.dependsOn),
+        request.onFailure ?? null,
+        request.workflowId ?? null,
+        request.step ?? null,
+        toJson(request.compensation),
+        request.batchId ?? null,
+        request.queue,
+        request.orderingKey ?? null,
+        request.orderingPolicy ?? null,
       ]
     );
   }
 
-  async saveRequestBatch(requests: QueueRequest[]): Promise<void> {
+  async saveRequestBatch(requests: QueueRequest[], batch?: NewBatch): Promise<(string | null)[]> {
+    if (requests.length === 0 && !batch) return [];
+
     const client = await this.pool.connect();
 
     try {
       await client.query('BEGIN');
 
-      for (const request of requests) {
-        await client.query(
-          `
-          INSERT INTO requests (
-            id, url, method, headers, body, priority, max_retries, timeout,
-            status, scheduled_for, metadata, created_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-          `,
-          [
-            request.id,
-            request.url,
-            request.method,
-            request.headers ? JSON.stringify(request.headers) : null,
-            request.body !== undefined ? JSON.stringify(request.body) : null,
-            request.priority,
-            request.maxRetries ?? 3,
-            request.timeout ?? null,
-            request.scheduledFor ? 'scheduled' : 'pending',
-            request.scheduledFor ?? null,
-            request.metadata ? JSON.stringify(request.metadata) : null,
-            request.createdAt,
-          ]
-        );
+      // The batch row must exist before its members, whose inserts count them
+      if (batch) {
+        await client.query(`INSERT INTO ${this.tables.batches} (id, metadata) VALUES ($1, $2)`, [
+          batch.id,
+          toJson(batch.metadata),
+        ]);
+      }
+
+      const duplicates: (string | null)[] = [];
+      for (let i = 0; i < requests.length; i += INSERT_BATCH_SIZE) {
+        duplicates.push(...(await this.saveRequests(client, requests.slice(i, i + INSERT_BATCH_SIZE))));
       }
 
       await client.query('COMMIT');
+      return duplicates;
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -207,26 +268,133 @@ export class PostgresStore {
     }
   }
 
+  /**
+   * Claims idempotency keys, then inserts the requests that got theirs (or
+   * have none). Must run inside a transaction.
+   */
+  private async saveRequests(
+    client: TransactionClient,
+    requests: QueueRequest[]
+  ): Promise<(string | null)[]> {
+    const holders = await this.claimIdempotencyKeys(client, requests);
+    const duplicates = requests.map((request) => {
+      const holder = request.idempotencyKey ? holders.get(request.idempotencyKey) : undefined;
+      return holder && holder !== request.id ? holder : null;
+    });
+
+    const fresh = requests.filter((_, i) => !duplicates[i]);
+    if (fresh.length > 0) await this.insertRequests(client, fresh);
+
+    return duplicates;
+  }
+
+  /**
+   * Takes each key for the first request carrying it, unless it is held by
+   * a request whose window hasn't ended. The conflicting key rows stay locked
+   * until the transaction ends, so concurrent enqueues agree on the holder.
+   * Returns the holder of every key.
+   */
+  private async claimIdempotencyKeys(
+    client: TransactionClient,
+    requests: QueueRequest[]
+  ): Promise<Map<string, string>> {
+    const claims = new Map<string, QueueRequest>();
+    for (const request of requests) {
+      if (request.idempotencyKey && !claims.has(request.idempotencyKey)) {
+        claims.set(request.idempotencyKey, request);
+      }
+    }
+    if (claims.size === 0) return new Map();
+
+    const keys = [...claims.keys()];
+    const table = this.tables.idempotencyKeys;
+
+    await client.query(
+      `
+      INSERT INTO ${table} (key, request_id, expires_at)
+      SELECT * FROM unnest($1::varchar[], $2::uuid[], $3::timestamptz[])
+      ON CONFLICT (key) DO UPDATE
+        SET request_id = EXCLUDED.request_id, expires_at = EXCLUDED.expires_at
+        WHERE ${table}.expires_at <= NOW()
+      `,
+      [
+        keys,
+        keys.map((key) => claims.get(key)!.id),
+        keys.map((key) => idempotencyExpiry(claims.get(key)!)),
+      ]
+    );
+
+    const result = (await client.query(
+      `SELECT key, request_id FROM ${table} WHERE key = ANY($1)`,
+      [keys]
+    )) as QueryResult<{ key: string; request_id: string }>;
+
+    return new Map(result.rows.map((row) => [row.key, row.request_id]));
+  }
+
+  /**
+   * Inserts many rows in one statement, passing each column as an array so
+   * the parameter count stays fixed.
+   */
+  private async insertRequests(client: TransactionClient, requests: QueueRequest[]): Promise<void> {
+    if (this.encryptor) requests = requests.map((request) => this.encryptor!.seal(request));
+
+    await client.query(
+      `
+      INSERT INTO ${this.tables.requests} (
+        id, url, method, headers, body, priority, max_retries, timeout,
+        status, scheduled_for, metadata, response_storage, created_at,
+        depends_on, on_failure, workflow_id, step, compensation, batch_id, queue,
+        ordering_key, ordering_policy
+      )
+      SELECT * FROM unnest(
+        $1::uuid[], $2::text[], $3::varchar[], $4::jsonb[], $5::jsonb[], $6::int[], $7::int[],
+        $8::int[], $9::varchar[], $10::timestamptz[], $11::jsonb[], $12::varchar[], $13::timestamptz[],
+        $14::jsonb[], $15::varchar[], $16::uuid[], $17::varchar[], $18::jsonb[], $19::uuid[],
+        $20::varchar[], $21::varchar[], $22::varchar[]
+      )
+      `,
+      [
+        requests.map((r) => r.id),
+        requests.map((r) => r.url),
+        requests.map((r) => r.method),
+        requests.map((r) => (r.headers ? JSON.stringify(r.headers) : null)),
+        requests.map((r) => (r.body !== undefined ? JSON.stringify(r.body) : null)),
+        requests.map((r) => r.priority),
+        requests.map((r) => r.maxRetries ?? 3),
+        requests.map((r) => r.timeout ?? null),
+        requests.map(initialStatus),
+        requests.map((r) => r.scheduledFor ?? null),
+        requests.map((r) => (r.metadata ? JSON.stringify(r.metadata) : null)),
+        requests.map((r) => r.responseStorage ?? null),
+        requests.map((r) => r.createdAt),
+        requests.map((r) => toJson(r.dependsOn)),
+        requests.map((r) => r.onFailure ?? null),
+        requests.map((r) => r.workflowId ?? null),
+        requests.map((r) => r.step ?? null),
+        requests.map((r) => toJson(r.compensation)),
+        requests.map((r) => r.batchId ?? null),
+        requests.map((r) => r.queue),
+        requests.map((r) => r.orderingKey ?? null),
+        requests.map((r) => r.orderingPolicy ?? null),
+      ]
+    );
+  }
+
   async getRequest(requestId: string): Promise<StoredRequest | null> {
     const result = await this.pool.query<StoredRequest>(
-      'SELECT * FROM requests WHERE id = $1',
+      `SELECT * FROM ${this.tables.requests} WHERE id = $1`,
       [requestId]
     );
 
-    return result.rows[0] ?? null;
+    const row = result.rows[0];
+    return row ? this.open(row) : null;
   }
 
   async updateRequestStatus(
     requestId: string,
     status: RequestStatus,
-    additionalData?: {
-      attempts?: number;
-      lastAttemptAt?: Date;
-      nextRetryAt?: Date;
-      error?: string;
-      response?: QueueResponse;
-      completedAt?: Date;
-    }
+    additionalData?: RequestStatusUpdate
   ): Promise<void> {
     const updates: string[] = ['status = $2'];
     const values: unknown[] = [requestId, status];
@@ -269,13 +437,39 @@ export class PostgresStore {
     }
 
     await this.pool.query(
-      `UPDATE requests SET ${updates.join(', ')} WHERE id = $1`,
+      `UPDATE ${this.tables.requests} SET ${updates.join(', ')} WHERE id = $1`,
       values
     );
   }
 
   async deleteRequest(requestId: string): Promise<void> {
-    await this.pool.query('DELETE FROM requests WHERE id = $1', [requestId]);
+    await this.deleteRequests([requestId]);
+  }
+
+  async promoteScheduled(requestIds: string[]): Promise<void> {
+    if (requestIds.length === 0) return;
+
+    await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET status = 'pending'
+      WHERE id = ANY($1::uuid[]) AND status = 'scheduled'
+      `,
+      [requestIds]
+    );
+  }
+
+  async rescheduleRequest(requestId: string, scheduledFor: Date): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET status = 'scheduled', scheduled_for = $2, next_retry_at = NULL
+      WHERE id = $1 AND status IN ('pending', 'scheduled')
+      `,
+      [requestId, scheduledFor]
+    );
+
+    return (result.rowCount ?? 0) > 0;
   }
 
   // ============================================================================
@@ -285,18 +479,14 @@ export class PostgresStore {
   async logAttempt(
     requestId: string,
     attemptNumber: number,
-    result: {
-      statusCode?: number;
-      durationMs?: number;
-      error?: string;
-      responseHeaders?: Record<string, string>;
-    }
+    result: AttemptResult
   ): Promise<void> {
     await this.pool.query(
       `
-      INSERT INTO request_attempts (
-        request_id, attempt_number, status_code, duration_ms, error, response_headers
-      ) VALUES ($1, $2, $3, $4, $5, $6)
+      INSERT INTO ${this.tables.attempts} (
+        request_id, attempt_number, status_code, duration_ms, error, response_headers,
+        diagnostics
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
       `,
       [
         requestId,
@@ -305,13 +495,14 @@ export class PostgresStore {
         result.durationMs ?? null,
         result.error ?? null,
         result.responseHeaders ? JSON.stringify(result.responseHeaders) : null,
+        result.diagnostics ? JSON.stringify(result.diagnostics) : null,
       ]
     );
   }
 
   async getAttempts(requestId: string): Promise<RequestAttempt[]> {
     const result = await this.pool.query<RequestAttempt>(
-      'SELECT * FROM request_attempts WHERE request_id = $1 ORDER BY attempt_number',
+      `SELECT * FROM ${this.tables.attempts} WHERE request_id = $1 ORDER BY attempt_number`,
       [requestId]
     );
 
@@ -330,7 +521,7 @@ export class PostgresStore {
   ): Promise<StoredRequest[]> {
     const result = await this.pool.query<StoredRequest>(
       `
-      SELECT * FROM requests 
+      SELECT * FROM ${this.tables.requests} 
       WHERE ($1::text IS NULL OR status = $1)
         AND ($4::text IS NULL OR url LIKE '%' || $4 || '%')
       ORDER BY created_at DESC 
@@ -339,18 +530,97 @@ export class PostgresStore {
       [status ?? null, limit, offset, host ?? null]
     );
 
-    return result.rows;
+    return result.rows.map((row) => this.open(row));
   }
 
   async getDeadLetterRequests(limit = 100): Promise<StoredRequest[]> {
     return this.getRequestsByStatus('dead', limit);
   }
 
-  async retryDeadRequest(requestId: string): Promise<void> {
-    await this.pool.query(
+  async getScheduledRequests(limit = 100, offset = 0): Promise<StoredRequest[]> {
+    const result = await this.pool.query<StoredRequest>(
+      `
+      SELECT * FROM ${this.tables.requests}
+      WHERE status = 'scheduled'
+      ORDER BY scheduled_for
+      LIMIT $1 OFFSET $2
+      `,
+      [limit, offset]
+    );
+
+    return result.rows.map((row) => this.open(row));
+  }
+
+  async getActiveRequests(afterId?: string, limit = 500): Promise<StoredRequest[]> {
+    const result = await this.pool.query<StoredRequest>(
+      `
+      SELECT * FROM ${this.tables.requests}
+      WHERE status IN ('pending', 'scheduled', 'processing')
+        AND ($1::uuid IS NULL OR id > $1)
+      ORDER BY id
+      LIMIT $2
+      `,
+      [afterId ?? null, limit]
+    );
+
+    return result.rows.map((row) => this.open(row));
+  }
+
+  async searchRequests(query: RequestSearchQuery): Promise<RequestSearchPage<StoredRequest>> {
+    const search = resolveSearch(query);
+    const column = search.sort === 'updatedAt' ? 'updated_at' : 'created_at';
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const param = (value: unknown) => `$${values.push(value)}`;
+
+    if (search.queue) conditions.push(`queue = ANY(${param(search.queue)})`);
+    if (search.status) conditions.push(`status = ANY(${param(search.status)})`);
+    if (search.method) conditions.push(`method = ANY(${param(search.method)})`);
+    if (search.host) conditions.push(`${URL_HOST_SQL} = lower(${param(search.host)})`);
+    if (search.metadata) conditions.push(`metadata @> ${param(JSON.stringify(search.metadata))}::jsonb`);
+    if (search.created?.from) conditions.push(`created_at >= ${param(search.created.from)}`);
+    if (search.created?.to) conditions.push(`created_at < ${param(search.created.to)}`);
+    if (search.updated?.from) conditions.push(`updated_at >= ${param(search.updated.from)}`);
+    if (search.updated?.to) conditions.push(`updated_at < ${param(search.updated.to)}`);
+    if (search.attempts?.min !== undefined) conditions.push(`attempts >= ${param(search.attempts.min)}`);
+    if (search.attempts?.max !== undefined) conditions.push(`attempts <= ${param(search.attempts.max)}`);
+    if (search.error) conditions.push(`strpos(lower(error), lower(${param(search.error)})) > 0`);
+
+    if (search.after) {
+      const operator = search.order === 'asc' ? '>' : '<';
+      conditions.push(
+        `(${column}, id) ${operator} (${param(search.after.value)}::timestamptz, ${param(search.after.id)}::uuid)`
+      );
+    }
+
+    // The sort value goes into the cursor as text to keep microseconds
+    const result = await this.pool.query<StoredRequest & { sort_value: string }>(
+      `
+      SELECT *, ${column}::text AS sort_value FROM ${this.tables.requests}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${column} ${search.order}, id ${search.order}
+      LIMIT ${param(search.limit + 1)}
+      `,
+      values
+    );
+
+    const rows = result.rows.slice(0, search.limit);
+    const last = rows[rows.length - 1];
+
+    return {
+      items: rows.map(({ sort_value: _, ...row }) => this.open(row)),
+      nextCursor:
+        result.rows.length > search.limit && last
+          ? encodeCursor(search, { value: last.sort_value, id: last.id })
+          : null,
+    };
+  }
+
+  async retryDeadRequest(requestId: string): Promise<boolean> {
+    const result = await this.pool.query(
       `
-      UPDATE requests 
-      SET status = 'pending', 
+      UPDATE ${this.tables.requests} 
+      SET status = CASE WHEN ordering_key IS NULL THEN 'pending' ELSE 'waiting' END,
           attempts = 0, 
           error = NULL, 
           next_retry_at = NULL
@@ -358,28 +628,27 @@ export class PostgresStore {
       `,
       [requestId]
     );
+
+    return (result.rowCount ?? 0) > 0;
   }
 
   // ============================================================================
   // Statistics
   // ============================================================================
 
-  async getStats(): Promise<{
-    pending: number;
-    processing: number;
-    completed: number;
-    failed: number;
-    dead: number;
-    avgProcessingTime: number;
-    successRate: number;
-  }> {
-    const countResult = await this.pool.query<{ status: RequestStatus; count: string }>(`
-      SELECT status, COUNT(*) as count 
-      FROM requests 
+  async getStats(queue?: string): Promise<QueueStats> {
+    const countResult = await this.pool.query<{ status: RequestStatus; count: string }>(
+      `
+      SELECT status, COUNT(*) as count
+      FROM ${this.tables.requests}
+      WHERE $1::varchar IS NULL OR queue = $1
       GROUP BY status
-    `);
+      `,
+      [queue ?? null]
+    );
 
     const counts: Record<RequestStatus, number> = {
+      waiting: 0,
       pending: 0,
       scheduled: 0,
       processing: 0,
@@ -393,16 +662,23 @@ export class PostgresStore {
       counts[row.status] = parseInt(row.count, 10);
     }
 
-    const avgTimeResult = await this.pool.query<{ avg: string | null }>(`
-      SELECT AVG(duration_ms) as avg 
-      FROM request_attempts 
-      WHERE status_code IS NOT NULL
-    `);
+    const avgTimeResult = await this.pool.query<{ avg: string | null }>(
+      queue === undefined
+        ? `SELECT AVG(duration_ms) as avg FROM ${this.tables.attempts} WHERE status_code IS NOT NULL`
+        : `
+          SELECT AVG(a.duration_ms) as avg
+          FROM ${this.tables.attempts} a
+          JOIN ${this.tables.requests} r ON r.id = a.request_id
+          WHERE a.status_code IS NOT NULL AND r.queue = $1
+          `,
+      queue === undefined ? [] : [queue]
+    );
 
     const total = counts.completed + counts.failed + counts.dead;
     const successRate = total > 0 ? counts.completed / total : 0;
 
     return {
+      waiting: counts.waiting,
       pending: counts.pending + counts.scheduled,
       processing: counts.processing,
       completed: counts.completed,
@@ -418,31 +694,639 @@ export class PostgresStore {
   // ============================================================================
 
   async cleanupCompleted(olderThanDays: number): Promise<number> {
-    const result = await this.pool.query(
+    return this.deleteWhere(
+      `status = 'completed' AND completed_at < NOW() - INTERVAL '1 day' * $1`,
+      [olderThanDays]
+    );
+  }
+
+  async cleanupDead(olderThanDays: number): Promise<number> {
+    return this.deleteWhere(
+      `status = 'dead' AND updated_at < NOW() - INTERVAL '1 day' * $1`,
+      [olderThanDays]
+    );
+  }
+
+  async getExpiredRequests(
+    status: FinishedStatus,
+    olderThan: Date,
+    limit: number
+  ): Promise<RequestWithAttempts[]> {
+    const result = await this.pool.query<StoredRequest>(
       `
-      DELETE FROM requests 
-      WHERE status = 'completed' 
-        AND completed_at < NOW() - INTERVAL '1 day' * $1
+      SELECT * FROM ${this.tables.requests}
+      WHERE status = $1 AND COALESCE(completed_at, updated_at) < $2
+      ORDER BY updated_at
+      LIMIT $3
       `,
-      [olderThanDays]
+      [status, olderThan, limit]
+    );
+
+    if (result.rows.length === 0) return [];
+
+    const attempts = await this.pool.query<RequestAttempt>(
+      `
+      SELECT * FROM ${this.tables.attempts}
+      WHERE request_id = ANY($1::uuid[])
+      ORDER BY attempt_number
+      `,
+      [result.rows.map((row) => row.id)]
+    );
+
+    // Rows are returned as stored, so archives keep headers and bodies encrypted
+    return result.rows.map((row) => ({
+      ...row,
+      attempt_log: attempts.rows.filter((attempt) => attempt.request_id === row.id),
+    }));
+  }
+
+  async deleteRequests(requestIds: string[], archive = false): Promise<number> {
+    if (requestIds.length === 0) return 0;
+
+    const deleted = archive
+      ? await this.archiveRequests(requestIds)
+      : await this.deleteWhere('id = ANY($1::uuid[])', [requestIds]);
+
+    // A deleted request no longer holds its idempotency key
+    await this.pool.query(
+      `DELETE FROM ${this.tables.idempotencyKeys} WHERE request_id = ANY($1::uuid[])`,
+      [requestIds]
+    );
+
+    return deleted;
+  }
+
+  private async archiveRequests(requestIds: string[]): Promise<number> {
+    // Delete and archive in one statement so a row is never lost in between
+    const result = await this.pool.query<{ count: string }>(
+      `
+      WITH deleted AS (
+        DELETE FROM ${this.tables.requests}
+        WHERE id = ANY($1::uuid[])
+        RETURNING *
+      ),
+      archived AS (
+        INSERT INTO ${this.tables.archive} (id, status, request, attempts, created_at, finished_at)
+        SELECT
+          d.id,
+          d.status,
+          to_jsonb(d),
+          COALESCE(
+            (
+              SELECT jsonb_agg(to_jsonb(a) ORDER BY a.attempt_number)
+              FROM ${this.tables.attempts} a
+              WHERE a.request_id = d.id
+            ),
+            '[]'::jsonb
+          ),
+          d.created_at,
+          COALESCE(d.completed_at, d.updated_at)
+        FROM deleted d
+        ON CONFLICT (id) DO NOTHING
+      )${this.deleteAttemptsStep()}
+      SELECT COUNT(*) AS count FROM deleted
+      `,
+      [requestIds]
     );
 
+    return parseInt(result.rows[0]?.count ?? '0', 10);
+  }
+
+  async purgeIdempotencyKeys(): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM ${this.tables.idempotencyKeys} WHERE expires_at <= NOW()`
+    );
     return result.rowCount ?? 0;
   }
 
-  async cleanupDead(olderThanDays: number): Promise<number> {
+  /**
+   * Deletes matching requests and their attempts, returning the number of
+   * requests deleted.
+   */
+  private async deleteWhere(where: string, values: unknown[]): Promise<number> {
+    if (!this.tables.partitioned) {
+      const result = await this.pool.query(
+        `DELETE FROM ${this.tables.requests} WHERE ${where}`,
+        values
+      );
+
+      return result.rowCount ?? 0;
+    }
+
+    const result = await this.pool.query<{ count: string }>(
+      `
+      WITH deleted AS (
+        DELETE FROM ${this.tables.requests}
+        WHERE ${where}
+        RETURNING id
+      )${this.deleteAttemptsStep()}
+      SELECT COUNT(*) AS count FROM deleted
+      `,
+      values
+    );
+
+    return parseInt(result.rows[0]?.count ?? '0', 10);
+  }
+
+  // Partitioned attempts have no foreign key, so nothing cascades; remove
+  // them alongside the `deleted` CTE instead
+  private deleteAttemptsStep(): string {
+    if (!this.tables.partitioned) return '';
+
+    return `,
+      deleted_attempts AS (
+        DELETE FROM ${this.tables.attempts}
+        WHERE request_id IN (SELECT id FROM deleted)
+      )`;
+  }
+
+  // ============================================================================
+  // Dependencies
+  // ============================================================================
+
+  async getDependents(requestId: string): Promise<StoredRequest[]> {
+    const result = await this.pool.query<StoredRequest>(
+      `
+      SELECT * FROM ${this.tables.requests}
+      WHERE status = 'waiting' AND depends_on @> $1::jsonb
+      ORDER BY id
+      `,
+      [JSON.stringify([requestId])]
+    );
+
+    return result.rows.map((row) => this.open(row));
+  }
+
+  async getWaitingRequests(afterId?: string, limit = 500): Promise<StoredRequest[]> {
+    const result = await this.pool.query<StoredRequest>(
+      `
+      SELECT * FROM ${this.tables.requests}
+      WHERE status = 'waiting' AND ordering_key IS NULL AND ($1::uuid IS NULL OR id > $1)
+      ORDER BY id
+      LIMIT $2
+      `,
+      [afterId ?? null, limit]
+    );
+
+    return result.rows.map((row) => this.open(row));
+  }
+
+  async getWorkflowRequests(workflowId: string): Promise<StoredRequest[]> {
+    const result = await this.pool.query<StoredRequest>(
+      `
+      SELECT * FROM ${this.tables.requests}
+      WHERE workflow_id = $1
+      ORDER BY created_at, id
+      `,
+      [workflowId]
+    );
+
+    return result.rows.map((row) => this.open(row));
+  }
+
+  async releaseRequest(
+    requestId: string,
+    rendered: Pick<QueueRequest, 'url' | 'headers' | 'body'>
+  ): Promise<boolean> {
+    const fields = this.encryptor ? this.encryptor.seal({ id: requestId, ...rendered }) : rendered;
+
     const result = await this.pool.query(
       `
-      DELETE FROM requests 
-      WHERE status = 'dead' 
-        AND updated_at < NOW() - INTERVAL '1 day' * $1
+      UPDATE ${this.tables.requests}
+      SET status = CASE WHEN scheduled_for > NOW() THEN 'scheduled' ELSE 'pending' END,
+          url = $2, headers = $3, body = $4
+      WHERE id = $1 AND status = 'waiting'
       `,
-      [olderThanDays]
+      [requestId, fields.url, toJson(fields.headers), toJson(fields.body)]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async cancelWaiting(requestId: string, error?: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET status = 'cancelled', error = COALESCE($2, error)
+      WHERE id = $1 AND status = 'waiting'
+      `,
+      [requestId, error ?? null]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // ============================================================================
+  // Ordering
+  // ============================================================================
+
+  async releaseOrderingHead(orderingKey: string): Promise<StoredRequest | null> {
+    return this.withTransaction(async (client) => {
+      // Releases of a key run one after another, each seeing the rows the
+      // previous one committed
+      await client.query('SELECT pg_advisory_xact_lock($1, hashtext($2))', [
+        ORDERING_LOCK_CLASS,
+        orderingKey,
+      ]);
+
+      const result = await client.query<StoredRequest>(
+        `
+        UPDATE ${this.tables.requests}
+        SET status = CASE WHEN scheduled_for > NOW() THEN 'scheduled' ELSE 'pending' END
+        WHERE id = (
+          SELECT id FROM ${this.tables.requests}
+          WHERE ordering_key = $1 AND status = 'waiting'
+          ORDER BY ordering_seq
+          LIMIT 1
+        )
+        AND status = 'waiting'
+        AND NOT EXISTS (
+          SELECT 1 FROM ${this.tables.requests}
+          WHERE ordering_key = $1
+            AND (status IN ('pending', 'scheduled', 'processing')
+              OR (status = 'dead' AND ordering_policy = 'block'))
+        )
+        RETURNING *
+        `,
+        [orderingKey]
+      );
+
+      const row = result.rows[0];
+      return row ? this.open(row) : null;
+    });
+  }
+
+  async getHeldOrderingKeys(afterKey?: string, limit = 500): Promise<string[]> {
+    const result = await this.pool.query<{ ordering_key: string }>(
+      `
+      SELECT DISTINCT ordering_key FROM ${this.tables.requests}
+      WHERE status = 'waiting' AND ordering_key IS NOT NULL
+        AND ($1::varchar IS NULL OR ordering_key > $1)
+      ORDER BY ordering_key
+      LIMIT $2
+      `,
+      [afterKey ?? null, limit]
+    );
+
+    return result.rows.map((row) => row.ordering_key);
+  }
+
+  async unblockOrderingKey(orderingKey: string): Promise<number> {
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.requests}
+      SET ordering_policy = 'skip'
+      WHERE ordering_key = $1 AND status = 'dead' AND ordering_policy = 'block'
+      `,
+      [orderingKey]
     );
 
     return result.rowCount ?? 0;
   }
 
+  // ============================================================================
+  // Batches
+  // ============================================================================
+
+  async getBatch(batchId: string): Promise<StoredBatch | null> {
+    const result = await this.pool.query<StoredBatch>(
+      `SELECT * FROM ${this.tables.batches} WHERE id = $1`,
+      [batchId]
+    );
+
+    return result.rows[0] ?? null;
+  }
+
+  async getBatchRequests(batchId: string, afterId?: string, limit = 500): Promise<StoredRequest[]> {
+    const result = await this.pool.query<StoredRequest>(
+      `
+      SELECT * FROM ${this.tables.requests}
+      WHERE batch_id = $1
+        AND status NOT IN ('completed', 'dead', 'cancelled')
+        AND ($2::uuid IS NULL OR id > $2)
+      ORDER BY id
+      LIMIT $3
+      `,
+      [batchId, afterId ?? null, limit]
+    );
+
+    return result.rows.map((row) => this.open(row));
+  }
+
+  async completeBatch(batchId: string): Promise<StoredBatch | null> {
+    // The row lock makes concurrent callers re-check the condition, so only
+    // the first of them gets the row back
+    const result = await this.pool.query<StoredBatch>(
+      `
+      UPDATE ${this.tables.batches}
+      SET completed_at = NOW()
+      WHERE id = $1 AND completed_at IS NULL AND completed + dead + cancelled >= total
+      RETURNING *
+      `,
+      [batchId]
+    );
+
+    return result.rows[0] ?? null;
+  }
+
+  async completeFinishedBatches(limit: number): Promise<StoredBatch[]> {
+    const result = await this.pool.query<StoredBatch>(
+      `
+      UPDATE ${this.tables.batches}
+      SET completed_at = NOW()
+      WHERE id IN (
+        SELECT id FROM ${this.tables.batches}
+        WHERE completed_at IS NULL AND completed + dead + cancelled >= total
+        ORDER BY created_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+      `,
+      [limit]
+    );
+
+    return result.rows;
+  }
+
+  async reopenBatch(batchId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE ${this.tables.batches} SET completed_at = NULL WHERE id = $1`,
+      [batchId]
+    );
+  }
+
+  // ============================================================================
+  // Schedules
+  // ============================================================================
+
+  async saveSchedule(schedule: StoredSchedule): Promise<void> {
+    const { request, headers, body } = this.sealSchedule(schedule);
+
+    await this.pool.query(
+      `
+      INSERT INTO ${this.tables.schedules} (
+        id, name, cron, timezone, request, headers, body, overlap, paused,
+        next_run_at, last_run_at, last_request_id, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      `,
+      [
+        schedule.id,
+        schedule.name,
+        schedule.cron,
+        schedule.timezone,
+        request,
+        headers,
+        body,
+        schedule.overlap,
+        schedule.paused,
+        schedule.next_run_at,
+        schedule.last_run_at,
+        schedule.last_request_id,
+        schedule.created_at,
+        schedule.updated_at,
+      ]
+    );
+  }
+
+  async getSchedule(scheduleId: string): Promise<StoredSchedule | null> {
+    const result = await this.pool.query<ScheduleRow>(
+      `SELECT * FROM ${this.tables.schedules} WHERE id = $1`,
+      [scheduleId]
+    );
+
+    return result.rows[0] ? this.openSchedule(result.rows[0]) : null;
+  }
+
+  async listSchedules(): Promise<StoredSchedule[]> {
+    const result = await this.pool.query<ScheduleRow>(
+      `SELECT * FROM ${this.tables.schedules} ORDER BY created_at, id`
+    );
+
+    return result.rows.map((row) => this.openSchedule(row));
+  }
+
+  async updateSchedule(schedule: StoredSchedule): Promise<boolean> {
+    const { request, headers, body } = this.sealSchedule(schedule);
+
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.schedules}
+      SET name = $2, cron = $3, timezone = $4, request = $5, headers = $6, body = $7,
+          overlap = $8, paused = $9, next_run_at = $10, updated_at = NOW()
+      WHERE id = $1
+      `,
+      [
+        schedule.id,
+        schedule.name,
+        schedule.cron,
+        schedule.timezone,
+        request,
+        headers,
+        body,
+        schedule.overlap,
+        schedule.paused,
+        schedule.next_run_at,
+      ]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    const result = await this.pool.query(`DELETE FROM ${this.tables.schedules} WHERE id = $1`, [
+      scheduleId,
+    ]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getDueSchedules(now: Date, limit: number): Promise<StoredSchedule[]> {
+    const result = await this.pool.query<ScheduleRow>(
+      `
+      SELECT * FROM ${this.tables.schedules}
+      WHERE NOT paused AND next_run_at <= $1
+      ORDER BY next_run_at
+      LIMIT $2
+      `,
+      [now, limit]
+    );
+
+    return result.rows.map((row) => this.openSchedule(row));
+  }
+
+  async advanceSchedule(
+    scheduleId: string,
+    runAt: Date,
+    nextRunAt: Date,
+    requestId: string | null
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+      UPDATE ${this.tables.schedules}
+      SET next_run_at = $3, last_run_at = $2,
+          last_request_id = COALESCE($4, last_request_id), updated_at = NOW()
+      WHERE id = $1 AND next_run_at = $2 AND NOT paused
+      `,
+      [scheduleId, runAt, nextRunAt, requestId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Splits a schedule's request into the columns it is stored in, with the
+   * headers and body encrypted like a request's.
+   */
+  private sealSchedule(schedule: StoredSchedule): {
+    request: string;
+    headers: string | null;
+    body: string | null;
+  } {
+    const { headers, body, ...request } = schedule.request;
+    const fields = { id: schedule.id, headers, body };
+    const sealed = this.encryptor ? this.encryptor.seal(fields) : fields;
+
+    return { request: JSON.stringify(request), headers: toJson(sealed.headers), body: toJson(sealed.body) };
+  }
+
+  private openSchedule(row: ScheduleRow): StoredSchedule {
+    const { headers, body, ...schedule } = this.encryptor ? this.encryptor.open(row) : row;
+
+    return {
+      ...schedule,
+      request: {
+        ...schedule.request,
+        ...(headers !== null && { headers }),
+        ...(body !== null && { body }),
+      },
+    };
+  }
+
+  // ============================================================================
+  // Transactional Outbox
+  // ============================================================================
+
+  async relayOutbox(
+    limit: number,
+    publish: (rows: StoredRequest[]) => Promise<void>
+  ): Promise<number> {
+    return this.withTransaction(async (client) => {
+      const entries = await client.query<{ request_id: string }>(
+        `
+        SELECT request_id FROM ${this.tables.outbox}
+        ORDER BY created_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+        `,
+        [limit]
+      );
+      if (entries.rows.length === 0) return 0;
+
+      const ids = entries.rows.map((entry) => entry.request_id);
+
+      // Rows cancelled or deleted since they were committed are only dropped
+      const result = await client.query<StoredRequest>(
+        `
+        SELECT * FROM ${this.tables.requests}
+        WHERE id = ANY($1)
+          AND (status IN ('pending', 'scheduled') OR (status = 'waiting' AND ordering_key IS NOT NULL))
+        ORDER BY created_at
+        `,
+        [ids]
+      );
+
+      await publish(result.rows.map((row) => this.open(row)));
+      await client.query(`DELETE FROM ${this.tables.outbox} WHERE request_id = ANY($1)`, [ids]);
+
+      return ids.length;
+    });
+  }
+
+  // ============================================================================
+  // Encryption
+  // ============================================================================
+
+  async reencrypt(): Promise<number> {
+    if (!this.encryptor) return 0;
+
+    let rewritten = 0;
+    let afterId: string | null = null;
+
+    while (true) {
+      const result: { rows: StoredRequest[] } = await this.pool.query<StoredRequest>(
+        `
+        SELECT id, headers, body, compensation FROM ${this.tables.requests}
+        WHERE ($1::uuid IS NULL OR id > $1)
+        ORDER BY id
+        LIMIT 500
+        `,
+        [afterId]
+      );
+      if (result.rows.length === 0) break;
+
+      for (const row of result.rows) {
+        if (!this.encryptor.needsRotation(row)) continue;
+
+        const sealed = this.encryptor.seal(this.encryptor.open(row));
+
+        // Skip rows rewritten since they were read; they use the active key
+        const update = await this.pool.query(
+          `
+          UPDATE ${this.tables.requests} SET headers = $2, body = $3, compensation = $4
+          WHERE id = $1
+            AND headers IS NOT DISTINCT FROM $5::jsonb
+            AND body IS NOT DISTINCT FROM $6::jsonb
+            AND compensation IS NOT DISTINCT FROM $7::jsonb
+          `,
+          [
+            row.id,
+            toJson(sealed.headers),
+            toJson(sealed.body),
+            toJson(sealed.compensation),
+            toJson(row.headers),
+            toJson(row.body),
+            toJson(row.compensation),
+          ]
+        );
+        rewritten += update.rowCount ?? 0;
+      }
+
+      afterId = result.rows[result.rows.length - 1]!.id;
+    }
+
+    return rewritten + (await this.reencryptSchedules());
+  }
+
+  private async reencryptSchedules(): Promise<number> {
+    const result = await this.pool.query<ScheduleRow>(
+      `SELECT id, headers, body FROM ${this.tables.schedules}`
+    );
+    let rewritten = 0;
+
+    for (const row of result.rows) {
+      if (!this.encryptor!.needsRotation(row)) continue;
+
+      const sealed = this.encryptor!.seal(this.encryptor!.open(row));
+      const update = await this.pool.query(
+        `
+        UPDATE ${this.tables.schedules} SET headers = $2, body = $3
+        WHERE id = $1
+          AND headers IS NOT DISTINCT FROM $4::jsonb
+          AND body IS NOT DISTINCT FROM $5::jsonb
+        `,
+        [row.id, toJson(sealed.headers), toJson(sealed.body), toJson(row.headers), toJson(row.body)]
+      );
+      rewritten += update.rowCount ?? 0;
+    }
+
+    return rewritten;
+  }
+
+  private open<T extends StoredRequest>(row: T): T {
+    return this.encryptor ? this.encryptor.open(row) : row;
+  }
+
   // ============================================================================
   // Transaction Support
   // ============================================================================
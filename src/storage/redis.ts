@@ -1,43 +1,175 @@
-import Redis from 'ioredis';
-import { REDIS_KEYS } from '../config';
-import type { QueueRequest, QueueManagerConfig, CircuitBreakerState } from '../types';
+import Redis, { Cluster } from 'ioredis';
+import { REDIS_KEYS, DEFAULT_QUEUE, DEFAULT_RECOVERY_CONFIG, redisKeyPrefixes } from '../config';
+import type {
+  QueueRequest,
+  QueueManagerConfig,
+  QueueBackend,
+  QueueChannel,
+  CircuitBreakerState,
+  StoredCircuitBreakerState,
+  CircuitBreakerUpdate,
+  QueueSnapshot,
+  EncryptionConfig,
+} from '../types';
+import { FieldEncryptor } from '../core/encryption';
+
+// ============================================================================
+// Lua Scripts
+// ============================================================================
+
+// Pops the highest-priority request straight into processing, scored by
+// lease expiry, so a crash can never drop it between the two sets
+const DEQUEUE_SCRIPT = `
+  local popped = redis.call('ZPOPMIN', KEYS[1])
+  local id = popped[1]
+  if not id then
+    return nil
+  end
+  redis.call('ZADD', KEYS[2], ARGV[1], id)
+  if ARGV[2] ~= '' then
+    redis.call('HSET', KEYS[3], id, ARGV[2])
+  end
+  return id
+`;
+
+const EXTEND_LEASE_SCRIPT = `
+  if redis.call('HGET', KEYS[2], ARGV[1]) ~= ARGV[2] then
+    return 0
+  end
+  redis.call('ZADD', KEYS[1], 'XX', ARGV[3], ARGV[1])
+  return 1
+`;
+
+// Promotes due scheduled requests back into the queue at their own priority.
+// Payload keys (KEYS[3..]) are passed in rather than built from ids, so every
+// key the script touches is declared, as Redis Cluster requires
+const PROMOTE_SCRIPT = `
+  local offset = tonumber(ARGV[2])
+  local promoted = {}
+  for i = 3, #KEYS do
+    local id = string.sub(KEYS[i], offset + 1)
+    local score = redis.call('ZSCORE', KEYS[1], id)
+    if score and tonumber(score) <= tonumber(ARGV[1]) then
+      local priority = 50
+      local data = redis.call('GET', KEYS[i])
+      if data then
+        local ok, request = pcall(cjson.decode, data)
+        if ok and tonumber(request.priority) then
+          priority = tonumber(request.priority)
+        end
+      end
+      redis.call('ZREM', KEYS[1], id)
+      redis.call('ZADD', KEYS[2], 100 - priority, id)
+      table.insert(promoted, id)
+    end
+  end
+  return promoted
+`;
+
+const RESCHEDULE_SCRIPT = `
+  local queued = redis.call('ZREM', KEYS[1], ARGV[1])
+  if queued == 0 and not redis.call('ZSCORE', KEYS[2], ARGV[1]) then
+    return 0
+  end
+  redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+  return 1
+`;
+
+// Deletes request payloads (KEYS[4..]) whose id is in none of the queue sets
+const PURGE_PAYLOADS_SCRIPT = `
+  local offset = tonumber(ARGV[1])
+  local purged = 0
+  for i = 4, #KEYS do
+    local id = string.sub(KEYS[i], offset + 1)
+    if not redis.call('ZSCORE', KEYS[1], id)
+      and not redis.call('ZSCORE', KEYS[2], id)
+      and not redis.call('ZSCORE', KEYS[3], id) then
+      purged = purged + redis.call('DEL', KEYS[i])
+    end
+  end
+  return purged
+`;
+
+// Removes a request from processing (optionally only for its owner) and,
+// when a destination set is given, adds it there in the same step
+const RELEASE_SCRIPT = `
+  if ARGV[2] ~= '' and redis.call('HGET', KEYS[2], ARGV[1]) ~= ARGV[2] then
+    return 0
+  end
+  redis.call('ZREM', KEYS[1], ARGV[1])
+  redis.call('HDEL', KEYS[2], ARGV[1])
+  if KEYS[3] then
+    redis.call('ZADD', KEYS[3], ARGV[3], ARGV[1])
+  end
+  return 1
+`;
+
+// Runs SCAN on whichever node owns KEYS[1]. In cluster mode a queue's keys
+// share that slot, so this reaches all of the queue's payloads without
+// visiting each node
+const SCAN_SCRIPT = `
+  return redis.call('SCAN', ARGV[1], 'MATCH', ARGV[2], 'COUNT', ARGV[3])
+`;
+
+// Replaces a payload only if it still holds the value that was read
+const COMPARE_AND_SET_SCRIPT = `
+  if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+    return 0
+  end
+  redis.call('SET', KEYS[1], ARGV[2])
+  return 1
+`;
+
+// Requests per MULTI block in enqueueMany
+const ENQUEUE_BATCH_SIZE = 500;
 
 // ============================================================================
 // Redis Store Class
 // ============================================================================
 
-export class RedisStore {
-  private client: Redis;
-  private subscriber: Redis;
-  private publisher: Redis;
+export class RedisStore implements QueueBackend {
+  private client: Redis | Cluster;
+  private subscriber: Redis | Cluster;
+  private publisher: Redis | Cluster;
   private keyPrefix: string;
-
-  constructor(config: QueueManagerConfig['redis']) {
-    const options = config.url
-      ? { lazyConnect: true }
-      : {
-          host: config.host ?? 'localhost',
-          port: config.port ?? 6379,
-          password: config.password,
-          db: config.db ?? 0,
-          lazyConnect: true,
-        };
+  private cluster: boolean;
+  // Prefixes of this queue's keys and of the keys all queues share
+  private queuePrefix: string;
+  private sharedPrefix: string;
+  private queues = new Map<string, RedisStore>();
+  private listeners: ((channel: string, message: string) => void)[] = [];
+  private channels = new Set<string>();
+  private encryptor: FieldEncryptor | null;
+
+  constructor(config: QueueManagerConfig['redis'] = {}, encryption?: EncryptionConfig) {
+    if (config.cluster && config.sentinel) {
+      throw new Error('Redis cluster and sentinel options cannot be combined');
+    }
 
     this.keyPrefix = config.keyPrefix ?? 'hqm:';
-
-    if (config.url) {
-      this.client = new Redis(config.url, options);
-      this.subscriber = new Redis(config.url, options);
-      this.publisher = new Redis(config.url, options);
-    } else {
-      this.client = new Redis(options);
-      this.subscriber = new Redis(options);
-      this.publisher = new Redis(options);
-    }
+    this.cluster = !!config.cluster;
+    const prefixes = redisKeyPrefixes(this.keyPrefix, DEFAULT_QUEUE, this.cluster);
+    this.queuePrefix = prefixes.queue;
+    this.sharedPrefix = prefixes.shared;
+    this.queues.set(DEFAULT_QUEUE, this);
+    this.encryptor = encryption ? new FieldEncryptor(encryption) : null;
+
+    this.client = createClient(config);
+    this.subscriber = createClient(config);
+    this.publisher = createClient(config);
   }
 
   private key(name: string): string {
-    return `${this.keyPrefix}${name}`;
+    return `${this.queuePrefix}${name}`;
+  }
+
+  // Locks and heartbeats are shared by all queues
+  private sharedKey(name: string): string {
+    return `${this.sharedPrefix}${name}`;
+  }
+
+  private serialize(request: QueueRequest): string {
+    return JSON.stringify(this.encryptor ? this.encryptor.seal(request) : request);
   }
 
   // ============================================================================
@@ -69,53 +201,104 @@ export class RedisStore {
     }
   }
 
+  // ============================================================================
+  // Named Queues
+  // ============================================================================
+
+  forQueue(name: string): QueueBackend {
+    let backend = this.queues.get(name);
+
+    if (!backend) {
+      // Shares the connections; only the key prefix and subscriptions differ
+      backend = Object.create(RedisStore.prototype) as RedisStore;
+      Object.assign(backend, this, {
+        queuePrefix: redisKeyPrefixes(this.keyPrefix, name, this.cluster).queue,
+        listeners: [],
+        channels: new Set<string>(),
+      });
+      this.queues.set(name, backend);
+    }
+
+    return backend;
+  }
+
   // ============================================================================
   // Queue Operations
   // ============================================================================
 
   async enqueue(request: QueueRequest): Promise<number> {
-    const serialized = JSON.stringify(request);
-    
-    // Store request data
-    await this.client.set(
-      this.key(`${REDIS_KEYS.REQUEST_PREFIX}${request.id}`),
-      serialized
-    );
+    // Write the payload and queue entry together so neither exists alone
+    const transaction = this.client
+      .multi()
+      .set(this.key(`${REDIS_KEYS.REQUEST_PREFIX}${request.id}`), this.serialize(request));
+
+    // Delayed requests wait in the scheduled set until they are due
+    if (request.scheduledFor) {
+      transaction.zadd(
+        this.key(REDIS_KEYS.SCHEDULED),
+        request.scheduledFor.getTime(),
+        request.id
+      );
+    } else {
+      // Add to priority queue (sorted set with priority as score)
+      transaction.zadd(
+        this.key(REDIS_KEYS.QUEUE),
+        100 - request.priority, // Lower score = higher priority
+        request.id
+      );
+    }
 
-    // Add to priority queue (sorted set with priority as score)
-    const position = await this.client.zadd(
-      this.key(REDIS_KEYS.QUEUE),
-      100 - request.priority, // Lower score = higher priority
-      request.id
-    );
+    const results = await transaction.exec();
+    const position = (results?.[1]?.[1] as number | undefined) ?? 0;
 
-    // Publish new request event for push-based workers
-    await this.publisher.publish(
-      this.key(REDIS_KEYS.CHANNEL_NEW_REQUEST),
-      request.id
-    );
+    if (request.scheduledFor) {
+      await this.publisher.publish(
+        this.key(REDIS_KEYS.CHANNEL_RETRY),
+        JSON.stringify({ requestId: request.id, retryAt: request.scheduledFor.toISOString() })
+      );
+    } else {
+      // Publish new request event for push-based workers
+      await this.publisher.publish(
+        this.key(REDIS_KEYS.CHANNEL_NEW_REQUEST),
+        request.id
+      );
+    }
 
     return position;
   }
 
   async enqueueMany(requests: QueueRequest[]): Promise<void> {
-    const pipeline = this.client.pipeline();
+    if (requests.length === 0) return;
+
+    // Bounded MULTI blocks keep a huge batch from stalling Redis or buffering
+    // every command client-side
+    for (let i = 0; i < requests.length; i += ENQUEUE_BATCH_SIZE) {
+      const transaction = this.client.multi();
+
+      for (const request of requests.slice(i, i + ENQUEUE_BATCH_SIZE)) {
+        transaction.set(
+          this.key(`${REDIS_KEYS.REQUEST_PREFIX}${request.id}`),
+          this.serialize(request)
+        );
+
+        if (request.scheduledFor) {
+          transaction.zadd(
+            this.key(REDIS_KEYS.SCHEDULED),
+            request.scheduledFor.getTime(),
+            request.id
+          );
+        } else {
+          transaction.zadd(
+            this.key(REDIS_KEYS.QUEUE),
+            100 - request.priority,
+            request.id
+          );
+        }
+      }
 
-    for (const request of requests) {
-      const serialized = JSON.stringify(request);
-      pipeline.set(
-        this.key(`${REDIS_KEYS.REQUEST_PREFIX}${request.id}`),
-        serialized
-      );
-      pipeline.zadd(
-        this.key(REDIS_KEYS.QUEUE),
-        100 - request.priority,
-        request.id
-      );
+      await transaction.exec();
     }
 
-    await pipeline.exec();
-
     // Publish batch notification
     await this.publisher.publish(
       this.key(REDIS_KEYS.CHANNEL_NEW_REQUEST),
@@ -123,69 +306,74 @@ export class RedisStore {
     );
   }
 
-  async dequeue(): Promise<QueueRequest | null> {
-    // Atomically pop from queue and add to processing set
-    const result = await this.client.zpopmin(this.key(REDIS_KEYS.QUEUE));
-    
-    if (!result || result.length === 0) {
-      return null;
-    }
+  async dequeue(
+    ownerId?: string,
+    leaseMs: number = DEFAULT_RECOVERY_CONFIG.leaseTimeout
+  ): Promise<QueueRequest | null> {
+    const requestId = await this.client.eval(
+      DEQUEUE_SCRIPT,
+      3,
+      this.key(REDIS_KEYS.QUEUE),
+      this.key(REDIS_KEYS.PROCESSING),
+      this.key(REDIS_KEYS.PROCESSING_OWNERS),
+      Date.now() + leaseMs,
+      ownerId ?? ''
+    ) as string | null;
 
-    const requestId = result[0];
     if (!requestId) return null;
 
-    // Add to processing set with timestamp
-    await this.client.zadd(
-      this.key(REDIS_KEYS.PROCESSING),
-      Date.now(),
-      requestId
-    );
-
     return this.getRequest(requestId);
   }
 
-  async scheduleRetry(requestId: string, retryAt: Date): Promise<void> {
-    // Remove from processing
-    await this.client.zrem(this.key(REDIS_KEYS.PROCESSING), requestId);
+  async extendLease(requestId: string, ownerId: string, leaseMs: number): Promise<boolean> {
+    const result = await this.client.eval(
+      EXTEND_LEASE_SCRIPT,
+      2,
+      this.key(REDIS_KEYS.PROCESSING),
+      this.key(REDIS_KEYS.PROCESSING_OWNERS),
+      requestId,
+      ownerId,
+      Date.now() + leaseMs
+    ) as number;
 
-    // Add to scheduled set
-    await this.client.zadd(
-      this.key(REDIS_KEYS.SCHEDULED),
-      retryAt.getTime(),
-      requestId
+    return result === 1;
+  }
+
+  async scheduleRetry(requestId: string, retryAt: Date, ownerId?: string): Promise<boolean> {
+    // Move from processing to the scheduled set
+    const released = await this.releaseProcessing(
+      requestId,
+      ownerId,
+      REDIS_KEYS.SCHEDULED,
+      retryAt.getTime()
     );
+    if (!released) return false;
 
     // Publish retry event
     await this.publisher.publish(
       this.key(REDIS_KEYS.CHANNEL_RETRY),
       JSON.stringify({ requestId, retryAt: retryAt.toISOString() })
     );
+
+    return true;
   }
 
   async promoteScheduledRequests(): Promise<string[]> {
+    // Move due requests back into the queue at their original priority
     const now = Date.now();
-    
-    // Get all requests that are due
-    const dueRequests = await this.client.zrangebyscore(
-      this.key(REDIS_KEYS.SCHEDULED),
-      '-inf',
-      now
-    );
-
-    if (dueRequests.length === 0) {
-      return [];
-    }
+    const due = await this.client.zrangebyscore(this.key(REDIS_KEYS.SCHEDULED), '-inf', now);
+    if (due.length === 0) return [];
 
-    const pipeline = this.client.pipeline();
-
-    for (const requestId of dueRequests) {
-      // Remove from scheduled
-      pipeline.zrem(this.key(REDIS_KEYS.SCHEDULED), requestId);
-      // Add back to queue with high priority (50)
-      pipeline.zadd(this.key(REDIS_KEYS.QUEUE), 50, requestId);
-    }
-
-    await pipeline.exec();
+    const prefix = this.key(REDIS_KEYS.REQUEST_PREFIX);
+    const dueRequests = await this.client.eval(
+      PROMOTE_SCRIPT,
+      2 + due.length,
+      this.key(REDIS_KEYS.SCHEDULED),
+      this.key(REDIS_KEYS.QUEUE),
+      ...due.map((id) => `${prefix}${id}`),
+      now,
+      prefix.length
+    ) as string[];
 
     // Publish events for promoted requests
     if (dueRequests.length > 0) {
@@ -198,17 +386,60 @@ export class RedisStore {
     return dueRequests;
   }
 
-  async markComplete(requestId: string): Promise<void> {
-    await this.client.zrem(this.key(REDIS_KEYS.PROCESSING), requestId);
-  }
+  async reschedule(requestId: string, scheduledFor: Date): Promise<boolean> {
+    const result = await this.client.eval(
+      RESCHEDULE_SCRIPT,
+      2,
+      this.key(REDIS_KEYS.QUEUE),
+      this.key(REDIS_KEYS.SCHEDULED),
+      requestId,
+      scheduledFor.getTime()
+    ) as number;
+
+    if (result !== 1) return false;
 
-  async moveToDead(requestId: string): Promise<void> {
-    await this.client.zrem(this.key(REDIS_KEYS.PROCESSING), requestId);
-    await this.client.zadd(
-      this.key(REDIS_KEYS.DEAD_LETTER),
-      Date.now(),
-      requestId
+    const request = await this.getRequest(requestId);
+    if (request) {
+      await this.updateRequest({ ...request, scheduledFor });
+    }
+
+    await this.publisher.publish(
+      this.key(REDIS_KEYS.CHANNEL_RETRY),
+      JSON.stringify({ requestId, retryAt: scheduledFor.toISOString() })
     );
+
+    return true;
+  }
+
+  async markComplete(requestId: string, ownerId?: string): Promise<boolean> {
+    return this.releaseProcessing(requestId, ownerId);
+  }
+
+  async moveToDead(requestId: string, ownerId?: string): Promise<boolean> {
+    return this.releaseProcessing(requestId, ownerId, REDIS_KEYS.DEAD_LETTER, Date.now());
+  }
+
+  private async releaseProcessing(
+    requestId: string,
+    ownerId?: string,
+    destination?: string,
+    score?: number
+  ): Promise<boolean> {
+    const keys = [this.key(REDIS_KEYS.PROCESSING), this.key(REDIS_KEYS.PROCESSING_OWNERS)];
+    if (destination) {
+      keys.push(this.key(destination));
+    }
+
+    const result = await this.client.eval(
+      RELEASE_SCRIPT,
+      keys.length,
+      ...keys,
+      requestId,
+      ownerId ?? '',
+      score ?? 0
+    ) as number;
+
+    return result === 1;
   }
 
   async cancel(requestId: string): Promise<boolean> {
@@ -233,13 +464,14 @@ export class RedisStore {
     
     if (!data) return null;
     
-    return JSON.parse(data) as QueueRequest;
+    const request = JSON.parse(data) as QueueRequest;
+    return this.encryptor ? this.encryptor.open(request) : request;
   }
 
   async updateRequest(request: QueueRequest): Promise<void> {
     await this.client.set(
       this.key(`${REDIS_KEYS.REQUEST_PREFIX}${request.id}`),
-      JSON.stringify(request)
+      this.serialize(request)
     );
   }
 
@@ -267,6 +499,152 @@ export class RedisStore {
     return this.client.zcard(this.key(REDIS_KEYS.DEAD_LETTER));
   }
 
+  async getQueueSnapshot(): Promise<QueueSnapshot> {
+    // Read all three sets in one transaction so an entry moving between them
+    // is seen exactly once
+    const results = await this.client
+      .multi()
+      .zrange(this.key(REDIS_KEYS.QUEUE), 0, -1)
+      .zrange(this.key(REDIS_KEYS.SCHEDULED), 0, -1)
+      .zrange(this.key(REDIS_KEYS.PROCESSING), 0, -1)
+      .exec();
+
+    const [pending, scheduled, processing] = (results ?? []).map(
+      ([, ids]) => (ids as string[] | null) ?? []
+    );
+
+    return {
+      pending: pending ?? [],
+      scheduled: scheduled ?? [],
+      processing: processing ?? [],
+    };
+  }
+
+  // ============================================================================
+  // Retention
+  // ============================================================================
+
+  async purgeOrphanedPayloads(
+    cursor: string,
+    count: number
+  ): Promise<{ cursor: string; purged: number }> {
+    const prefix = this.key(REDIS_KEYS.REQUEST_PREFIX);
+    const [next, keys] = await this.scanPayloads(cursor, count);
+
+    if (keys.length === 0) {
+      return { cursor: next, purged: 0 };
+    }
+
+    // Checked and deleted in one script so a request enqueued meanwhile keeps its payload
+    const purged = await this.client.eval(
+      PURGE_PAYLOADS_SCRIPT,
+      3 + keys.length,
+      this.key(REDIS_KEYS.QUEUE),
+      this.key(REDIS_KEYS.SCHEDULED),
+      this.key(REDIS_KEYS.PROCESSING),
+      ...keys,
+      prefix.length
+    ) as number;
+
+    return { cursor: next, purged };
+  }
+
+  /**
+   * Scans one page of request payload keys.
+   */
+  private async scanPayloads(cursor: string, count: number): Promise<[string, string[]]> {
+    return await this.client.eval(
+      SCAN_SCRIPT,
+      1,
+      this.key(REDIS_KEYS.QUEUE),
+      cursor,
+      `${this.key(REDIS_KEYS.REQUEST_PREFIX)}*`,
+      count
+    ) as [string, string[]];
+  }
+
+  // ============================================================================
+  // Encryption
+  // ============================================================================
+
+  async reencrypt(): Promise<number> {
+    if (!this.encryptor) return 0;
+
+    let cursor = '0';
+    let rewritten = 0;
+
+    do {
+      const [next, keys] = await this.scanPayloads(cursor, 500);
+      cursor = next;
+      if (keys.length === 0) continue;
+
+      const values = await this.client.mget(...keys);
+
+      for (const [i, data] of values.entries()) {
+        if (!data) continue;
+
+        const stored = JSON.parse(data) as QueueRequest;
+        if (!this.encryptor.needsRotation(stored)) continue;
+
+        // Skip payloads rewritten since they were read; they use the active key
+        const replaced = await this.client.eval(
+          COMPARE_AND_SET_SCRIPT,
+          1,
+          keys[i]!,
+          data,
+          this.serialize(this.encryptor.open(stored))
+        );
+        if (replaced === 1) rewritten++;
+      }
+    } while (cursor !== '0');
+
+    return rewritten;
+  }
+
+  // ============================================================================
+  // Crash Recovery
+  // ============================================================================
+
+  async heartbeat(instanceId: string, ttlMs: number): Promise<void> {
+    await this.client.set(
+      this.sharedKey(`${REDIS_KEYS.INSTANCE_PREFIX}${instanceId}`),
+      Date.now().toString(),
+      'PX',
+      ttlMs
+    );
+  }
+
+  /**
+   * Finds processing entries whose lease has run out, or whose owning
+   * instance has stopped sending heartbeats.
+   */
+  async getExpiredProcessing(): Promise<string[]> {
+    // Processing entries are scored by lease expiry
+    const expired = await this.client.zrangebyscore(
+      this.key(REDIS_KEYS.PROCESSING),
+      '-inf',
+      Date.now()
+    );
+
+    const owners = await this.client.hgetall(this.key(REDIS_KEYS.PROCESSING_OWNERS));
+    const instanceIds = [...new Set(Object.values(owners))];
+
+    const pipeline = this.client.pipeline();
+    for (const instanceId of instanceIds) {
+      pipeline.exists(this.sharedKey(`${REDIS_KEYS.INSTANCE_PREFIX}${instanceId}`));
+    }
+    const alive = await pipeline.exec();
+
+    const deadInstances = new Set(
+      instanceIds.filter((_, i) => (alive?.[i]?.[1] as number) === 0)
+    );
+    const orphaned = Object.entries(owners)
+      .filter(([, instanceId]) => deadInstances.has(instanceId))
+      .map(([requestId]) => requestId);
+
+    return [...new Set([...expired, ...orphaned])];
+  }
+
   // ============================================================================
   // Rate Limiting (Token Bucket)
   // ============================================================================
@@ -324,13 +702,7 @@ export class RedisStore {
   // Circuit Breaker
   // ============================================================================
 
-  async getCircuitBreakerState(host: string): Promise<{
-    state: CircuitBreakerState;
-    failures: number;
-    successes: number;
-    lastFailure?: Date;
-    stateChangedAt?: Date;
-  }> {
+  async getCircuitBreakerState(host: string): Promise<StoredCircuitBreakerState> {
     const key = this.key(`${REDIS_KEYS.CIRCUIT_BREAKER_PREFIX}${host}`);
     const data = await this.client.hgetall(key);
 
@@ -351,12 +723,7 @@ export class RedisStore {
 
   async updateCircuitBreaker(
     host: string,
-    update: {
-      state?: CircuitBreakerState;
-      incrementFailures?: boolean;
-      incrementSuccesses?: boolean;
-      resetCounters?: boolean;
-    }
+    update: CircuitBreakerUpdate
   ): Promise<void> {
     const key = this.key(`${REDIS_KEYS.CIRCUIT_BREAKER_PREFIX}${host}`);
     const now = Date.now();
@@ -390,7 +757,7 @@ export class RedisStore {
   // ============================================================================
 
   async subscribe(
-    channel: 'new-request' | 'retry',
+    channel: QueueChannel,
     handler: (message: string) => void | Promise<void>
   ): Promise<void> {
     const channelKey = channel === 'new-request'
@@ -398,16 +765,31 @@ export class RedisStore {
       : this.key(REDIS_KEYS.CHANNEL_RETRY);
 
     await this.subscriber.subscribe(channelKey);
-    
-    this.subscriber.on('message', async (ch, message) => {
+    this.channels.add(channelKey);
+
+    const listener = (ch: string, message: string) => {
       if (ch === channelKey) {
-        await handler(message);
+        void handler(message);
       }
-    });
+    };
+    this.subscriber.on('message', listener);
+    this.listeners.push(listener);
   }
 
+  /**
+   * Drops this queue's subscriptions; other queues sharing the connection
+   * keep theirs.
+   */
   async unsubscribe(): Promise<void> {
-    await this.subscriber.unsubscribe();
+    for (const listener of this.listeners) {
+      this.subscriber.off('message', listener);
+    }
+    this.listeners = [];
+
+    if (this.channels.size > 0) {
+      await this.subscriber.unsubscribe(...this.channels);
+      this.channels.clear();
+    }
   }
 
   // ============================================================================
@@ -419,7 +801,7 @@ export class RedisStore {
     ttlMs: number
   ): Promise<{ acquired: boolean; lockId?: string }> {
     const lockId = crypto.randomUUID();
-    const key = this.key(`${REDIS_KEYS.LOCK_PREFIX}${resource}`);
+    const key = this.sharedKey(`${REDIS_KEYS.LOCK_PREFIX}${resource}`);
 
     const result = await this.client.set(key, lockId, 'PX', ttlMs, 'NX');
 
@@ -430,7 +812,7 @@ export class RedisStore {
   }
 
   async releaseLock(resource: string, lockId: string): Promise<boolean> {
-    const key = this.key(`${REDIS_KEYS.LOCK_PREFIX}${resource}`);
+    const key = this.sharedKey(`${REDIS_KEYS.LOCK_PREFIX}${resource}`);
 
     // Only release if we own the lock
     const script = `
@@ -445,3 +827,39 @@ export class RedisStore {
     return result === 1;
   }
 }
+
+// ============================================================================
+// Client Construction
+// ============================================================================
+
+function createClient(config: QueueManagerConfig['redis'] = {}): Redis | Cluster {
+  if (config.cluster) {
+    return new Cluster(config.cluster.nodes, {
+      lazyConnect: true,
+      redisOptions: { password: config.password },
+    });
+  }
+
+  if (config.sentinel) {
+    return new Redis({
+      sentinels: config.sentinel.sentinels,
+      name: config.sentinel.name,
+      sentinelPassword: config.sentinel.password,
+      password: config.password,
+      db: config.db ?? 0,
+      lazyConnect: true,
+    });
+  }
+
+  if (config.url) {
+    return new Redis(config.url, { lazyConnect: true });
+  }
+
+  return new Redis({
+    host: config.host ?? 'localhost',
+    port: config.port ?? 6379,
+    password: config.password,
+    db: config.db ?? 0,
+    lazyConnect: true,
+  });
+}
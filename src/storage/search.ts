@@ -0,0 +1,92 @@
+import type { HttpMethod, RequestSearchQuery, RequestSortField, RequestStatus } from '../types';
+
+// ============================================================================
+// Request Search
+// ============================================================================
+
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LIMIT = 1000;
+
+/**
+ * Position after the last row of a page: that row's sort value (in the
+ * store's own representation) and id, which breaks ties.
+ */
+export interface SearchPosition {
+  value: string | number;
+  id: string;
+}
+
+/**
+ * A search query with defaults applied and single values turned into lists.
+ */
+export interface ResolvedSearch
+  extends Omit<RequestSearchQuery, 'queue' | 'status' | 'method' | 'cursor'> {
+  queue?: string[];
+  status?: RequestStatus[];
+  method?: HttpMethod[];
+  sort: RequestSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  after?: SearchPosition;
+}
+
+export function resolveSearch(query: RequestSearchQuery): ResolvedSearch {
+  const { queue, status, method, cursor, ...rest } = query;
+  const sort = query.sort ?? 'createdAt';
+  const order = query.order ?? 'desc';
+  const limit = query.limit ?? DEFAULT_SEARCH_LIMIT;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    throw new Error(`Search limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}`);
+  }
+
+  return {
+    ...rest,
+    queue: queue === undefined ? undefined : ([] as string[]).concat(queue),
+    status: status === undefined ? undefined : ([] as RequestStatus[]).concat(status),
+    method: method === undefined ? undefined : ([] as HttpMethod[]).concat(method),
+    sort,
+    order,
+    limit,
+    after: cursor ? decodeCursor(cursor, sort, order) : undefined,
+  };
+}
+
+/**
+ * Cursors are opaque to callers. They record the sort they were made for so
+ * one can't be replayed against a different ordering.
+ */
+export function encodeCursor(search: ResolvedSearch, position: SearchPosition): string {
+  return Buffer.from(
+    JSON.stringify([search.sort, search.order, position.value, position.id])
+  ).toString('base64url');
+}
+
+function decodeCursor(
+  cursor: string,
+  sort: RequestSortField,
+  order: 'asc' | 'desc'
+): SearchPosition {
+  let decoded: unknown;
+
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid search cursor');
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 4 ||
+    !['string', 'number'].includes(typeof decoded[2]) ||
+    typeof decoded[3] !== 'string'
+  ) {
+    throw new Error('Invalid search cursor');
+  }
+
+  if (decoded[0] !== sort || decoded[1] !== order) {
+    throw new Error('Search cursor was created for a different sort order');
+  }
+
+  return { value: decoded[2], id: decoded[3] };
+}
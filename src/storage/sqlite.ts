@@ -0,0 +1,1252 @@
+import { Database, type SQLQueryBindings } from 'bun:sqlite';
+import type {
+  QueueManagerConfig,
+  StoredRequest,
+  RequestAttempt,
+  RequestStatus,
+  QueueRequest,
+  QueueStats,
+  StateStore,
+  RequestStatusUpdate,
+  AttemptResult,
+  FinishedStatus,
+  RequestWithAttempts,
+  RequestSearchQuery,
+  RequestSearchPage,
+  StoredBatch,
+  NewBatch,
+  StoredSchedule,
+} from '../types';
+import { resolveSearch, encodeCursor } from './search';
+import { idempotencyExpiry, initialStatus } from '../core/request';
+
+// ============================================================================
+// Row Mapping
+// ============================================================================
+
+interface RequestRow {
+  id: string;
+  url: string;
+  method: StoredRequest['method'];
+  headers: string | null;
+  body: string | null;
+  priority: number;
+  max_retries: number;
+  timeout: number | null;
+  status: RequestStatus;
+  attempts: number;
+  scheduled_for: number | null;
+  last_attempt_at: number | null;
+  next_retry_at: number | null;
+  error: string | null;
+  response: string | null;
+  metadata: string | null;
+  response_storage: StoredRequest['response_storage'];
+  depends_on: string | null;
+  on_failure: StoredRequest['on_failure'];
+  workflow_id: string | null;
+  step: string | null;
+  compensation: string | null;
+  batch_id: string | null;
+  queue: string;
+  ordering_key: string | null;
+  ordering_policy: StoredRequest['ordering_policy'];
+  created_at: number;
+  updated_at: number;
+  completed_at: number | null;
+}
+
+interface ScheduleRow {
+  id: string;
+  name: string | null;
+  cron: string;
+  timezone: string;
+  request: string;
+  overlap: StoredSchedule['overlap'];
+  paused: number;
+  next_run_at: number;
+  last_run_at: number | null;
+  last_request_id: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface BatchRow {
+  id: string;
+  total: number;
+  completed: number;
+  dead: number;
+  cancelled: number;
+  metadata: string | null;
+  created_at: number;
+  updated_at: number;
+  completed_at: number | null;
+}
+
+interface AttemptRow {
+  id: string;
+  request_id: string;
+  attempt_number: number;
+  status_code: number | null;
+  duration_ms: number | null;
+  error: string | null;
+  response_headers: string | null;
+  diagnostics: string | null;
+  created_at: number;
+}
+
+const NOW_MS = `CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER)`;
+
+// Host (with port) of a request URL: the text between '://' and the next '/'.
+// Shared by the index and the search query so the index applies
+const URL_HOST = `lower(substr(substr(url, instr(url, '://') + 3), 1, instr(substr(url, instr(url, '://') + 3) || '/', '/') - 1))`;
+
+function toDate(value: number | null): Date | null {
+  return value === null ? null : new Date(value);
+}
+
+function fromJson<T>(value: string | null): T | null {
+  return value === null ? null : (JSON.parse(value) as T);
+}
+
+function toStoredRequest(row: RequestRow): StoredRequest {
+  const response = fromJson<StoredRequest['response'] & { completedAt: string }>(row.response);
+
+  return {
+    ...row,
+    headers: fromJson(row.headers),
+    body: fromJson(row.body),
+    scheduled_for: toDate(row.scheduled_for),
+    last_attempt_at: toDate(row.last_attempt_at),
+    next_retry_at: toDate(row.next_retry_at),
+    response: response ? { ...response, completedAt: new Date(response.completedAt) } : null,
+    metadata: fromJson(row.metadata),
+    depends_on: fromJson(row.depends_on),
+    compensation: fromJson(row.compensation),
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    completed_at: toDate(row.completed_at),
+  };
+}
+
+function toStoredBatch(row: BatchRow): StoredBatch {
+  return {
+    ...row,
+    metadata: fromJson(row.metadata),
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    completed_at: toDate(row.completed_at),
+  };
+}
+
+function toStoredSchedule(row: ScheduleRow): StoredSchedule {
+  return {
+    ...row,
+    request: JSON.parse(row.request),
+    paused: row.paused === 1,
+    next_run_at: new Date(row.next_run_at),
+    last_run_at: toDate(row.last_run_at),
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+  };
+}
+
+function toRequestAttempt(row: AttemptRow): RequestAttempt {
+  return {
+    ...row,
+    response_headers: fromJson(row.response_headers),
+    diagnostics: fromJson(row.diagnostics),
+    created_at: new Date(row.created_at),
+  };
+}
+
+// ============================================================================
+// SQLite Store Class
+// ============================================================================
+
+/**
+ * Durable StateStore backed by a single SQLite file, for deployments where
+ * running PostgreSQL is not worth it.
+ */
+export class SqliteStore implements StateStore {
+  private db: Database;
+
+  constructor(config: QueueManagerConfig['sqlite'] = {}) {
+    this.db = new Database(config.filename ?? 'queue.sqlite', { create: true });
+  }
+
+  // ============================================================================
+  // Connection Management
+  // ============================================================================
+
+  async connect(): Promise<void> {
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA foreign_keys = ON');
+  }
+
+  async disconnect(): Promise<void> {
+    this.db.close();
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      return this.db.query('SELECT 1 AS ok').get() !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // Schema Initialization
+  // ============================================================================
+
+  async initializeSchema(): Promise<void> {
+    this.db.transaction(() => {
+      // Create requests table
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS requests (
+          id TEXT PRIMARY KEY,
+          url TEXT NOT NULL,
+          method TEXT NOT NULL,
+          headers TEXT,
+          body TEXT,
+          priority INTEGER DEFAULT 50,
+          max_retries INTEGER DEFAULT 3,
+          timeout INTEGER,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER DEFAULT 0,
+          scheduled_for INTEGER,
+          last_attempt_at INTEGER,
+          next_retry_at INTEGER,
+          error TEXT,
+          response TEXT,
+          metadata TEXT,
+          response_storage TEXT,
+          depends_on TEXT,
+          on_failure TEXT,
+          workflow_id TEXT,
+          step TEXT,
+          compensation TEXT,
+          batch_id TEXT,
+          queue TEXT NOT NULL DEFAULT 'default',
+          ordering_key TEXT,
+          ordering_policy TEXT,
+          created_at INTEGER NOT NULL DEFAULT (${NOW_MS}),
+          updated_at INTEGER NOT NULL DEFAULT (${NOW_MS}),
+          completed_at INTEGER
+        );
+      `);
+
+      // Columns added after the table was first released
+      this.addColumnIfMissing('requests', 'response_storage', 'TEXT');
+      for (const column of ['depends_on', 'on_failure', 'workflow_id', 'step', 'compensation', 'batch_id']) {
+        this.addColumnIfMissing('requests', column, 'TEXT');
+      }
+      this.addColumnIfMissing('requests', 'queue', "TEXT NOT NULL DEFAULT 'default'");
+      this.addColumnIfMissing('requests', 'ordering_key', 'TEXT');
+      this.addColumnIfMissing('requests', 'ordering_policy', 'TEXT');
+
+      // Create request_attempts table
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS request_attempts (
+          id TEXT PRIMARY KEY,
+          request_id TEXT REFERENCES requests(id) ON DELETE CASCADE,
+          attempt_number INTEGER NOT NULL,
+          status_code INTEGER,
+          duration_ms INTEGER,
+          error TEXT,
+          response_headers TEXT,
+          diagnostics TEXT,
+          created_at INTEGER NOT NULL DEFAULT (${NOW_MS})
+        );
+      `);
+
+      this.addColumnIfMissing('request_attempts', 'diagnostics', 'TEXT');
+
+      // Idempotency keys go with their request. The key is claimed before the
+      // row is inserted, so the reference is checked at commit
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS idempotency_keys (
+          key TEXT PRIMARY KEY,
+          request_id TEXT NOT NULL REFERENCES requests(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+          expires_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_idempotency_request ON idempotency_keys(request_id);
+      `);
+
+      // Create batches table
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS batches (
+          id TEXT PRIMARY KEY,
+          total INTEGER NOT NULL DEFAULT 0,
+          completed INTEGER NOT NULL DEFAULT 0,
+          dead INTEGER NOT NULL DEFAULT 0,
+          cancelled INTEGER NOT NULL DEFAULT 0,
+          metadata TEXT,
+          created_at INTEGER NOT NULL DEFAULT (${NOW_MS}),
+          updated_at INTEGER NOT NULL DEFAULT (${NOW_MS}),
+          completed_at INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_batches_open ON batches(created_at) WHERE completed_at IS NULL;
+      `);
+
+      // Create schedules table
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS schedules (
+          id TEXT PRIMARY KEY,
+          name TEXT,
+          cron TEXT NOT NULL,
+          timezone TEXT NOT NULL,
+          request TEXT NOT NULL,
+          overlap TEXT NOT NULL,
+          paused INTEGER NOT NULL DEFAULT 0,
+          next_run_at INTEGER NOT NULL,
+          last_run_at INTEGER,
+          last_request_id TEXT,
+          created_at INTEGER NOT NULL DEFAULT (${NOW_MS}),
+          updated_at INTEGER NOT NULL DEFAULT (${NOW_MS})
+        );
+        CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules(next_run_at) WHERE paused = 0;
+      `);
+
+      // Create archive table for retention
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS requests_archive (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          request TEXT NOT NULL,
+          attempts TEXT NOT NULL DEFAULT '[]',
+          created_at INTEGER NOT NULL,
+          finished_at INTEGER,
+          archived_at INTEGER NOT NULL DEFAULT (${NOW_MS})
+        );
+      `);
+
+      // Create indexes
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_requests_status ON requests(status);
+        CREATE INDEX IF NOT EXISTS idx_requests_scheduled ON requests(scheduled_for)
+          WHERE status = 'pending' OR status = 'scheduled';
+        CREATE INDEX IF NOT EXISTS idx_requests_created ON requests(created_at);
+        CREATE INDEX IF NOT EXISTS idx_attempts_request ON request_attempts(request_id);
+        CREATE INDEX IF NOT EXISTS idx_requests_created_id ON requests(created_at, id);
+        CREATE INDEX IF NOT EXISTS idx_requests_updated_id ON requests(updated_at, id);
+        CREATE INDEX IF NOT EXISTS idx_requests_status_created ON requests(status, created_at, id);
+        CREATE INDEX IF NOT EXISTS idx_requests_status_updated ON requests(status, updated_at, id);
+        CREATE INDEX IF NOT EXISTS idx_requests_host ON requests(${URL_HOST}, created_at);
+        CREATE INDEX IF NOT EXISTS idx_requests_workflow ON requests(workflow_id, created_at)
+          WHERE workflow_id IS NOT NULL;
+        CREATE INDEX IF NOT EXISTS idx_requests_batch ON requests(batch_id, id)
+          WHERE batch_id IS NOT NULL;
+        CREATE INDEX IF NOT EXISTS idx_requests_queue_status ON requests(queue, status);
+        CREATE INDEX IF NOT EXISTS idx_requests_ordering ON requests(ordering_key)
+          WHERE ordering_key IS NOT NULL;
+      `);
+
+      // Create updated_at trigger
+      this.db.exec(`
+        CREATE TRIGGER IF NOT EXISTS trigger_requests_updated_at
+          AFTER UPDATE ON requests
+          FOR EACH ROW
+          WHEN NEW.updated_at = OLD.updated_at
+        BEGIN
+          UPDATE requests SET updated_at = ${NOW_MS} WHERE id = NEW.id;
+        END;
+      `);
+
+      // Count batch members as they are inserted and enter or leave a
+      // finished status
+      this.db.exec(`
+        CREATE TRIGGER IF NOT EXISTS trigger_requests_batch_insert
+          AFTER INSERT ON requests
+          FOR EACH ROW
+          WHEN NEW.batch_id IS NOT NULL
+        BEGIN
+          UPDATE batches
+          SET total = total + 1,
+              completed = completed + (NEW.status = 'completed'),
+              dead = dead + (NEW.status = 'dead'),
+              cancelled = cancelled + (NEW.status = 'cancelled'),
+              updated_at = ${NOW_MS}
+          WHERE id = NEW.batch_id;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS trigger_requests_batch_status
+          AFTER UPDATE OF status ON requests
+          FOR EACH ROW
+          WHEN NEW.batch_id IS NOT NULL AND OLD.status IS NOT NEW.status
+            AND (NEW.status IN ('completed', 'dead', 'cancelled')
+              OR OLD.status IN ('completed', 'dead', 'cancelled'))
+        BEGIN
+          UPDATE batches
+          SET completed = completed + (NEW.status = 'completed') - (OLD.status = 'completed'),
+              dead = dead + (NEW.status = 'dead') - (OLD.status = 'dead'),
+              cancelled = cancelled + (NEW.status = 'cancelled') - (OLD.status = 'cancelled'),
+              updated_at = ${NOW_MS}
+          WHERE id = NEW.batch_id;
+        END;
+      `);
+    })();
+  }
+
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.db
+      .query<{ name: string }, []>(`SELECT name FROM pragma_table_info('${table}')`)
+      .all();
+
+    if (!columns.some((c) => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  // ============================================================================
+  // Request Operations
+  // ============================================================================
+
+  async saveRequest(request: QueueRequest): Promise<string | null> {
+    return this.db.transaction(() => this.saveOne(request))();
+  }
+
+  async saveRequestBatch(requests: QueueRequest[], batch?: NewBatch): Promise<(string | null)[]> {
+    return this.db.transaction(() => {
+      // The batch row must exist before its members, whose inserts count them
+      if (batch) {
+        this.db
+          .query('INSERT INTO batches (id, metadata) VALUES (?, ?)')
+          .run(batch.id, batch.metadata ? JSON.stringify(batch.metadata) : null);
+      }
+
+      return requests.map((request) => this.saveOne(request));
+    })();
+  }
+
+  /**
+   * Claims the request's idempotency key and inserts it, or returns the id of
+   * the request holding the key. Must run inside a transaction.
+   */
+  private saveOne(request: QueueRequest): string | null {
+    if (request.idempotencyKey) {
+      this.db
+        .query(
+          `
+          INSERT INTO idempotency_keys (key, request_id, expires_at) VALUES (?1, ?2, ?3)
+          ON CONFLICT (key) DO UPDATE
+            SET request_id = excluded.request_id, expires_at = excluded.expires_at
+            WHERE idempotency_keys.expires_at <= ?4
+          `
+        )
+        .run(request.idempotencyKey, request.id, idempotencyExpiry(request).getTime(), Date.now());
+
+      const holder = this.db
+        .query<{ request_id: string }, [string]>('SELECT request_id FROM idempotency_keys WHERE key = ?')
+        .get(request.idempotencyKey);
+
+      if (holder && holder.request_id !== request.id) return holder.request_id;
+    }
+
+    this.insertRequest(request);
+    return null;
+  }
+
+  private insertRequest(request: QueueRequest): void {
+    this.db
+      .query(
+        `
+        INSERT INTO requests (
+          id, url, method, headers, body, priority, max_retries, timeout,
+          status, scheduled_for, metadata, response_storage, created_at,
+          depends_on, on_failure, workflow_id, step, compensation, batch_id, queue,
+          ordering_key, ordering_policy
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `
+      )
+      .run(
+        request.id,
+        request.url,
+        request.method,
+        request.headers ? JSON.stringify(request.headers) : null,
+        request.body !== undefined ? JSON.stringify(request.body) : null,
+        request.priority,
+        request.maxRetries ?? 3,
+        request.timeout ?? null,
+        initialStatus(request),
+        request.scheduledFor?.getTime() ?? null,
+        request.metadata ? JSON.stringify(request.metadata) : null,
+        request.responseStorage ?? null,
+        request.createdAt.getTime(),
+        request.dependsOn ? JSON.stringify(request.dependsOn) : null,
+        request.onFailure ?? null,
+        request.workflowId ?? null,
+        request.step ?? null,
+        request.compensation ? JSON.stringify(request.compensation) : null,
+        request.batchId ?? null,
+        request.queue,
+        request.orderingKey ?? null,
+        request.orderingPolicy ?? null
+      );
+  }
+
+  async getRequest(requestId: string): Promise<StoredRequest | null> {
+    const row = this.db
+      .query<RequestRow, [string]>('SELECT * FROM requests WHERE id = ?')
+      .get(requestId);
+
+    return row ? toStoredRequest(row) : null;
+  }
+
+  async updateRequestStatus(
+    requestId: string,
+    status: RequestStatus,
+    additionalData?: RequestStatusUpdate
+  ): Promise<void> {
+    const updates: string[] = ['status = ?'];
+    const values: (string | number | null)[] = [status];
+
+    if (additionalData?.attempts !== undefined) {
+      updates.push('attempts = ?');
+      values.push(additionalData.attempts);
+    }
+
+    if (additionalData?.lastAttemptAt) {
+      updates.push('last_attempt_at = ?');
+      values.push(additionalData.lastAttemptAt.getTime());
+    }
+
+    if (additionalData?.nextRetryAt) {
+      updates.push('next_retry_at = ?');
+      values.push(additionalData.nextRetryAt.getTime());
+    }
+
+    if (additionalData?.error !== undefined) {
+      updates.push('error = ?');
+      values.push(additionalData.error);
+    }
+
+    if (additionalData?.response) {
+      updates.push('response = ?');
+      values.push(JSON.stringify(additionalData.response));
+    }
+
+    if (additionalData?.completedAt) {
+      updates.push('completed_at = ?');
+      values.push(additionalData.completedAt.getTime());
+    }
+
+    this.db
+      .query(`UPDATE requests SET ${updates.join(', ')} WHERE id = ?`)
+      .run(...values, requestId);
+  }
+
+  async deleteRequest(requestId: string): Promise<void> {
+    this.db.query('DELETE FROM requests WHERE id = ?').run(requestId);
+  }
+
+  async promoteScheduled(requestIds: string[]): Promise<void> {
+    if (requestIds.length === 0) return;
+
+    this.db
+      .query(
+        `
+        UPDATE requests
+        SET status = 'pending'
+        WHERE id IN (SELECT value FROM json_each(?)) AND status = 'scheduled'
+        `
+      )
+      .run(JSON.stringify(requestIds));
+  }
+
+  async rescheduleRequest(requestId: string, scheduledFor: Date): Promise<boolean> {
+    const result = this.db
+      .query(
+        `
+        UPDATE requests
+        SET status = 'scheduled', scheduled_for = ?, next_retry_at = NULL
+        WHERE id = ? AND status IN ('pending', 'scheduled')
+        `
+      )
+      .run(scheduledFor.getTime(), requestId);
+
+    return result.changes > 0;
+  }
+
+  // ============================================================================
+  // Attempt Logging
+  // ============================================================================
+
+  async logAttempt(
+    requestId: string,
+    attemptNumber: number,
+    result: AttemptResult
+  ): Promise<void> {
+    this.db
+      .query(
+        `
+        INSERT INTO request_attempts (
+          id, request_id, attempt_number, status_code, duration_ms, error, response_headers,
+          diagnostics
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `
+      )
+      .run(
+        crypto.randomUUID(),
+        requestId,
+        attemptNumber,
+        result.statusCode ?? null,
+        result.durationMs ?? null,
+        result.error ?? null,
+        result.responseHeaders ? JSON.stringify(result.responseHeaders) : null,
+        result.diagnostics ? JSON.stringify(result.diagnostics) : null
+      );
+  }
+
+  async getAttempts(requestId: string): Promise<RequestAttempt[]> {
+    return this.db
+      .query<AttemptRow, [string]>(
+        'SELECT * FROM request_attempts WHERE request_id = ? ORDER BY attempt_number'
+      )
+      .all(requestId)
+      .map(toRequestAttempt);
+  }
+
+  // ============================================================================
+  // Query Operations
+  // ============================================================================
+
+  async getRequestsByStatus(
+    status?: RequestStatus,
+    limit = 100,
+    offset = 0,
+    host?: string
+  ): Promise<StoredRequest[]> {
+    return this.db
+      .query<RequestRow, [string | null, string | null, number, number]>(
+        `
+        SELECT * FROM requests
+        WHERE (?1 IS NULL OR status = ?1)
+          AND (?2 IS NULL OR instr(url, ?2) > 0)
+        ORDER BY created_at DESC
+        LIMIT ?3 OFFSET ?4
+        `
+      )
+      .all(status ?? null, host ?? null, limit, offset)
+      .map(toStoredRequest);
+  }
+
+  async getDeadLetterRequests(limit = 100): Promise<StoredRequest[]> {
+    return this.getRequestsByStatus('dead', limit);
+  }
+
+  async getScheduledRequests(limit = 100, offset = 0): Promise<StoredRequest[]> {
+    return this.db
+      .query<RequestRow, [number, number]>(
+        `
+        SELECT * FROM requests
+        WHERE status = 'scheduled'
+        ORDER BY scheduled_for
+        LIMIT ? OFFSET ?
+        `
+      )
+      .all(limit, offset)
+      .map(toStoredRequest);
+  }
+
+  async getActiveRequests(afterId?: string, limit = 500): Promise<StoredRequest[]> {
+    return this.db
+      .query<RequestRow, [string | null, number]>(
+        `
+        SELECT * FROM requests
+        WHERE status IN ('pending', 'scheduled', 'processing')
+          AND (?1 IS NULL OR id > ?1)
+        ORDER BY id
+        LIMIT ?2
+        `
+      )
+      .all(afterId ?? null, limit)
+      .map(toStoredRequest);
+  }
+
+  async searchRequests(query: RequestSearchQuery): Promise<RequestSearchPage<StoredRequest>> {
+    const search = resolveSearch(query);
+    const column = search.sort === 'updatedAt' ? 'updated_at' : 'created_at';
+    const conditions: string[] = [];
+    const values: SQLQueryBindings[] = [];
+    const list = (items: string[]) => {
+      values.push(...items);
+      return items.map(() => '?').join(', ');
+    };
+
+    if (search.status) conditions.push(`status IN (${list(search.status)})`);
+    if (search.method) conditions.push(`method IN (${list(search.method)})`);
+    if (search.queue) conditions.push(`queue IN (${list(search.queue)})`);
+    if (search.host) {
+      conditions.push(`${URL_HOST} = lower(?)`);
+      values.push(search.host);
+    }
+
+    // Top-level keys are compared one by one; nested objects and arrays
+    // must match exactly
+    for (const [key, value] of Object.entries(search.metadata ?? {})) {
+      const path = `$."${key}"`;
+
+      if (value === null || typeof value === 'boolean') {
+        conditions.push(`json_type(metadata, ?) = ?`);
+        values.push(path, String(value));
+      } else if (typeof value === 'object') {
+        conditions.push(`json_extract(metadata, ?) = json(?)`);
+        values.push(path, JSON.stringify(value));
+      } else {
+        conditions.push(`json_extract(metadata, ?) = ?`);
+        values.push(path, value as string | number);
+      }
+    }
+
+    const bounds: [string, string, number | undefined][] = [
+      ['created_at', '>=', search.created?.from?.getTime()],
+      ['created_at', '<', search.created?.to?.getTime()],
+      ['updated_at', '>=', search.updated?.from?.getTime()],
+      ['updated_at', '<', search.updated?.to?.getTime()],
+      ['attempts', '>=', search.attempts?.min],
+      ['attempts', '<=', search.attempts?.max],
+    ];
+    for (const [name, operator, bound] of bounds) {
+      if (bound === undefined) continue;
+      conditions.push(`${name} ${operator} ?`);
+      values.push(bound);
+    }
+
+    if (search.error) {
+      conditions.push(`instr(lower(error), lower(?)) > 0`);
+      values.push(search.error);
+    }
+
+    if (search.after) {
+      conditions.push(`(${column}, id) ${search.order === 'asc' ? '>' : '<'} (?, ?)`);
+      values.push(search.after.value, search.after.id);
+    }
+
+    const rows = this.db
+      .query<RequestRow, SQLQueryBindings[]>(
+        `
+        SELECT * FROM requests
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY ${column} ${search.order}, id ${search.order}
+        LIMIT ?
+        `
+      )
+      .all(...values, search.limit + 1);
+
+    const page = rows.slice(0, search.limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map(toStoredRequest),
+      nextCursor:
+        rows.length > search.limit && last
+          ? encodeCursor(search, { value: last[column], id: last.id })
+          : null,
+    };
+  }
+
+  async retryDeadRequest(requestId: string): Promise<boolean> {
+    // Counted from RETURNING: `changes` includes the updated_at trigger's
+    const reset = this.db
+      .query<{ id: string }, [string]>(
+        `
+        UPDATE requests
+        SET status = CASE WHEN ordering_key IS NULL THEN 'pending' ELSE 'waiting' END,
+            attempts = 0,
+            error = NULL,
+            next_retry_at = NULL
+        WHERE id = ? AND status = 'dead'
+        RETURNING id
+        `
+      )
+      .all(requestId);
+
+    return reset.length > 0;
+  }
+
+  // ============================================================================
+  // Statistics
+  // ============================================================================
+
+  async getStats(queue?: string): Promise<QueueStats> {
+    const countRows = this.db
+      .query<{ status: RequestStatus; count: number }, [string | null]>(`
+        SELECT status, COUNT(*) as count
+        FROM requests
+        WHERE ?1 IS NULL OR queue = ?1
+        GROUP BY status
+      `)
+      .all(queue ?? null);
+
+    const counts: Record<RequestStatus, number> = {
+      waiting: 0,
+      pending: 0,
+      scheduled: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      dead: 0,
+      cancelled: 0,
+    };
+
+    for (const row of countRows) {
+      counts[row.status] = row.count;
+    }
+
+    const avgTime = this.db
+      .query<{ avg: number | null }, [string | null]>(`
+        SELECT AVG(a.duration_ms) as avg
+        FROM request_attempts a
+        JOIN requests r ON r.id = a.request_id
+        WHERE a.status_code IS NOT NULL AND (?1 IS NULL OR r.queue = ?1)
+      `)
+      .get(queue ?? null);
+
+    const total = counts.completed + counts.failed + counts.dead;
+    const successRate = total > 0 ? counts.completed / total : 0;
+
+    return {
+      waiting: counts.waiting,
+      pending: counts.pending + counts.scheduled,
+      processing: counts.processing,
+      completed: counts.completed,
+      failed: counts.failed,
+      dead: counts.dead,
+      avgProcessingTime: avgTime?.avg ?? 0,
+      successRate,
+    };
+  }
+
+  // ============================================================================
+  // Cleanup Operations
+  // ============================================================================
+
+  async cleanupCompleted(olderThanDays: number): Promise<number> {
+    const result = this.db
+      .query(
+        `
+        DELETE FROM requests
+        WHERE status = 'completed'
+          AND completed_at < ?
+        RETURNING id
+        `
+      )
+      .all(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+
+    return result.length;
+  }
+
+  async cleanupDead(olderThanDays: number): Promise<number> {
+    const result = this.db
+      .query(
+        `
+        DELETE FROM requests
+        WHERE status = 'dead'
+          AND updated_at < ?
+        RETURNING id
+        `
+      )
+      .all(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+
+    return result.length;
+  }
+
+  async getExpiredRequests(
+    status: FinishedStatus,
+    olderThan: Date,
+    limit: number
+  ): Promise<RequestWithAttempts[]> {
+    const rows = this.db
+      .query<RequestRow, [string, number, number]>(
+        `
+        SELECT * FROM requests
+        WHERE status = ? AND COALESCE(completed_at, updated_at) < ?
+        ORDER BY updated_at
+        LIMIT ?
+        `
+      )
+      .all(status, olderThan.getTime(), limit);
+
+    return Promise.all(
+      rows.map(async (row) => ({
+        ...toStoredRequest(row),
+        attempt_log: await this.getAttempts(row.id),
+      }))
+    );
+  }
+
+  async deleteRequests(requestIds: string[], archive = false): Promise<number> {
+    if (requestIds.length === 0) return 0;
+
+    return this.db.transaction(() => {
+      const ids = JSON.stringify(requestIds);
+
+      if (archive) {
+        // Copy rows in as JSON first, in the same transaction as the delete
+        this.db
+          .query(
+            `
+            INSERT OR IGNORE INTO requests_archive (id, status, request, attempts, created_at, finished_at)
+            SELECT
+              r.id,
+              r.status,
+              json_object(
+                'id', r.id, 'url', r.url, 'method', r.method,
+                'headers', json(r.headers), 'body', json(r.body),
+                'priority', r.priority, 'max_retries', r.max_retries, 'timeout', r.timeout,
+                'status', r.status, 'attempts', r.attempts, 'scheduled_for', r.scheduled_for,
+                'last_attempt_at', r.last_attempt_at, 'next_retry_at', r.next_retry_at,
+                'error', r.error, 'response', json(r.response), 'metadata', json(r.metadata),
+                'response_storage', r.response_storage, 'depends_on', json(r.depends_on),
+                'on_failure', r.on_failure, 'workflow_id', r.workflow_id, 'step', r.step,
+                'compensation', json(r.compensation), 'batch_id', r.batch_id, 'queue', r.queue,
+                'ordering_key', r.ordering_key, 'ordering_policy', r.ordering_policy,
+                'created_at', r.created_at, 'updated_at', r.updated_at, 'completed_at', r.completed_at
+              ),
+              COALESCE(
+                (
+                  SELECT json_group_array(json_object(
+                    'id', a.id, 'attempt_number', a.attempt_number,
+                    'status_code', a.status_code, 'duration_ms', a.duration_ms,
+                    'error', a.error, 'response_headers', json(a.response_headers),
+                    'diagnostics', json(a.diagnostics), 'created_at', a.created_at
+                  ))
+                  FROM request_attempts a
+                  WHERE a.request_id = r.id
+                ),
+                '[]'
+              ),
+              r.created_at,
+              COALESCE(r.completed_at, r.updated_at)
+            FROM requests r
+            WHERE r.id IN (SELECT value FROM json_each(?))
+            `
+          )
+          .run(ids);
+      }
+
+      return this.db
+        .query('DELETE FROM requests WHERE id IN (SELECT value FROM json_each(?)) RETURNING id')
+        .all(ids).length;
+    })();
+  }
+
+  async purgeIdempotencyKeys(): Promise<number> {
+    return this.db.query('DELETE FROM idempotency_keys WHERE expires_at <= ?').run(Date.now()).changes;
+  }
+
+  // ============================================================================
+  // Dependencies
+  // ============================================================================
+
+  async getDependents(requestId: string): Promise<StoredRequest[]> {
+    return this.db
+      .query<RequestRow, [string]>(
+        `
+        SELECT * FROM requests
+        WHERE status = 'waiting'
+          AND EXISTS (SELECT 1 FROM json_each(depends_on) WHERE value = ?)
+        ORDER BY id
+        `
+      )
+      .all(requestId)
+      .map(toStoredRequest);
+  }
+
+  async getWaitingRequests(afterId?: string, limit = 500): Promise<StoredRequest[]> {
+    return this.db
+      .query<RequestRow, [string | null, number]>(
+        `
+        SELECT * FROM requests
+        WHERE status = 'waiting' AND ordering_key IS NULL AND (?1 IS NULL OR id > ?1)
+        ORDER BY id
+        LIMIT ?2
+        `
+      )
+      .all(afterId ?? null, limit)
+      .map(toStoredRequest);
+  }
+
+  async getWorkflowRequests(workflowId: string): Promise<StoredRequest[]> {
+    return this.db
+      .query<RequestRow, [string]>(
+        'SELECT * FROM requests WHERE workflow_id = ? ORDER BY created_at, id'
+      )
+      .all(workflowId)
+      .map(toStoredRequest);
+  }
+
+  async releaseRequest(
+    requestId: string,
+    rendered: Pick<QueueRequest, 'url' | 'headers' | 'body'>
+  ): Promise<boolean> {
+    const result = this.db
+      .query(
+        `
+        UPDATE requests
+        SET status = CASE WHEN scheduled_for > ${NOW_MS} THEN 'scheduled' ELSE 'pending' END,
+            url = ?, headers = ?, body = ?
+        WHERE id = ? AND status = 'waiting'
+        `
+      )
+      .run(
+        rendered.url,
+        rendered.headers ? JSON.stringify(rendered.headers) : null,
+        rendered.body !== undefined ? JSON.stringify(rendered.body) : null,
+        requestId
+      );
+
+    return result.changes > 0;
+  }
+
+  async cancelWaiting(requestId: string, error?: string): Promise<boolean> {
+    const result = this.db
+      .query(
+        `UPDATE requests SET status = 'cancelled', error = COALESCE(?, error) WHERE id = ? AND status = 'waiting'`
+      )
+      .run(error ?? null, requestId);
+
+    return result.changes > 0;
+  }
+
+  // ============================================================================
+  // Ordering
+  // ============================================================================
+
+  async releaseOrderingHead(orderingKey: string): Promise<StoredRequest | null> {
+    // A single statement, and SQLite has one writer: releases never interleave.
+    // The rowid gives the insertion order
+    const row = this.db
+      .query<RequestRow, [string]>(
+        `
+        UPDATE requests
+        SET status = CASE WHEN scheduled_for > ${NOW_MS} THEN 'scheduled' ELSE 'pending' END
+        WHERE id = (
+          SELECT id FROM requests
+          WHERE ordering_key = ?1 AND status = 'waiting'
+          ORDER BY rowid
+          LIMIT 1
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM requests
+          WHERE ordering_key = ?1
+            AND (status IN ('pending', 'scheduled', 'processing')
+              OR (status = 'dead' AND ordering_policy = 'block'))
+        )
+        RETURNING *
+        `
+      )
+      .get(orderingKey);
+
+    return row ? toStoredRequest(row) : null;
+  }
+
+  async getHeldOrderingKeys(afterKey?: string, limit = 500): Promise<string[]> {
+    return this.db
+      .query<{ ordering_key: string }, [string | null, number]>(
+        `
+        SELECT DISTINCT ordering_key FROM requests
+        WHERE status = 'waiting' AND ordering_key IS NOT NULL AND (?1 IS NULL OR ordering_key > ?1)
+        ORDER BY ordering_key
+        LIMIT ?2
+        `
+      )
+      .all(afterKey ?? null, limit)
+      .map((row) => row.ordering_key);
+  }
+
+  async unblockOrderingKey(orderingKey: string): Promise<number> {
+    // Counted from RETURNING: `changes` includes the updated_at trigger's
+    return this.db
+      .query<{ id: string }, [string]>(
+        `
+        UPDATE requests
+        SET ordering_policy = 'skip'
+        WHERE ordering_key = ? AND status = 'dead' AND ordering_policy = 'block'
+        RETURNING id
+        `
+      )
+      .all(orderingKey).length;
+  }
+
+  // ============================================================================
+  // Batches
+  // ============================================================================
+
+  async getBatch(batchId: string): Promise<StoredBatch | null> {
+    const row = this.db
+      .query<BatchRow, [string]>('SELECT * FROM batches WHERE id = ?')
+      .get(batchId);
+
+    return row ? toStoredBatch(row) : null;
+  }
+
+  async getBatchRequests(batchId: string, afterId?: string, limit = 500): Promise<StoredRequest[]> {
+    return this.db
+      .query<RequestRow, [string, string | null, number]>(
+        `
+        SELECT * FROM requests
+        WHERE batch_id = ?1
+          AND status NOT IN ('completed', 'dead', 'cancelled')
+          AND (?2 IS NULL OR id > ?2)
+        ORDER BY id
+        LIMIT ?3
+        `
+      )
+      .all(batchId, afterId ?? null, limit)
+      .map(toStoredRequest);
+  }
+
+  async completeBatch(batchId: string): Promise<StoredBatch | null> {
+    const row = this.db
+      .query<BatchRow, [string]>(
+        `
+        UPDATE batches SET completed_at = ${NOW_MS}
+        WHERE id = ? AND completed_at IS NULL AND completed + dead + cancelled >= total
+        RETURNING *
+        `
+      )
+      .get(batchId);
+
+    return row ? toStoredBatch(row) : null;
+  }
+
+  async completeFinishedBatches(limit: number): Promise<StoredBatch[]> {
+    return this.db
+      .query<BatchRow, [number]>(
+        `
+        UPDATE batches SET completed_at = ${NOW_MS}
+        WHERE id IN (
+          SELECT id FROM batches
+          WHERE completed_at IS NULL AND completed + dead + cancelled >= total
+          ORDER BY created_at
+          LIMIT ?
+        )
+        RETURNING *
+        `
+      )
+      .all(limit)
+      .map(toStoredBatch);
+  }
+
+  async reopenBatch(batchId: string): Promise<void> {
+    this.db.query('UPDATE batches SET completed_at = NULL WHERE id = ?').run(batchId);
+  }
+
+  // ============================================================================
+  // Schedules
+  // ============================================================================
+
+  async saveSchedule(schedule: StoredSchedule): Promise<void> {
+    this.db
+      .query(
+        `
+        INSERT INTO schedules (
+          id, name, cron, timezone, request, overlap, paused,
+          next_run_at, last_run_at, last_request_id, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `
+      )
+      .run(
+        schedule.id,
+        schedule.name,
+        schedule.cron,
+        schedule.timezone,
+        JSON.stringify(schedule.request),
+        schedule.overlap,
+        schedule.paused ? 1 : 0,
+        schedule.next_run_at.getTime(),
+        schedule.last_run_at?.getTime() ?? null,
+        schedule.last_request_id,
+        schedule.created_at.getTime(),
+        schedule.updated_at.getTime()
+      );
+  }
+
+  async getSchedule(scheduleId: string): Promise<StoredSchedule | null> {
+    const row = this.db
+      .query<ScheduleRow, [string]>('SELECT * FROM schedules WHERE id = ?')
+      .get(scheduleId);
+
+    return row ? toStoredSchedule(row) : null;
+  }
+
+  async listSchedules(): Promise<StoredSchedule[]> {
+    return this.db
+      .query<ScheduleRow, []>('SELECT * FROM schedules ORDER BY created_at, id')
+      .all()
+      .map(toStoredSchedule);
+  }
+
+  async updateSchedule(schedule: StoredSchedule): Promise<boolean> {
+    const result = this.db
+      .query(
+        `
+        UPDATE schedules
+        SET name = ?, cron = ?, timezone = ?, request = ?, overlap = ?, paused = ?,
+            next_run_at = ?, updated_at = ${NOW_MS}
+        WHERE id = ?
+        `
+      )
+      .run(
+        schedule.name,
+        schedule.cron,
+        schedule.timezone,
+        JSON.stringify(schedule.request),
+        schedule.overlap,
+        schedule.paused ? 1 : 0,
+        schedule.next_run_at.getTime(),
+        schedule.id
+      );
+
+    return result.changes > 0;
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    return this.db.query('DELETE FROM schedules WHERE id = ?').run(scheduleId).changes > 0;
+  }
+
+  async getDueSchedules(now: Date, limit: number): Promise<StoredSchedule[]> {
+    return this.db
+      .query<ScheduleRow, [number, number]>(
+        `
+        SELECT * FROM schedules
+        WHERE paused = 0 AND next_run_at <= ?
+        ORDER BY next_run_at
+        LIMIT ?
+        `
+      )
+      .all(now.getTime(), limit)
+      .map(toStoredSchedule);
+  }
+
+  async advanceSchedule(
+    scheduleId: string,
+    runAt: Date,
+    nextRunAt: Date,
+    requestId: string | null
+  ): Promise<boolean> {
+    const result = this.db
+      .query(
+        `
+        UPDATE schedules
+        SET next_run_at = ?3, last_run_at = ?2,
+            last_request_id = COALESCE(?4, last_request_id), updated_at = ${NOW_MS}
+        WHERE id = ?1 AND next_run_at = ?2 AND paused = 0
+        `
+      )
+      .run(scheduleId, runAt.getTime(), nextRunAt.getTime(), requestId);
+
+    return result.changes > 0;
+  }
+
+  // ============================================================================
+  // Transaction Support
+  // ============================================================================
+
+  async withTransaction<T>(fn: (db: Database) => T): Promise<T> {
+    return this.db.transaction(() => fn(this.db))();
+  }
+}
@@ -7,8 +7,29 @@ import { z } from 'zod';
 export const HttpMethodSchema = z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
 export type HttpMethod = z.infer<typeof HttpMethodSchema>;
 
+export const ResponseStoragePolicySchema = z.enum(['none', 'headers', 'truncated', 'full']);
+export type ResponseStoragePolicy = z.infer<typeof ResponseStoragePolicySchema>;
+
+/**
+ * What a request's failure (dead-lettering or cancellation) means for the
+ * requests depending on it: cancel them ('fail'), let them run anyway
+ * ('skip', dead-lettering only), or cancel them and run the compensations
+ * of the workflow's completed steps ('compensate').
+ */
+export const FailurePolicySchema = z.enum(['fail', 'skip', 'compensate']);
+export type FailurePolicy = z.infer<typeof FailurePolicySchema>;
+
+export const OrderingPolicySchema = z.enum(['block', 'skip']);
+export type OrderingPolicy = z.infer<typeof OrderingPolicySchema>;
+
+/** Letters, digits, '_' and '-'; requests without a queue go to 'default'. */
+export const QueueNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{1,32}$/, 'Queue names are 1-32 letters, digits, underscores or hyphens');
+
 export const QueueRequestSchema = z.object({
   id: z.string().uuid().optional(),
+  queue: QueueNameSchema.default('default'),
   url: z.string().url(),
   method: HttpMethodSchema,
   headers: z.record(z.string()).optional(),
@@ -18,12 +39,36 @@ export const QueueRequestSchema = z.object({
   timeout: z.number().int().min(0).optional(),
   scheduledFor: z.date().optional(),
   metadata: z.record(z.unknown()).optional(),
+  /** Overrides `responseStorage.policy` for this request. */
+  responseStorage: ResponseStoragePolicySchema.optional(),
+  /** Enqueues with the same key within the window return the first request. */
+  idempotencyKey: z.string().min(1).max(255).optional(),
+  /** How long the key is held (ms); defaults to `idempotencyWindow`. */
+  idempotencyWindow: z.number().int().positive().optional(),
+  /** Requests that must complete first. URL, headers and body may use their responses. */
+  dependsOn: z.array(z.string().uuid()).optional(),
+  /** Default 'fail'. */
+  onFailure: FailurePolicySchema.optional(),
+  /** Requests with the same key run one at a time, in the order saved. Not combinable with `dependsOn`. */
+  orderingKey: z.string().min(1).max(255).optional(),
+  /** Whether the key stays blocked if this request goes dead; defaults to `ordering.onDead`. */
+  orderingPolicy: OrderingPolicySchema.optional(),
 });
 
+/** A request whose URL is rendered from its dependencies' responses; checked once rendered. */
+export const TemplatedRequestSchema = QueueRequestSchema.extend({ url: z.string().min(1) });
+
 export type QueueRequestInput = z.input<typeof QueueRequestSchema>;
 export type QueueRequest = z.infer<typeof QueueRequestSchema> & {
   id: string;
   createdAt: Date;
+  /** Set on the steps of a workflow. */
+  workflowId?: string;
+  step?: string;
+  /** Request run if the workflow fails under the 'compensate' policy after this step completed. */
+  compensation?: QueueRequestInput;
+  /** Set on the members of a batch created by `enqueueMany`. */
+  batchId?: string;
 };
 
 export interface QueueResponse {
@@ -34,6 +79,12 @@ export interface QueueResponse {
   duration: number;
   attempt: number;
   completedAt: Date;
+  /** Bytes of body received, capped at `maxResponseBodyBytes`. */
+  bodySize?: number;
+  /** Set when `body` is only the start of the response body. */
+  bodyTruncated?: boolean;
+  /** Blob store reference holding the body, when it was offloaded. */
+  bodyRef?: string;
 }
 
 // ============================================================================
@@ -41,6 +92,7 @@ export interface QueueResponse {
 // ============================================================================
 
 export type RequestStatus = 
+  | 'waiting'
   | 'pending'
   | 'scheduled'
   | 'processing'
@@ -105,20 +157,270 @@ export interface BackpressureConfig {
   circuitBreaker?: CircuitBreakerConfig;
 }
 
+// ============================================================================
+// Queue Types
+// ============================================================================
+
+/** Settings of a named queue; those left out fall back to the top-level ones. */
+export interface NamedQueueConfig {
+  retry?: Partial<RetryConfig>;
+  backpressure?: Partial<BackpressureConfig>;
+  workerCount?: number;
+}
+
+export interface QueueConfig {
+  name: string;
+  retry: RetryConfig;
+  backpressure: BackpressureConfig;
+  workerCount: number;
+}
+
+export interface QueueInfo {
+  name: string;
+  /** Whether this instance runs workers for the queue. */
+  serving: boolean;
+  /** Whether this instance's workers for the queue are paused. */
+  paused: boolean;
+  workerCount: number;
+}
+
+// ============================================================================
+// Recovery Types
+// ============================================================================
+
+export interface RecoveryConfig {
+  /** Run the lease reaper on this instance. */
+  enabled: boolean;
+  /** Lease granted at dequeue and renewed while the request runs (ms). */
+  leaseTimeout: number;
+  /** How often to scan for expired leases (ms). */
+  checkInterval: number;
+  /** How often this instance refreshes its heartbeat (ms). */
+  heartbeatInterval: number;
+}
+
+export type RecoveryOutcome = 'requeued' | 'dead';
+
+/**
+ * Request ids currently held in each queue structure.
+ */
+export interface QueueSnapshot {
+  pending: string[];
+  scheduled: string[];
+  processing: string[];
+}
+
+/**
+ * Discrepancies between the queue backend and the state store that a
+ * reconciliation run fixed.
+ */
+export interface ReconciliationReport {
+  /** Rows missing from the queue, added back to it. */
+  requeued: string[];
+  /** Scheduled or retrying rows missing from the scheduled set, added back to it. */
+  rescheduled: string[];
+  /** Queued rows whose request payload was missing and was rewritten. */
+  restoredPayloads: string[];
+  /** Queue entries dropped because their row is terminal or gone. */
+  removed: string[];
+  startedAt: Date;
+  completedAt: Date;
+}
+
+// ============================================================================
+// Retention Types
+// ============================================================================
+
+export type FinishedStatus = 'completed' | 'dead' | 'cancelled';
+
+export type RetentionArchive = 'none' | 'table' | 'ndjson';
+
+export interface RetentionConfig {
+  /** Run the retention scheduler on this instance. */
+  enabled: boolean;
+  /** Delete completed requests after this many days; undefined keeps them. */
+  completedAfterDays?: number;
+  /** Delete dead requests after this many days. */
+  deadAfterDays?: number;
+  /** Delete cancelled requests after this many days. */
+  cancelledAfterDays?: number;
+  /** Rows deleted per batch. */
+  batchSize: number;
+  /** How often retention runs (ms). */
+  interval: number;
+  /** Where rows are copied before deletion. */
+  archive: RetentionArchive;
+  /** Directory for NDJSON archive files when `archive` is 'ndjson'. */
+  archiveDirectory?: string;
+}
+
+export interface RetentionReport {
+  deleted: Record<FinishedStatus, number>;
+  archived: number;
+  /** Queue backend payloads removed because no queued request refers to them. */
+  orphanedPayloads: number;
+  /** Idempotency keys removed because their window ended. */
+  idempotencyKeys: number;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+// ============================================================================
+// Outbox Types
+// ============================================================================
+
+/**
+ * The part of a pg client (`PoolClient` or `Client`) used to enqueue inside
+ * a caller's transaction.
+ */
+export interface TransactionClient {
+  query(text: string, values?: unknown[]): Promise<unknown>;
+}
+
+export interface OutboxConfig {
+  /** Relay requests enqueued in caller transactions on this instance. */
+  enabled: boolean;
+  /** How often the outbox is polled (ms). */
+  pollInterval: number;
+  /** Outbox rows handed to the queue backend per transaction. */
+  batchSize: number;
+}
+
+// ============================================================================
+// Response Storage Types
+// ============================================================================
+
+/**
+ * Keeps response bodies too large for the database. `put` returns the
+ * reference stored on the response in place of the body.
+ */
+export interface BlobStore {
+  put(key: string, data: Uint8Array): Promise<string>;
+  get(reference: string): Promise<Uint8Array | null>;
+  delete(reference: string): Promise<void>;
+}
+
+export interface ResponseStorageConfig {
+  /**
+   * What is stored of a successful response: nothing, status and headers,
+   * the first `truncateBytes` of the body, or the whole body.
+   */
+  policy: ResponseStoragePolicy;
+  /** Most body bytes read from the network; the rest is discarded. */
+  maxResponseBodyBytes: number;
+  /** Body bytes kept by the 'truncated' policy. */
+  truncateBytes: number;
+  /** Under 'full', bodies larger than this go to `blobStore` when one is set. */
+  offloadThresholdBytes: number;
+  blobStore?: BlobStore;
+}
+
+// ============================================================================
+// Diagnostics Types
+// ============================================================================
+
+export interface DiagnosticsConfig {
+  /** Record what was sent and received with each attempt (default false). */
+  enabled: boolean;
+  /** Header names whose values are replaced with '[REDACTED]'. */
+  redactHeaders: RegExp;
+  /** Bytes of the response body kept as an excerpt. */
+  excerptBytes: number;
+}
+
+export interface AttemptTimings {
+  /** Until response headers arrived. */
+  headersMs?: number;
+  /** Reading the response body. */
+  bodyMs?: number;
+  totalMs: number;
+}
+
+export interface AttemptDiagnostics {
+  /** Outgoing headers after redaction. */
+  requestHeaders?: Record<string, string>;
+  /** SHA-256 (hex) of the request body as sent. */
+  requestBodySha256?: string;
+  /** Final URL after redirects. */
+  resolvedUrl?: string;
+  redirected?: boolean;
+  /** Start of the response body, decoded as text. */
+  responseExcerpt?: string;
+  timings?: AttemptTimings;
+}
+
+// ============================================================================
+// Encryption Types
+// ============================================================================
+
+export interface EncryptionConfig {
+  /** Base64-encoded 256-bit AES keys by key id. Keep retired keys until re-encrypted. */
+  keys: Record<string, string>;
+  /** Key id used for new writes. */
+  activeKeyId: string;
+}
+
+// ============================================================================
+// Partitioning Types
+// ============================================================================
+
+export type PartitionInterval = 'day' | 'week' | 'month';
+
+export interface PostgresPartitioningConfig {
+  /** Width of each partition (default 'day'). */
+  interval?: PartitionInterval;
+  /** Future partitions kept ready ahead of time (default 7). */
+  premake?: number;
+  /** Drop partitions entirely older than this many days (default: keep all). */
+  retentionDays?: number;
+  /** How often partitions are created and dropped (ms, default 1 hour). */
+  maintenanceInterval?: number;
+}
+
+export interface PartitionMaintenanceReport {
+  created: string[];
+  dropped: string[];
+  /** Expired partitions kept because they still hold unfinished requests. */
+  retained: string[];
+}
+
 // ============================================================================
 // Queue Manager Types
 // ============================================================================
 
+export type QueueBackendType = 'redis' | 'postgres' | 'memory';
+export type StateStoreType = 'postgres' | 'sqlite' | 'memory';
+
+export interface StorageConfig {
+  /**
+   * Queue backend to use. Defaults to a RedisStore built from `redis`.
+   * `'postgres'` queues on the `requests` table and requires `state: 'postgres'`.
+   */
+  queue?: QueueBackendType | QueueBackend;
+  /** Durable state store to use. Defaults to a PostgresStore built from `postgres`. */
+  state?: StateStoreType | StateStore;
+}
+
 export interface QueueManagerConfig {
-  redis: {
+  redis?: {
     url?: string;
     host?: string;
     port?: number;
     password?: string;
     db?: number;
     keyPrefix?: string;
+    /** Redis Cluster seed nodes. Each queue's keys get their own hash tag, so a queue lives in one slot */
+    cluster?: {
+      nodes: Array<{ host: string; port: number }>;
+    };
+    /** Sentinels to ask for the current master of `name`; `password` authenticates to the sentinels */
+    sentinel?: {
+      sentinels: Array<{ host: string; port: number }>;
+      name: string;
+      password?: string;
+    };
   };
-  postgres: {
+  postgres?: {
     connectionString?: string;
     host?: string;
     port?: number;
@@ -127,21 +429,92 @@ export interface QueueManagerConfig {
     password?: string;
     ssl?: boolean;
     poolSize?: number;
+    /** Schema holding the queue tables (default: the connection's search_path). */
+    schema?: string;
+    /** Prefix for table, index and trigger names, e.g. 'webhooks_'. */
+    tablePrefix?: string;
+    /**
+     * Apply pending migrations on startup (default true). When false, startup
+     * fails if migrations are pending, and `migrate()` must be run explicitly.
+     */
+    autoMigrate?: boolean;
+    /**
+     * Range-partition `requests` and `request_attempts` on `created_at`.
+     * Must be chosen when the schema is first created.
+     */
+    partitioning?: PostgresPartitioningConfig;
+  };
+  sqlite?: {
+    /** Database file path. Use ':memory:' for a throwaway database. */
+    filename?: string;
   };
+  /** Storage selection. `'memory'` runs both layers in-process with no services. */
+  storage?: 'memory' | StorageConfig;
   concurrency?: number;
   retry?: Partial<RetryConfig>;
   backpressure?: Partial<BackpressureConfig>;
   workerCount?: number;
   pollInterval?: number;
   gracefulShutdownTimeout?: number;
+  recovery?: Partial<RecoveryConfig>;
+  /** Reconcile the queue backend against the state store on startup (default true). */
+  reconcileOnStart?: boolean;
+  retention?: Partial<RetentionConfig>;
+  outbox?: Partial<OutboxConfig>;
+  responseStorage?: Partial<ResponseStorageConfig>;
+  diagnostics?: Partial<DiagnosticsConfig>;
+  /** Encrypt request headers and bodies stored in Redis and PostgreSQL. */
+  encryption?: EncryptionConfig;
+  /** Requests written per store and backend batch by `enqueueBulk` (default 1000). */
+  bulkChunkSize?: number;
+  /** Default time an idempotency key is held (ms, default 24 hours). */
+  idempotencyWindow?: number;
+  workflows?: Partial<WorkflowConfig>;
+  batches?: Partial<BatchConfig>;
+  schedules?: Partial<ScheduleConfig>;
+  ordering?: Partial<OrderingConfig>;
+  /**
+   * Named queues besides 'default', each with its own backend keys, workers,
+   * pause state and stats. Settings left out fall back to the top-level ones,
+   * which also configure 'default'.
+   */
+  queues?: Record<string, NamedQueueConfig>;
+  /** Queues this instance runs workers for (default: all of them). */
+  serve?: string[];
 }
 
 export interface EnqueueResult {
   id: string;
   position?: number;
+  /** Set when the idempotency key was taken; `id` is the original request. */
+  deduplicated?: boolean;
+  /** The batch created by `enqueueMany`. Deduplicated requests aren't members of it. */
+  batchId?: string;
+}
+
+export type BulkEnqueueItemStatus = 'enqueued' | 'deduplicated' | 'invalid' | 'failed';
+
+export interface BulkEnqueueItemResult {
+  /** Position of the input in the array passed to `enqueueBulk`. */
+  index: number;
+  status: BulkEnqueueItemStatus;
+  /** Set unless the input failed validation; the original request's id when deduplicated. */
+  id?: string;
+  error?: string;
+}
+
+export interface BulkEnqueueResult {
+  enqueued: number;
+  deduplicated: number;
+  invalid: number;
+  failed: number;
+  /** One entry per input, in input order. */
+  items: BulkEnqueueItemResult[];
 }
 
 export interface QueueStats {
+  /** Held until their dependencies finish. */
+  waiting: number;
   pending: number;
   processing: number;
   completed: number;
@@ -151,6 +524,219 @@ export interface QueueStats {
   successRate: number;
 }
 
+// ============================================================================
+// Search Types
+// ============================================================================
+
+export type RequestSortField = 'createdAt' | 'updatedAt';
+
+/** Inclusive lower and exclusive upper bound. */
+export interface TimeRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface RequestSearchQuery {
+  queue?: string | string[];
+  status?: RequestStatus | RequestStatus[];
+  /** Exact host, including a port if the URL has one. Case-insensitive. */
+  host?: string;
+  method?: HttpMethod | HttpMethod[];
+  /** Matches rows whose metadata contains this JSON. */
+  metadata?: Record<string, unknown>;
+  created?: TimeRange;
+  updated?: TimeRange;
+  /** Inclusive bounds on the number of attempts made. */
+  attempts?: { min?: number; max?: number };
+  /** Case-insensitive substring of the last error. */
+  error?: string;
+  /** Default 'createdAt'. */
+  sort?: RequestSortField;
+  /** Default 'desc'. */
+  order?: 'asc' | 'desc';
+  /** Page size, default 50, at most 1000. */
+  limit?: number;
+  /** `nextCursor` of the previous page, searched with the same sort and order. */
+  cursor?: string;
+}
+
+export interface RequestSearchPage<T> {
+  items: T[];
+  /** Null on the last page. */
+  nextCursor: string | null;
+}
+
+// ============================================================================
+// Workflow Types
+// ============================================================================
+
+/** A step's request, minus what the workflow sets itself. */
+export type WorkflowRequestInput = Omit<
+  QueueRequestInput,
+  'id' | 'dependsOn' | 'onFailure' | 'idempotencyKey' | 'idempotencyWindow' | 'orderingKey' | 'orderingPolicy'
+>;
+
+export interface WorkflowStepInput extends WorkflowRequestInput {
+  /** Names of the steps that must complete before this one runs. */
+  after?: string[];
+  /** Overrides the workflow's `onFailure` for this step. */
+  onFailure?: FailurePolicy;
+  /** Undoes this step when the workflow is compensated; may use `{{steps.<name>...}}`. */
+  compensate?: WorkflowRequestInput;
+}
+
+export interface WorkflowDefinition {
+  /** Steps by name. Names may use letters, digits, '_' and '-'. */
+  steps: Record<string, WorkflowStepInput>;
+  /** Default policy of every step (default 'fail'). */
+  onFailure?: FailurePolicy;
+}
+
+export interface WorkflowResult {
+  id: string;
+  /** Request id of each step. */
+  steps: Record<string, string>;
+}
+
+export type WorkflowStatus = 'running' | 'completed' | 'failed' | 'compensating' | 'compensated';
+
+export interface WorkflowStepState {
+  name: string;
+  requestId: string;
+  status: RequestStatus;
+  /** Names of the steps this one waits for. */
+  after: string[];
+  attempts: number;
+  error?: string;
+  response?: QueueResponse;
+}
+
+export interface WorkflowState {
+  id: string;
+  status: WorkflowStatus;
+  steps: WorkflowStepState[];
+  /** Compensation requests run after the workflow failed, named after the step they undo. */
+  compensations: WorkflowStepState[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkflowConfig {
+  /** Periodically release or cancel waiting requests whose dependencies finished. */
+  enabled: boolean;
+  /**
+   * How often waiting requests are checked (ms). Dependents are normally
+   * released as soon as a dependency finishes on this instance; the check
+   * covers dependencies finished by instances that stopped before doing so.
+   */
+  checkInterval: number;
+}
+
+// ============================================================================
+// Batch Types
+// ============================================================================
+
+export interface EnqueueManyOptions {
+  /** Track the saved requests as one batch, optionally with metadata. */
+  batch?: boolean | { metadata?: Record<string, unknown> };
+}
+
+export interface BatchState {
+  id: string;
+  /** Requests saved into the batch. */
+  total: number;
+  completed: number;
+  /** Members that finished without completing: dead or cancelled. */
+  failed: number;
+  dead: number;
+  cancelled: number;
+  /** Members that haven't finished yet. */
+  pending: number;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Set once every member has finished, when `onBatchComplete` fires. */
+  completedAt?: Date;
+}
+
+export interface BatchConfig {
+  /** Periodically complete batches whose members have all finished. */
+  enabled: boolean;
+  /**
+   * How often batches are checked (ms). A batch normally completes as soon
+   * as its last member finishes on this instance; the check covers members
+   * finished elsewhere, e.g. cancelled because a dependency failed.
+   */
+  checkInterval: number;
+}
+
+// ============================================================================
+// Schedule Types
+// ============================================================================
+
+/** 'skip' leaves out an occurrence while the previous run is unfinished; 'allow' doesn't. */
+export type OverlapPolicy = 'skip' | 'allow';
+
+/** The request each occurrence of a schedule enqueues. */
+export type ScheduleRequestInput = Omit<
+  QueueRequestInput,
+  'id' | 'scheduledFor' | 'dependsOn' | 'onFailure' | 'idempotencyKey' | 'idempotencyWindow'
+>;
+
+export interface ScheduleInput {
+  name?: string;
+  /** `minute hour day-of-month month day-of-week`, or a macro such as '@daily'. */
+  cron: string;
+  /** IANA time zone the expression is read in (default 'UTC'). */
+  timezone?: string;
+  request: ScheduleRequestInput;
+  /** Default 'skip'. */
+  overlap?: OverlapPolicy;
+  paused?: boolean;
+}
+
+export type ScheduleUpdate = Partial<ScheduleInput>;
+
+export interface Schedule {
+  id: string;
+  name?: string;
+  cron: string;
+  timezone: string;
+  request: ScheduleRequestInput;
+  overlap: OverlapPolicy;
+  paused: boolean;
+  /** The next occurrence to enqueue. */
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  /** Request enqueued by the most recent occurrence that wasn't skipped. */
+  lastRequestId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduleConfig {
+  /** Enqueue due occurrences from this instance; one instance does so at a time. */
+  enabled: boolean;
+  /** How often due schedules are looked for (ms). */
+  checkInterval: number;
+}
+
+// ============================================================================
+// Ordering Types
+// ============================================================================
+
+export interface OrderingConfig {
+  /** Periodically release ordering keys whose head finished elsewhere. */
+  enabled: boolean;
+  /** How often held ordering keys are checked (ms). */
+  checkInterval: number;
+  /**
+   * Policy of requests that don't set `orderingPolicy`: 'block' holds the
+   * rest of the key while its head is dead, 'skip' moves on to the next.
+   */
+  onDead: OrderingPolicy;
+}
+
 // ============================================================================
 // Event Types
 // ============================================================================
@@ -196,11 +782,53 @@ export interface StoredRequest {
   error: string | null;
   response: QueueResponse | null;
   metadata: Record<string, unknown> | null;
+  response_storage: ResponseStoragePolicy | null;
+  depends_on: string[] | null;
+  on_failure: FailurePolicy | null;
+  workflow_id: string | null;
+  step: string | null;
+  compensation: QueueRequestInput | null;
+  batch_id: string | null;
+  queue: string;
+  ordering_key: string | null;
+  ordering_policy: OrderingPolicy | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface StoredBatch {
+  id: string;
+  total: number;
+  completed: number;
+  dead: number;
+  cancelled: number;
+  metadata: Record<string, unknown> | null;
   created_at: Date;
   updated_at: Date;
   completed_at: Date | null;
 }
 
+export interface StoredSchedule {
+  id: string;
+  name: string | null;
+  cron: string;
+  timezone: string;
+  request: ScheduleRequestInput;
+  overlap: OverlapPolicy;
+  paused: boolean;
+  next_run_at: Date;
+  last_run_at: Date | null;
+  last_request_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface NewBatch {
+  id: string;
+  metadata?: Record<string, unknown>;
+}
+
 export interface RequestAttempt {
   id: string;
   request_id: string;
@@ -208,5 +836,297 @@ export interface RequestAttempt {
   status_code: number | null;
   duration_ms: number | null;
   error: string | null;
+  response_headers: Record<string, string> | null;
+  diagnostics: AttemptDiagnostics | null;
   created_at: Date;
 }
+
+export interface RequestWithAttempts extends StoredRequest {
+  attempt_log: RequestAttempt[];
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  checksum: string;
+  state: 'applied' | 'pending' | 'changed';
+  appliedAt?: Date;
+}
+
+export interface StoredCircuitBreakerState {
+  state: CircuitBreakerState;
+  failures: number;
+  successes: number;
+  lastFailure?: Date;
+  stateChangedAt?: Date;
+}
+
+export interface CircuitBreakerUpdate {
+  state?: CircuitBreakerState;
+  incrementFailures?: boolean;
+  incrementSuccesses?: boolean;
+  resetCounters?: boolean;
+}
+
+export interface RequestStatusUpdate {
+  attempts?: number;
+  lastAttemptAt?: Date;
+  nextRetryAt?: Date;
+  error?: string;
+  response?: QueueResponse;
+  completedAt?: Date;
+}
+
+export interface AttemptResult {
+  statusCode?: number;
+  durationMs?: number;
+  error?: string;
+  responseHeaders?: Record<string, string>;
+  diagnostics?: AttemptDiagnostics;
+}
+
+// ============================================================================
+// Storage Interfaces
+// ============================================================================
+
+export type QueueChannel = 'new-request' | 'retry';
+
+/**
+ * Fast, ephemeral queue state: ordering, scheduling, locks and the shared
+ * counters used by backpressure. Implemented by RedisStore. An instance
+ * serves the 'default' queue; `forQueue` gives the others.
+ */
+export interface QueueBackend {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  ping(): Promise<boolean>;
+
+  /**
+   * The backend for a named queue, sharing this one's connections, locks
+   * and heartbeats but with its own queue state, payloads, notifications,
+   * rate limits and circuit breakers. Only the root backend is connected.
+   */
+  forQueue(name: string): QueueBackend;
+
+  // Queue operations
+  enqueue(request: QueueRequest): Promise<number>;
+  enqueueMany(requests: QueueRequest[]): Promise<void>;
+  dequeue(ownerId?: string, leaseMs?: number): Promise<QueueRequest | null>;
+  extendLease(requestId: string, ownerId: string, leaseMs: number): Promise<boolean>;
+  // With an ownerId these succeed only while that owner still holds the lease
+  scheduleRetry(requestId: string, retryAt: Date, ownerId?: string): Promise<boolean>;
+  promoteScheduledRequests(): Promise<string[]>;
+  /** Moves a pending or scheduled request to run at a new time. */
+  reschedule(requestId: string, scheduledFor: Date): Promise<boolean>;
+  markComplete(requestId: string, ownerId?: string): Promise<boolean>;
+  moveToDead(requestId: string, ownerId?: string): Promise<boolean>;
+  cancel(requestId: string): Promise<boolean>;
+
+  // Request data
+  getRequest(requestId: string): Promise<QueueRequest | null>;
+  updateRequest(request: QueueRequest): Promise<void>;
+  deleteRequest(requestId: string): Promise<void>;
+
+  // Queue stats
+  getQueueSize(): Promise<number>;
+  getProcessingCount(): Promise<number>;
+  getScheduledCount(): Promise<number>;
+  getDeadCount(): Promise<number>;
+  getQueueSnapshot(): Promise<QueueSnapshot>;
+
+  // Retention
+  /**
+   * Deletes request payloads not referenced by any queued, scheduled or
+   * processing entry, one SCAN-style page at a time. Start and finish at '0'.
+   */
+  purgeOrphanedPayloads(cursor: string, count: number): Promise<{ cursor: string; purged: number }>;
+
+  // Encryption
+  /** Rewrites payloads stored in plaintext or under a retired key; returns the count. */
+  reencrypt?(): Promise<number>;
+
+  // Crash recovery
+  heartbeat(instanceId: string, ttlMs: number): Promise<void>;
+  getExpiredProcessing(): Promise<string[]>;
+
+  // Backpressure state
+  checkRateLimit(
+    key: string,
+    tokensPerSecond: number,
+    burstSize: number
+  ): Promise<{ allowed: boolean; retryAfter?: number }>;
+  getCircuitBreakerState(host: string): Promise<StoredCircuitBreakerState>;
+  updateCircuitBreaker(host: string, update: CircuitBreakerUpdate): Promise<void>;
+
+  // Notifications
+  subscribe(
+    channel: QueueChannel,
+    handler: (message: string) => void | Promise<void>
+  ): Promise<void>;
+  unsubscribe(): Promise<void>;
+
+  // Distributed locking
+  acquireLock(resource: string, ttlMs: number): Promise<{ acquired: boolean; lockId?: string }>;
+  releaseLock(resource: string, lockId: string): Promise<boolean>;
+}
+
+/**
+ * Durable request state: the source of truth for request status, attempts
+ * and statistics. Implemented by PostgresStore.
+ */
+export interface StateStore {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  ping(): Promise<boolean>;
+  initializeSchema(): Promise<void>;
+
+  // Request operations
+  /**
+   * Saves a request. If its idempotency key is held by another request whose
+   * window hasn't ended, nothing is saved and that request's id is returned.
+   */
+  saveRequest(request: QueueRequest): Promise<string | null>;
+  /**
+   * Saves requests atomically, creating `batch` first if given; returns, per
+   * request, as `saveRequest` does.
+   */
+  saveRequestBatch(requests: QueueRequest[], batch?: NewBatch): Promise<(string | null)[]>;
+  getRequest(requestId: string): Promise<StoredRequest | null>;
+  updateRequestStatus(
+    requestId: string,
+    status: RequestStatus,
+    additionalData?: RequestStatusUpdate
+  ): Promise<void>;
+  deleteRequest(requestId: string): Promise<void>;
+  /** Sets 'scheduled' rows among these ids back to 'pending' once promoted. */
+  promoteScheduled(requestIds: string[]): Promise<void>;
+  /** Moves a pending or scheduled row to 'scheduled' at a new time. */
+  rescheduleRequest(requestId: string, scheduledFor: Date): Promise<boolean>;
+
+  // Attempt logging
+  logAttempt(requestId: string, attemptNumber: number, result: AttemptResult): Promise<void>;
+  getAttempts(requestId: string): Promise<RequestAttempt[]>;
+
+  // Queries
+  getRequestsByStatus(
+    status?: RequestStatus,
+    limit?: number,
+    offset?: number,
+    host?: string
+  ): Promise<StoredRequest[]>;
+  getDeadLetterRequests(limit?: number): Promise<StoredRequest[]>;
+  getScheduledRequests(limit?: number, offset?: number): Promise<StoredRequest[]>;
+  /** Pending, scheduled and processing rows, ordered by id for keyset paging. */
+  getActiveRequests(afterId?: string, limit?: number): Promise<StoredRequest[]>;
+  /** Filtered, keyset-paginated listing behind `QueueManager.search`. */
+  searchRequests(query: RequestSearchQuery): Promise<RequestSearchPage<StoredRequest>>;
+  /** Resets a dead request for another run; false if it isn't dead. */
+  retryDeadRequest(requestId: string): Promise<boolean>;
+  /** Counts for one queue, or for all of them. */
+  getStats(queue?: string): Promise<QueueStats>;
+
+  // Cleanup
+  cleanupCompleted(olderThanDays: number): Promise<number>;
+  cleanupDead(olderThanDays: number): Promise<number>;
+  /**
+   * Oldest rows in `status` finished before `olderThan`, with their attempts.
+   * Encrypted fields are left sealed, as they are archived.
+   */
+  getExpiredRequests(
+    status: FinishedStatus,
+    olderThan: Date,
+    limit: number
+  ): Promise<RequestWithAttempts[]>;
+  /**
+   * Deletes rows, their attempts and their idempotency keys, copying the rows
+   * to the archive table first if asked.
+   */
+  deleteRequests(requestIds: string[], archive?: boolean): Promise<number>;
+  /** Removes idempotency keys whose window has ended; returns the count. */
+  purgeIdempotencyKeys(): Promise<number>;
+
+  // Dependencies
+  /** Waiting rows that list this request in `depends_on`. */
+  getDependents(requestId: string): Promise<StoredRequest[]>;
+  /** Waiting rows held by dependencies, ordered by id for keyset paging. */
+  getWaitingRequests(afterId?: string, limit?: number): Promise<StoredRequest[]>;
+  /** Every row of a workflow, its compensations included, oldest first. */
+  getWorkflowRequests(workflowId: string): Promise<StoredRequest[]>;
+  /**
+   * Moves a waiting row to 'pending' (or 'scheduled' if it has a time),
+   * writing the rendered URL, headers and body. False if it wasn't waiting.
+   */
+  releaseRequest(
+    requestId: string,
+    rendered: Pick<QueueRequest, 'url' | 'headers' | 'body'>
+  ): Promise<boolean>;
+  /** Moves a waiting row to 'cancelled'. False if it wasn't waiting. */
+  cancelWaiting(requestId: string, error?: string): Promise<boolean>;
+
+  // Ordering
+  /**
+   * Moves the first-saved waiting row with the key to 'pending' (or 'scheduled'),
+   * unless another row with the key is queued, processing, or dead under the
+   * 'block' policy. Returns the released row; concurrent callers release it once.
+   */
+  releaseOrderingHead(orderingKey: string): Promise<StoredRequest | null>;
+  /** Keys with waiting rows, in order for keyset paging. */
+  getHeldOrderingKeys(afterKey?: string, limit?: number): Promise<string[]>;
+  /** Switches the key's blocking dead rows to 'skip'; returns the count. */
+  unblockOrderingKey(orderingKey: string): Promise<number>;
+
+  // Batches
+  /** A batch, with member counts kept up to date as members are saved and finish. */
+  getBatch(batchId: string): Promise<StoredBatch | null>;
+  /** Members that haven't finished, ordered by id for keyset paging. */
+  getBatchRequests(batchId: string, afterId?: string, limit?: number): Promise<StoredRequest[]>;
+  /**
+   * Marks the batch complete if every member has finished and it isn't
+   * already. Returns the batch only to the caller that marked it.
+   */
+  completeBatch(batchId: string): Promise<StoredBatch | null>;
+  /** As `completeBatch`, for up to `limit` batches whose members have all finished. */
+  completeFinishedBatches(limit: number): Promise<StoredBatch[]>;
+  /** Clears a batch's completion so it is completed, and reported, again. */
+  reopenBatch(batchId: string): Promise<void>;
+
+  // Schedules
+  saveSchedule(schedule: StoredSchedule): Promise<void>;
+  getSchedule(scheduleId: string): Promise<StoredSchedule | null>;
+  /** Every schedule, oldest first. */
+  listSchedules(): Promise<StoredSchedule[]>;
+  /** Writes the schedule's definition and next run. False if it doesn't exist. */
+  updateSchedule(schedule: StoredSchedule): Promise<boolean>;
+  deleteSchedule(scheduleId: string): Promise<boolean>;
+  /** Unpaused schedules whose next run is at or before `now`, soonest first. */
+  getDueSchedules(now: Date, limit: number): Promise<StoredSchedule[]>;
+  /**
+   * Records that the occurrence at `runAt` was handled and moves the next run
+   * to `nextRunAt`, keeping the last request id if `requestId` is null.
+   * False if the schedule was paused or its next run changed meanwhile.
+   */
+  advanceSchedule(
+    scheduleId: string,
+    runAt: Date,
+    nextRunAt: Date,
+    requestId: string | null
+  ): Promise<boolean>;
+
+  // Transactional outbox
+  /**
+   * Writes the row and an outbox entry with the caller's transaction client.
+   * Returns as `saveRequest` does.
+   */
+  saveRequestInTransaction?(client: TransactionClient, request: QueueRequest): Promise<string | null>;
+  /**
+   * Passes up to `limit` committed outbox entries that are still pending,
+   * scheduled or waiting on an ordering key to `publish`, then removes the
+   * entries. Entries locked by
+   * another relay are skipped. Returns how many entries were consumed.
+   */
+  relayOutbox?(limit: number, publish: (rows: StoredRequest[]) => Promise<void>): Promise<number>;
+
+  // Encryption
+  /** Rewrites rows stored in plaintext or under a retired key; returns the count. */
+  reencrypt?(): Promise<number>;
+}
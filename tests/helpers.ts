@@ -0,0 +1,46 @@
+// ============================================================================
+// Shared Test Helpers
+// ============================================================================
+
+/**
+ * Polls `check` every 20ms until it holds or about four seconds have passed.
+ * Callers assert afterwards, so a timeout shows up as a failed expectation.
+ */
+export async function until(check: () => boolean | Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 200 && !(await check()); i++) {
+    await Bun.sleep(20);
+  }
+}
+
+export interface TestServer {
+  /** `http://localhost:<port>`, to prefix request paths with. */
+  base: string;
+  /** Paths requested so far, in order. */
+  paths: string[];
+  stop(): void;
+}
+
+/**
+ * Starts a local HTTP server on a free port and records each path it is
+ * asked for. `respond` may answer a request; otherwise paths starting with
+ * `/fail` get a 500 and everything else `{ ok: true }`.
+ */
+export function startServer(
+  respond?: (req: Request, path: string) => Response | undefined | Promise<Response | undefined>
+): TestServer {
+  const paths: string[] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const path = new URL(req.url).pathname;
+      paths.push(path);
+
+      const response = await respond?.(req, path);
+      if (response) return response;
+
+      return path.startsWith('/fail') ? new Response('no', { status: 500 }) : Response.json({ ok: true });
+    },
+  });
+
+  return { base: `http://localhost:${server.port}`, paths, stop: () => server.stop(true) };
+}
@@ -0,0 +1,144 @@
+import { describe, test, expect } from 'bun:test';
+import { QueueManager } from '../../src/core/queue-manager';
+import { SqliteStore } from '../../src/storage/sqlite';
+import { createRequest } from '../../src/core/request';
+import type { BatchState } from '../../src/types';
+import { startServer, until } from '../helpers';
+
+describe('Batches', () => {
+  test('reports a batch once every member has finished', async () => {
+    const server = startServer();
+    const { base } = server;
+    const queue = await QueueManager.create({ storage: 'memory' });
+    const completed: BatchState[] = [];
+    queue.onBatchComplete((batch) => {
+      completed.push(batch);
+    });
+
+    try {
+      const results = await queue.enqueueMany(
+        [
+          { url: `${base}/a`, method: 'POST' },
+          { url: `${base}/b`, method: 'POST' },
+          { url: `${base}/fail`, method: 'POST', maxRetries: 0 },
+        ],
+        { batch: { metadata: { import: 42 } } }
+      );
+      const batchId = results[0]!.batchId!;
+
+      expect(results.every((r) => r.batchId === batchId)).toBe(true);
+      expect(await queue.getBatch(batchId)).toMatchObject({ total: 3, pending: 3, completedAt: undefined });
+
+      await queue.start();
+      await until(() => completed.length > 0);
+      expect(await queue.checkBatches()).toBe(0);
+
+      expect(completed).toHaveLength(1);
+      expect(completed[0]).toMatchObject({
+        id: batchId,
+        total: 3,
+        completed: 2,
+        failed: 1,
+        dead: 1,
+        cancelled: 0,
+        pending: 0,
+        metadata: { import: 42 },
+      });
+      expect((await queue.getBatch(batchId))?.completedAt).toBeInstanceOf(Date);
+    } finally {
+      await queue.shutdown();
+      server.stop();
+    }
+  });
+
+  test('cancels the members that have not run', async () => {
+    const queue = await QueueManager.create({ storage: 'memory' });
+    const completed: BatchState[] = [];
+    queue.onBatchComplete((batch) => {
+      completed.push(batch);
+    });
+
+    try {
+      const later = new Date(Date.now() + 60_000);
+      const [first] = await queue.enqueueMany(
+        [
+          { url: 'https://api.example.com/a', method: 'GET', scheduledFor: later },
+          { url: 'https://api.example.com/b', method: 'GET', idempotencyKey: 'b' },
+        ],
+        { batch: true }
+      );
+
+      expect(await queue.cancelBatch(first!.batchId!)).toBe(2);
+      expect(completed).toMatchObject([{ id: first!.batchId, total: 2, cancelled: 2, failed: 2 }]);
+
+      // Only a duplicate: the batch has no members and completes right away
+      const [duplicate] = await queue.enqueueMany(
+        [{ url: 'https://api.example.com/b', method: 'GET', idempotencyKey: 'b' }],
+        { batch: true }
+      );
+
+      expect(duplicate?.deduplicated).toBe(true);
+      expect(completed[1]).toMatchObject({ id: duplicate!.batchId, total: 0 });
+    } finally {
+      await queue.shutdown();
+    }
+  });
+
+  test('reports a batch again after its handler throws', async () => {
+    const queue = await QueueManager.create({ storage: 'memory' });
+    const completed: BatchState[] = [];
+    let calls = 0;
+    queue.onBatchComplete((batch) => {
+      if (calls++ === 0) throw new Error('handler failed');
+      completed.push(batch);
+    });
+
+    try {
+      const later = new Date(Date.now() + 60_000);
+      const [first] = await queue.enqueueMany(
+        [{ url: 'https://api.example.com/a', method: 'GET', scheduledFor: later }],
+        { batch: true }
+      );
+      const batchId = first!.batchId!;
+
+      await queue.cancelBatch(batchId);
+      expect(completed).toEqual([]);
+      expect((await queue.getBatch(batchId))?.completedAt).toBeUndefined();
+
+      expect(await queue.checkBatches()).toBe(1);
+      expect(await queue.checkBatches()).toBe(0);
+      expect(completed).toMatchObject([{ id: batchId, cancelled: 1 }]);
+    } finally {
+      await queue.shutdown();
+    }
+  });
+
+  test('counts members in the store as they finish', async () => {
+    const store = new SqliteStore({ filename: ':memory:' });
+    await store.connect();
+    await store.initializeSchema();
+
+    const batchId = crypto.randomUUID();
+    const [a, b] = [1, 2].map(() => ({
+      ...createRequest({ url: 'https://api.example.com', method: 'GET' }),
+      batchId,
+    }));
+    await store.saveRequestBatch([a!, b!], { id: batchId });
+
+    await store.updateRequestStatus(a!.id, 'processing');
+    await store.updateRequestStatus(a!.id, 'dead');
+    expect(await store.completeBatch(batchId)).toBeNull();
+    expect((await store.getBatchRequests(batchId)).map((r) => r.id)).toEqual([b!.id]);
+
+    // Retrying a dead member takes it off the dead count
+    await store.retryDeadRequest(a!.id);
+    await store.updateRequestStatus(a!.id, 'completed');
+    await store.updateRequestStatus(b!.id, 'completed');
+
+    expect(await store.completeBatch(batchId)).toMatchObject({ total: 2, completed: 2, dead: 0 });
+    expect(await store.completeBatch(batchId)).toBeNull();
+    expect(await store.completeFinishedBatches(10)).toEqual([]);
+
+    await store.disconnect();
+  });
+});
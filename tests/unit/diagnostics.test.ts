@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'bun:test';
+import { QueueManager } from '../../src/core/queue-manager';
+import { redactHeaders } from '../../src/core/diagnostics';
+import { DEFAULT_DIAGNOSTICS_CONFIG } from '../../src/config';
+import { startServer, until } from '../helpers';
+
+describe('Attempt Diagnostics', () => {
+  test('redacts secret-looking headers', () => {
+    expect(
+      redactHeaders(
+        { Authorization: 'Bearer abc', 'X-Webhook-Signature': 'sha256=1', 'Content-Type': 'text/plain' },
+        DEFAULT_DIAGNOSTICS_CONFIG.redactHeaders
+      )
+    ).toEqual({
+      Authorization: '[REDACTED]',
+      'X-Webhook-Signature': '[REDACTED]',
+      'Content-Type': 'text/plain',
+    });
+  });
+
+  test('records what was sent and received with each attempt', async () => {
+    const server = startServer((req, path) =>
+      path === '/old'
+        ? Response.redirect(new URL('/hook', req.url), 307)
+        : new Response('accepted '.repeat(10), { headers: { 'content-type': 'text/plain' } })
+    );
+
+    const queue = await QueueManager.create({
+      storage: 'memory',
+      diagnostics: { enabled: true, excerptBytes: 8 },
+    });
+
+    try {
+      const { id } = await queue.enqueue({
+        url: `${server.base}/old`,
+        method: 'POST',
+        headers: { 'X-Api-Key': 'secret', 'Content-Type': 'application/json' },
+        body: { event: 'paid' },
+      });
+      await queue.start();
+
+      await until(async () => (await queue.getStatus(id))?.status === 'completed');
+
+      const [attempt] = await queue.getAttempts(id);
+      expect(attempt?.status_code).toBe(200);
+      expect(attempt?.diagnostics).toMatchObject({
+        requestHeaders: { 'X-Api-Key': '[REDACTED]', 'Content-Type': 'application/json' },
+        requestBodySha256: new Bun.CryptoHasher('sha256').update('{"event":"paid"}').digest('hex'),
+        resolvedUrl: `${server.base}/hook`,
+        redirected: true,
+        responseExcerpt: 'accepted',
+      });
+      expect(attempt?.diagnostics?.timings?.totalMs).toBeGreaterThanOrEqual(0);
+    } finally {
+      await queue.shutdown();
+      server.stop();
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'bun:test';
+import { randomBytes } from 'node:crypto';
+import { FieldEncryptor, isEncryptedField } from '../../src/core/encryption';
+import { createRequest } from '../../src/core/request';
+import { createStateStore } from '../../src/storage/factory';
+
+const key = () => randomBytes(32).toString('base64');
+
+describe('FieldEncryptor', () => {
+  const keys = { k1: key(), k2: key() };
+
+  test('encrypts headers and body and decrypts them back', () => {
+    const encryptor = new FieldEncryptor({ keys, activeKeyId: 'k1' });
+    const request = createRequest({
+      url: 'https://api.example.com/hook',
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret' },
+      body: { email: 'someone@example.com' },
+    });
+
+    const sealed = encryptor.seal(request);
+
+    expect(isEncryptedField(sealed.headers)).toBe(true);
+    expect(isEncryptedField(sealed.body)).toBe(true);
+    expect(JSON.stringify(sealed)).not.toContain('secret');
+    expect(sealed.url).toBe(request.url);
+    expect(encryptor.open(sealed)).toEqual(request);
+  });
+
+  test('rejects ciphertext moved to another request', () => {
+    const encryptor = new FieldEncryptor({ keys, activeKeyId: 'k1' });
+    const sealed = encryptor.seal({ id: 'a', body: { amount: 100 } });
+
+    expect(() => encryptor.open({ id: 'b', body: sealed.body })).toThrow();
+  });
+
+  test('decrypts with retired keys and flags rows for rotation', () => {
+    const before = new FieldEncryptor({ keys, activeKeyId: 'k1' });
+    const after = new FieldEncryptor({ keys, activeKeyId: 'k2' });
+    const sealed = before.seal({ id: 'a', headers: { 'X-Api-Key': 'abc' }, body: null });
+
+    expect(after.open(sealed).headers).toEqual({ 'X-Api-Key': 'abc' });
+    expect(after.needsRotation(sealed)).toBe(true);
+    expect(after.needsRotation(after.seal(after.open(sealed)))).toBe(false);
+
+    // Plaintext from before encryption was enabled reads as-is
+    expect(after.open({ id: 'b', body: { plain: true } }).body).toEqual({ plain: true });
+    expect(after.needsRotation({ id: 'b', body: { plain: true } })).toBe(true);
+  });
+
+  test('validates keys', () => {
+    expect(() => new FieldEncryptor({ keys: { k1: 'c2hvcnQ=' }, activeKeyId: 'k1' })).toThrow('32 bytes');
+    expect(() => new FieldEncryptor({ keys, activeKeyId: 'k3' })).toThrow('not configured');
+    expect(() =>
+      new FieldEncryptor({ keys: { k3: key() }, activeKeyId: 'k3' }).open(
+        new FieldEncryptor({ keys, activeKeyId: 'k1' }).seal({ id: 'a', body: 1 })
+      )
+    ).toThrow('Unknown encryption key k1');
+  });
+
+  test('is refused by state stores that cannot encrypt', () => {
+    const encryption = { keys: { k1: key() }, activeKeyId: 'k1' };
+
+    expect(() => createStateStore({ storage: { state: 'sqlite' }, encryption })).toThrow(
+      "Encryption is not supported by the 'sqlite' state store"
+    );
+    expect(() => createStateStore({ storage: 'memory', encryption })).toThrow('not supported');
+    expect(createStateStore({ storage: { state: 'sqlite' }, sqlite: { filename: ':memory:' } })).toBeDefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'bun:test';
+import { QueueManager } from '../../src/core/queue-manager';
+import { SqliteStore } from '../../src/storage/sqlite';
+import { createRequest } from '../../src/core/request';
+
+const hook = (idempotencyKey: string) => ({
+  url: 'https://hooks.example.com/orders',
+  method: 'POST' as const,
+  body: { order: idempotencyKey },
+  idempotencyKey,
+});
+
+describe('Idempotency Keys', () => {
+  test('returns the original request for a repeated key', async () => {
+    const queue = await QueueManager.create({ storage: 'memory' });
+
+    try {
+      const first = await queue.enqueue(hook('order-1'));
+      const again = await queue.enqueue(hook('order-1'));
+
+      expect(again).toEqual({ id: first.id, deduplicated: true });
+      expect((await queue.getStats()).pending).toBe(1);
+
+      const batch = await queue.enqueueMany([hook('order-2'), hook('order-1'), hook('order-2')]);
+      expect(batch[1]).toEqual({ id: first.id, deduplicated: true });
+      expect(batch[2]).toEqual({ id: batch[0]!.id, deduplicated: true });
+
+      const bulk = await queue.enqueueBulk([hook('order-3'), hook('order-3')]);
+      expect(bulk.enqueued).toBe(1);
+      expect(bulk.deduplicated).toBe(1);
+      expect(bulk.items[1]).toEqual({ index: 1, status: 'deduplicated', id: bulk.items[0]!.id! });
+    } finally {
+      await queue.shutdown();
+    }
+  });
+
+  test('frees a key when its window ends or its request is deleted', async () => {
+    const store = new SqliteStore({ filename: ':memory:' });
+    await store.connect();
+    await store.initializeSchema();
+
+    const expired = { ...createRequest(hook('a')), idempotencyWindow: 1 };
+    expired.createdAt = new Date(Date.now() - 1000);
+    const held = createRequest(hook('b'));
+
+    expect(await store.saveRequestBatch([expired, held])).toEqual([null, null]);
+    expect(await store.saveRequest(createRequest(hook('a')))).toBeNull();
+    expect(await store.saveRequest(createRequest(hook('b')))).toBe(held.id);
+
+    await store.deleteRequests([held.id]);
+    expect(await store.saveRequest(createRequest(hook('b')))).toBeNull();
+    expect(await store.purgeIdempotencyKeys()).toBe(0);
+
+    await store.disconnect();
+  });
+});
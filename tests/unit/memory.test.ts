@@ -0,0 +1,264 @@
+import { describe, test, expect } from 'bun:test';
+import { MemoryQueueBackend, MemoryStateStore } from '../../src/storage/memory';
+import { QueueManager } from '../../src/core/queue-manager';
+import { createRequest } from '../../src/core/request';
+import { startServer, until } from '../helpers';
+
+describe('Memory Storage', () => {
+  describe('MemoryQueueBackend', () => {
+    test('dequeues by priority, then insertion order', async () => {
+      const backend = new MemoryQueueBackend();
+      const low = createRequest({ url: 'https://api.example.com/low', method: 'GET', priority: 10 });
+      const first = createRequest({ url: 'https://api.example.com/1', method: 'GET', priority: 90 });
+      const second = createRequest({ url: 'https://api.example.com/2', method: 'GET', priority: 90 });
+
+      await backend.enqueueMany([low, first, second]);
+
+      expect((await backend.dequeue())?.id).toBe(first.id);
+      expect((await backend.dequeue())?.id).toBe(second.id);
+      expect((await backend.dequeue())?.id).toBe(low.id);
+      expect(await backend.dequeue()).toBeNull();
+      expect(await backend.getProcessingCount()).toBe(3);
+    });
+
+    test('promotes scheduled requests once due', async () => {
+      const backend = new MemoryQueueBackend();
+      const request = createRequest({ url: 'https://api.example.com/data', method: 'GET' });
+
+      await backend.enqueue(request);
+      await backend.dequeue();
+      await backend.scheduleRetry(request.id, new Date(Date.now() + 60000));
+
+      expect(await backend.promoteScheduledRequests()).toEqual([]);
+      expect(await backend.getScheduledCount()).toBe(1);
+
+      await backend.scheduleRetry(request.id, new Date(Date.now() - 1));
+
+      expect(await backend.promoteScheduledRequests()).toEqual([request.id]);
+      expect(await backend.getQueueSize()).toBe(1);
+      expect(await backend.getProcessingCount()).toBe(0);
+    });
+
+    test('holds delayed requests until due, then queues them at their priority', async () => {
+      const backend = new MemoryQueueBackend();
+      const normal = createRequest({ url: 'https://api.example.com/normal', method: 'GET', priority: 50 });
+      const delayed = createRequest({
+        url: 'https://api.example.com/delayed',
+        method: 'GET',
+        priority: 90,
+        scheduledFor: new Date(Date.now() + 60000),
+      });
+
+      await backend.enqueueMany([normal, delayed]);
+      expect(await backend.getQueueSize()).toBe(1);
+      expect(await backend.getScheduledCount()).toBe(1);
+
+      expect(await backend.reschedule(delayed.id, new Date(Date.now() - 1))).toBe(true);
+      expect(await backend.promoteScheduledRequests()).toEqual([delayed.id]);
+
+      expect((await backend.dequeue())?.id).toBe(delayed.id);
+      expect((await backend.dequeue())?.id).toBe(normal.id);
+      expect(await backend.reschedule(normal.id, new Date())).toBe(false);
+    });
+
+    test('only the lease owner can release a request', async () => {
+      const backend = new MemoryQueueBackend();
+      const request = createRequest({ url: 'https://api.example.com/data', method: 'GET' });
+
+      await backend.enqueue(request);
+      await backend.dequeue('worker-a', 60000);
+
+      expect(await backend.extendLease(request.id, 'worker-b', 60000)).toBe(false);
+      expect(await backend.markComplete(request.id, 'worker-b')).toBe(false);
+      expect(await backend.getProcessingCount()).toBe(1);
+
+      expect(await backend.extendLease(request.id, 'worker-a', 60000)).toBe(true);
+      expect(await backend.markComplete(request.id, 'worker-a')).toBe(true);
+      expect(await backend.getProcessingCount()).toBe(0);
+    });
+
+    test('reports leases that ran out as expired', async () => {
+      const backend = new MemoryQueueBackend();
+      const request = createRequest({ url: 'https://api.example.com/data', method: 'GET' });
+
+      await backend.heartbeat('worker-a', 60000);
+      await backend.enqueue(request);
+      await backend.dequeue('worker-a', -1);
+
+      expect(await backend.getExpiredProcessing()).toEqual([request.id]);
+
+      await backend.extendLease(request.id, 'worker-a', 60000);
+      expect(await backend.getExpiredProcessing()).toEqual([]);
+    });
+
+    test('cancels queued and scheduled requests', async () => {
+      const backend = new MemoryQueueBackend();
+      const request = createRequest({ url: 'https://api.example.com/data', method: 'GET' });
+
+      await backend.enqueue(request);
+
+      expect(await backend.cancel(request.id)).toBe(true);
+      expect(await backend.cancel(request.id)).toBe(false);
+    });
+
+    test('token bucket denies once burst is exhausted', async () => {
+      const backend = new MemoryQueueBackend();
+
+      expect((await backend.checkRateLimit('global', 1, 2)).allowed).toBe(true);
+      expect((await backend.checkRateLimit('global', 1, 2)).allowed).toBe(true);
+
+      const denied = await backend.checkRateLimit('global', 1, 2);
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfter).toBeGreaterThan(0);
+    });
+
+    test('locks are exclusive until released', async () => {
+      const backend = new MemoryQueueBackend();
+
+      const lock = await backend.acquireLock('job', 1000);
+      expect(lock.acquired).toBe(true);
+      expect((await backend.acquireLock('job', 1000)).acquired).toBe(false);
+
+      expect(await backend.releaseLock('job', lock.lockId!)).toBe(true);
+      expect((await backend.acquireLock('job', 1000)).acquired).toBe(true);
+    });
+  });
+
+  describe('MemoryStateStore', () => {
+    test('tracks status and computes stats', async () => {
+      const store = new MemoryStateStore();
+      const ok = createRequest({ url: 'https://api.example.com/ok', method: 'GET' });
+      const bad = createRequest({ url: 'https://api.example.com/bad', method: 'GET' });
+      const later = createRequest({
+        url: 'https://api.example.com/later',
+        method: 'GET',
+        scheduledFor: new Date(Date.now() + 60000),
+      });
+
+      await store.saveRequestBatch([ok, bad, later]);
+      expect((await store.getRequest(later.id))?.status).toBe('scheduled');
+
+      await store.logAttempt(ok.id, 1, { statusCode: 200, durationMs: 100 });
+      await store.updateRequestStatus(ok.id, 'completed', { completedAt: new Date() });
+      await store.logAttempt(bad.id, 1, { statusCode: 500, durationMs: 300 });
+      await store.updateRequestStatus(bad.id, 'dead', { error: 'HTTP 500' });
+
+      const stats = await store.getStats();
+      expect(stats.pending).toBe(1);
+      expect(stats.completed).toBe(1);
+      expect(stats.dead).toBe(1);
+      expect(stats.successRate).toBe(0.5);
+      expect(stats.avgProcessingTime).toBe(200);
+    });
+
+    test('retries dead requests', async () => {
+      const store = new MemoryStateStore();
+      const request = createRequest({ url: 'https://api.example.com/data', method: 'GET' });
+
+      await store.saveRequest(request);
+      await store.updateRequestStatus(request.id, 'dead', { attempts: 3, error: 'HTTP 500' });
+      await store.retryDeadRequest(request.id);
+
+      const stored = await store.getRequest(request.id);
+      expect(stored?.status).toBe('pending');
+      expect(stored?.attempts).toBe(0);
+      expect(stored?.error).toBeNull();
+    });
+  });
+
+  describe('QueueManager with memory storage', () => {
+    test('retries a dead request with its own settings, and only a dead one', async () => {
+      let calls = 0;
+      const server = startServer(() =>
+        calls++ === 0 ? new Response('no', { status: 500 }) : Response.json({ secret: true })
+      );
+      const queue = await QueueManager.create({ storage: 'memory' });
+
+      try {
+        await queue.start();
+        const { id } = await queue.enqueue({
+          url: `${server.base}/hook`,
+          method: 'POST',
+          maxRetries: 0,
+          responseStorage: 'none',
+        });
+        await until(async () => (await queue.getStatus(id))?.status === 'dead');
+
+        expect(await queue.retryDeadRequest(id)).toBe(true);
+        await until(async () => (await queue.getStatus(id))?.status === 'completed');
+        expect(await queue.getResponseBody(id)).toBeNull();
+
+        expect(await queue.retryDeadRequest(id)).toBe(false);
+        await Bun.sleep(50);
+        expect(server.paths).toHaveLength(2);
+      } finally {
+        await queue.shutdown();
+        server.stop();
+      }
+    });
+
+    test('enqueues, reports status and cancels without services', async () => {
+      const queue = await QueueManager.create({ storage: 'memory' });
+
+      const { id } = await queue.enqueue({ url: 'https://api.example.com/data', method: 'GET' });
+      expect((await queue.getStatus(id))?.status).toBe('pending');
+
+      expect(await queue.cancel(id)).toBe(true);
+      expect((await queue.getStatus(id))?.status).toBe('cancelled');
+
+      await queue.shutdown();
+    });
+
+    test('bulk enqueue reports a result per input', async () => {
+      const queue = await QueueManager.create({ storage: 'memory', bulkChunkSize: 2 });
+      const { id: taken } = await queue.enqueue({ url: 'https://api.example.com/0', method: 'GET' });
+
+      const result = await queue.enqueueBulk([
+        { url: 'https://api.example.com/1', method: 'GET' },
+        { url: 'not a url', method: 'GET' },
+        { url: 'https://api.example.com/2', method: 'POST' },
+        { id: taken, url: 'https://api.example.com/3', method: 'GET' },
+        { url: 'https://api.example.com/4', method: 'GET' },
+        { url: 'https://api.example.com/5', method: 'GET' },
+      ]);
+
+      expect(result.items.map((item) => item.status)).toEqual([
+        'enqueued',
+        'invalid',
+        'enqueued',
+        'failed',
+        'failed',
+        'enqueued',
+      ]);
+      expect(result).toMatchObject({ enqueued: 3, invalid: 1, failed: 2 });
+      expect(result.items[1]?.error).toContain('url');
+      expect(result.items[4]?.error).toContain('already exists');
+
+      // Failed chunks leave nothing behind, so they can be resubmitted
+      expect(await queue.getStatus(result.items[4]!.id!)).toBeNull();
+      expect((await queue.getStatus(result.items[5]!.id!))?.status).toBe('pending');
+
+      await queue.shutdown();
+    });
+
+    test('reschedules and lists delayed requests', async () => {
+      const queue = await QueueManager.create({ storage: 'memory' });
+      const later = new Date(Date.now() + 120000);
+
+      const { id } = await queue.enqueue({ url: 'https://api.example.com/data', method: 'GET' });
+      const delayed = await queue.enqueue({
+        url: 'https://api.example.com/delayed',
+        method: 'GET',
+        scheduledFor: new Date(Date.now() + 60000),
+      });
+
+      expect(await queue.reschedule(id, later)).toBe(true);
+
+      const scheduled = await queue.listScheduled();
+      expect(scheduled.map((r) => r.id)).toEqual([delayed.id, id]);
+      expect(scheduled[1]?.scheduled_for).toEqual(later);
+
+      await queue.shutdown();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'bun:test';
+import { resolvePostgresTables } from '../../src/storage/postgres-tables';
+import {
+  POSTGRES_MIGRATIONS,
+  migrationChecksum,
+  validateMigrations,
+} from '../../src/storage/migrations';
+
+describe('Schema Migrations', () => {
+  test('postgres migrations are strictly ordered', () => {
+    expect(() => validateMigrations(POSTGRES_MIGRATIONS)).not.toThrow();
+  });
+
+  test('rejects out-of-order migrations', () => {
+    expect(() =>
+      validateMigrations([
+        { version: 2, name: 'second', up: () => 'SELECT 2' },
+        { version: 1, name: 'first', up: () => 'SELECT 1' },
+      ])
+    ).toThrow('out of order');
+  });
+
+  test('checksum is stable and depends on the SQL', () => {
+    const migration = { version: 1, name: 'first', up: () => 'SELECT 1' };
+
+    expect(migrationChecksum(migration)).toBe(migrationChecksum({ ...migration }));
+    expect(migrationChecksum(migration)).not.toBe(
+      migrationChecksum({ ...migration, up: () => 'SELECT 2' })
+    );
+  });
+
+  test('renders migrations against the configured table names', () => {
+    const tables = resolvePostgresTables({ schema: 'billing', tablePrefix: 'hooks_' });
+    const sql = POSTGRES_MIGRATIONS.map((m) => m.up(tables)).join('\n');
+
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS billing.hooks_requests (');
+    expect(sql).toContain('REFERENCES billing.hooks_requests(id)');
+    expect(sql).toContain('idx_hooks_requests_status ON billing.hooks_requests(status)');
+    expect(sql).toContain('EXECUTE FUNCTION billing.hooks_update_updated_at()');
+    expect(sql).not.toMatch(/\s(requests|request_attempts)\(/);
+  });
+
+  test('renders partitioned tables without the attempts foreign key', () => {
+    const tables = resolvePostgresTables({ partitioning: {} });
+    const sql = POSTGRES_MIGRATIONS[0]!.up(tables);
+
+    expect(sql).toContain(') PARTITION BY RANGE (created_at);');
+    expect(sql).toContain('PRIMARY KEY (id, created_at)');
+    expect(sql).not.toContain('REFERENCES');
+    expect(migrationChecksum(POSTGRES_MIGRATIONS[0]!, tables)).not.toBe(
+      migrationChecksum(POSTGRES_MIGRATIONS[0]!)
+    );
+  });
+
+  test('rejects unsafe schema and prefix names', () => {
+    expect(() => resolvePostgresTables({ schema: 'public; DROP' })).toThrow();
+    expect(() => resolvePostgresTables({ tablePrefix: 'a-b' })).toThrow();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect } from 'bun:test';
+import { QueueManager } from '../../src/core/queue-manager';
+import { SqliteStore } from '../../src/storage/sqlite';
+import { createRequest } from '../../src/core/request';
+import { startServer, until } from '../helpers';
+
+describe('Ordering keys', () => {
+  test('runs a key one request at a time while other keys move on', async () => {
+    let failures = 0;
+    const server = startServer((_, path) =>
+      path === '/a1' && failures++ === 0 ? new Response('busy', { status: 503 }) : undefined
+    );
+    const hits = server.paths;
+    const { base } = server;
+    const queue = await QueueManager.create({
+      storage: 'memory',
+      workerCount: 3,
+      retry: { baseDelay: 10, maxDelay: 10, jitter: false },
+    });
+
+    try {
+      const [a1, a2, a3] = await queue.enqueueMany(
+        ['/a1', '/a2', '/a3'].map((path) => ({ url: `${base}${path}`, method: 'POST', orderingKey: 'customer-a' }))
+      );
+      const b1 = await queue.enqueue({ url: `${base}/b1`, method: 'POST', orderingKey: 'customer-b' });
+
+      expect((await queue.getStatus(a2!.id))?.status).toBe('waiting');
+      expect((await queue.getStatus(a1!.id))?.request.orderingPolicy).toBe('block');
+
+      await queue.start();
+      await until(async () => (await queue.getStatus(a3!.id))?.status === 'completed');
+
+      // The retrying head held back its own key only
+      expect(hits.filter((path) => path.startsWith('/a'))).toEqual(['/a1', '/a1', '/a2', '/a3']);
+      expect(hits.indexOf('/b1')).toBeLessThan(hits.lastIndexOf('/a1'));
+      expect((await queue.getStatus(b1.id))?.status).toBe('completed');
+    } finally {
+      await queue.shutdown();
+      server.stop();
+    }
+  });
+
+  test('blocks or skips past a dead head as its policy says', async () => {
+    const server = startServer();
+    const { base } = server;
+    const queue = await QueueManager.create({ storage: 'memory' });
+
+    try {
+      await queue.start();
+
+      const blocking = await queue.enqueue({ url: `${base}/fail`, method: 'POST', maxRetries: 0, orderingKey: 'k1' });
+      const held = await queue.enqueue({ url: `${base}/ok`, method: 'POST', orderingKey: 'k1' });
+      const skipped = await queue.enqueue({
+        url: `${base}/fail`,
+        method: 'POST',
+        maxRetries: 0,
+        orderingKey: 'k2',
+        orderingPolicy: 'skip',
+      });
+      const next = await queue.enqueue({ url: `${base}/ok`, method: 'POST', orderingKey: 'k2' });
+
+      await until(async () => (await queue.getStatus(next.id))?.status === 'completed');
+      expect((await queue.getStatus(skipped.id))?.status).toBe('dead');
+      expect((await queue.getStatus(blocking.id))?.status).toBe('dead');
+      expect((await queue.getStatus(held.id))?.status).toBe('waiting');
+      expect(await queue.checkOrdering()).toBe(0);
+
+      expect(await queue.unblockOrderingKey('k1')).toBe(true);
+      await until(async () => (await queue.getStatus(held.id))?.status === 'completed');
+      expect((await queue.getStatus(held.id))?.status).toBe('completed');
+    } finally {
+      await queue.shutdown();
+      server.stop();
+    }
+  });
+
+  test('releases heads in the store in creation order', async () => {
+    const store = new SqliteStore({ filename: ':memory:' });
+    await store.connect();
+    await store.initializeSchema();
+
+    const [first, second] = [1, 2].map((i) =>
+      createRequest({ url: `https://api.example.com/${i}`, method: 'GET', orderingKey: 'k', orderingPolicy: 'block' })
+    );
+    await store.saveRequestBatch([first!, second!]);
+
+    expect(await store.getWaitingRequests()).toEqual([]);
+    expect(await store.getHeldOrderingKeys()).toEqual(['k']);
+    expect((await store.releaseOrderingHead('k'))?.id).toBe(first!.id);
+    expect(await store.releaseOrderingHead('k')).toBeNull();
+
+    // A dead head under 'block' holds the key until retried or unblocked
+    await store.updateRequestStatus(first!.id, 'dead');
+    expect(await store.releaseOrderingHead('k')).toBeNull();
+
+    await store.retryDeadRequest(first!.id);
+    expect((await store.getRequest(first!.id))?.status).toBe('waiting');
+    expect((await store.releaseOrderingHead('k'))?.id).toBe(first!.id);
+
+    await store.updateRequestStatus(first!.id, 'dead');
+    expect(await store.unblockOrderingKey('k')).toBe(1);
+    expect((await store.releaseOrderingHead('k'))?.id).toBe(second!.id);
+
+    await store.disconnect();
+  });
+
+  test('rejects ordering keys on requests with dependencies', () => {
+    expect(() =>
+      createRequest({
+        url: 'https://api.example.com',
+        method: 'GET',
+        orderingKey: 'k',
+        dependsOn: [crypto.randomUUID()],
+      })
+    ).toThrow('orderingKey cannot be combined with dependsOn');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'bun:test';
+import { MemoryQueueBackend, MemoryStateStore } from '../../src/storage/memory';
+import { OutboxRelay } from '../../src/core/outbox-relay';
+import { OrderingCoordinator } from '../../src/core/ordering';
+import { QueueManager } from '../../src/core/queue-manager';
+import { createRequest } from '../../src/core/request';
+import { DEFAULT_ORDERING_CONFIG } from '../../src/config';
+import type { StoredRequest } from '../../src/types';
+
+// A state store with an outbox of committed rows, as PostgresStore keeps
+function storeWithOutbox(ids: string[]) {
+  const store = new MemoryStateStore();
+  const outbox = [...ids];
+
+  return Object.assign(store, {
+    async relayOutbox(limit: number, publish: (rows: StoredRequest[]) => Promise<void>) {
+      const batch = outbox.slice(0, limit);
+      const rows = await Promise.all(batch.map((id) => store.getRequest(id)));
+      await publish(
+        rows.filter(
+          (row): row is StoredRequest =>
+            row?.status === 'pending' || (row?.status === 'waiting' && row.ordering_key !== null)
+        )
+      );
+      outbox.splice(0, batch.length);
+      return batch.length;
+    },
+  });
+}
+
+describe('Outbox Relay', () => {
+  test('queues committed requests in batches', async () => {
+    const backend = new MemoryQueueBackend();
+    const requests = Array.from({ length: 5 }, (_, i) =>
+      createRequest({ url: `https://api.example.com/${i}`, method: 'POST' })
+    );
+    const store = storeWithOutbox(requests.map((r) => r.id));
+
+    await store.saveRequestBatch(requests);
+    await store.updateRequestStatus(requests[4]!.id, 'cancelled');
+
+    const relay = new OutboxRelay(backend, store, { enabled: true, pollInterval: 1000, batchSize: 2 });
+
+    expect(await relay.run()).toBe(5);
+    expect(await backend.getQueueSize()).toBe(4);
+    expect(await backend.getRequest(requests[4]!.id)).toBeNull();
+    expect(await relay.run()).toBe(0);
+  });
+
+  test('releases keyed requests into their queue', async () => {
+    const backend = new MemoryQueueBackend();
+    const [first, second] = [1, 2].map((i) =>
+      createRequest({ url: `https://api.example.com/${i}`, method: 'POST', orderingKey: 'account-1' })
+    );
+    const store = storeWithOutbox([first!.id, second!.id]);
+    const ordering = new OrderingCoordinator(backend, store, DEFAULT_ORDERING_CONFIG);
+
+    await store.saveRequestBatch([first!, second!]);
+
+    const relay = new OutboxRelay(backend, store, { enabled: true, pollInterval: 1000, batchSize: 10 }, (key) =>
+      ordering.release(key)
+    );
+
+    expect(await relay.run()).toBe(2);
+    expect(await backend.getQueueSize()).toBe(1);
+    expect((await backend.getRequest(first!.id))?.id).toBe(first!.id);
+    expect((await store.getRequest(second!.id))?.status).toBe('waiting');
+  });
+
+  test('requires a store that supports transactional enqueue', async () => {
+    const queue = await QueueManager.create({ storage: 'memory' });
+
+    try {
+      await expect(
+        queue.enqueueInTransaction({ query: async () => ({}) }, { url: 'https://api.example.com', method: 'GET' })
+      ).rejects.toThrow('requires the PostgreSQL state store');
+    } finally {
+      await queue.shutdown();
+    }
+  });
+});
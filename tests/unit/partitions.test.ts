@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import type { Pool } from 'pg';
+import { maintainPartitions } from '../../src/storage/partitions';
+import { resolvePostgresTables } from '../../src/storage/postgres-tables';
+
+// A pool whose expired partitions live in SQLite; catalog and DDL queries
+// are answered or ignored
+function poolWithPartitions(partitions: Record<string, string[]>) {
+  const db = new Database(':memory:');
+  const upperBound = new Date('2020-01-02T00:00:00Z');
+
+  for (const [name, statuses] of Object.entries(partitions)) {
+    db.run(`CREATE TABLE ${name} (status TEXT NOT NULL)`);
+    for (const status of statuses) db.run(`INSERT INTO ${name} VALUES (?)`, [status]);
+  }
+
+  const query = async (sql: string, values: unknown[] = []) => {
+    if (sql.includes('pg_inherits')) {
+      const prefix = `${values[0]}_`;
+      const rows = Object.keys(partitions)
+        .filter((name) => name.startsWith(prefix) && /^p\d+$/.test(name.slice(prefix.length)))
+        .map((name) => ({ name, upper_bound: upperBound }));
+      return { rows, rowCount: rows.length };
+    }
+    if (sql.includes('AS unfinished') || sql.startsWith('DROP TABLE')) {
+      const rows = db.query(sql).all() as { unfinished: number }[];
+      return { rows: rows.map((row) => ({ unfinished: row.unfinished === 1 })), rowCount: rows.length };
+    }
+    return { rows: [], rowCount: 0 };
+  };
+
+  return { db, pool: { query, connect: async () => ({ query, release() {} }) } as unknown as Pool };
+}
+
+describe('Partition Maintenance', () => {
+  test('keeps expired request partitions that still hold live work', async () => {
+    const tables = resolvePostgresTables({ partitioning: {} });
+    const { db, pool } = poolWithPartitions({
+      requests_p20200101: ['completed', 'waiting'],
+      requests_p20191231: ['completed', 'dead', 'cancelled'],
+    });
+
+    const report = await maintainPartitions(pool, tables, { premake: 0, retentionDays: 1 });
+
+    expect(report.retained).toEqual(['requests_p20200101']);
+    expect(report.dropped).toEqual(['requests_p20191231']);
+    expect(db.query(`SELECT COUNT(*) AS n FROM requests_p20200101`).get()).toEqual({ n: 2 });
+    db.close();
+  });
+});
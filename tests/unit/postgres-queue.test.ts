@@ -0,0 +1,154 @@
+import { describe, test, expect } from 'bun:test';
+import { EventEmitter } from 'node:events';
+import type { Pool } from 'pg';
+import { PostgresQueueBackend } from '../../src/storage/postgres-queue';
+import { MemoryStateStore } from '../../src/storage/memory';
+import { createRequest } from '../../src/core/request';
+
+interface Query {
+  sql: string;
+  values: unknown[];
+}
+
+// A pool that records each query and answers with `respond`, or no rows
+function recordingPool(respond: (sql: string) => unknown[] | undefined = () => undefined) {
+  const queries: Query[] = [];
+
+  const query = async (sql: string, values: unknown[] = []) => {
+    queries.push({ sql: sql.replace(/\s+/g, ' ').trim(), values });
+    const rows = respond(sql) ?? [];
+    return { rows, rowCount: rows.length };
+  };
+
+  return { queries, pool: { query, connect: async () => ({ query, release() {} }) } as unknown as Pool };
+}
+
+describe('PostgresQueueBackend', () => {
+  test('dequeues the next due request of its queue with SKIP LOCKED', async () => {
+    const store = new MemoryStateStore();
+    const request = createRequest({ url: 'https://api.example.com', method: 'GET', queue: 'webhooks' });
+    await store.saveRequest(request);
+    const row = await store.getRequest(request.id);
+
+    const { queries, pool } = recordingPool((sql) => (sql.includes('SKIP LOCKED') ? [row] : undefined));
+    const backend = new PostgresQueueBackend({}, undefined, pool).forQueue('webhooks');
+
+    expect((await backend.dequeue('worker-1', 5000))?.id).toBe(request.id);
+    expect(queries).toHaveLength(1);
+
+    const [{ sql, values }] = queries as [Query];
+    expect(sql).toContain(
+      "WHERE queue = $3 AND status = 'pending' AND (next_retry_at IS NULL OR next_retry_at <= NOW()) " +
+        'ORDER BY priority DESC, created_at LIMIT 1 FOR UPDATE SKIP LOCKED'
+    );
+    expect(sql).toContain("SET status = 'processing', locked_by = $1");
+    expect(values).toEqual(['worker-1', 5000, 'webhooks']);
+  });
+
+  test('finishes a request with its lease, only for its owner', async () => {
+    const { queries, pool } = recordingPool();
+    const backend = new PostgresQueueBackend({}, undefined, pool);
+
+    expect(await backend.markComplete('r1', 'worker-1')).toBe(false);
+    expect(await backend.moveToDead('r2')).toBe(false);
+
+    expect(queries.map((q) => q.values)).toEqual([
+      ['r1', 'worker-1', 'completed'],
+      ['r2', null, 'dead'],
+    ]);
+    expect(queries[0]!.sql).toContain('SET status = $3::varchar, locked_by = NULL');
+    expect(queries[0]!.sql).toContain('WHERE id = $1 AND ($2::text IS NULL OR locked_by = $2)');
+  });
+
+  test('promotes due scheduled rows and reports due retries without changing them', async () => {
+    const { queries, pool } = recordingPool((sql) =>
+      sql.includes('WITH promoted') ? [{ id: 'scheduled' }, { id: 'retry' }] : undefined
+    );
+    const backend = new PostgresQueueBackend({}, undefined, pool);
+
+    expect(await backend.promoteScheduledRequests()).toEqual(['scheduled', 'retry']);
+
+    const [promote, notify] = queries as [Query, Query];
+    expect(promote.sql).toContain(
+      "UPDATE requests SET status = 'pending' WHERE queue = $1 AND status = 'scheduled' AND scheduled_for <= NOW()"
+    );
+    expect(promote.sql).toContain(
+      "UNION ALL SELECT id FROM requests WHERE queue = $1 AND status = 'pending' AND next_retry_at <= NOW()"
+    );
+    expect(notify.values).toEqual(['hqm_new_request', 'promoted:2']);
+  });
+
+  test('takes rate limit tokens in one upsert, scoped to the queue', async () => {
+    const { queries, pool } = recordingPool((sql) =>
+      sql.includes('rate_limits') ? [{ tokens: 0.5, allowed: false }] : undefined
+    );
+    const backend = new PostgresQueueBackend({}, undefined, pool).forQueue('webhooks');
+
+    expect(await backend.checkRateLimit('api.example.com', 10, 5)).toEqual({
+      allowed: false,
+      retryAfter: 50,
+    });
+
+    const [{ sql, values }] = queries as [Query];
+    expect(sql).toContain('ON CONFLICT (key) DO UPDATE');
+    expect(values.slice(0, 3)).toEqual(['queues:webhooks:api.example.com', 10, 5]);
+  });
+
+  test('listens for every queue on one connection', async () => {
+    const { queries, pool } = recordingPool();
+    const client = new EventEmitter() as EventEmitter & { query: Pool['query']; release(): void };
+    let connects = 0;
+    let released = false;
+    client.query = pool.query;
+    client.release = () => {
+      released = true;
+    };
+    pool.connect = (async () => {
+      connects++;
+      return client;
+    }) as Pool['connect'];
+
+    const backend = new PostgresQueueBackend({}, undefined, pool);
+    const webhooks = backend.forQueue('webhooks');
+    const received: string[] = [];
+
+    await backend.subscribe('new-request', (message) => {
+      received.push(`default:${message}`);
+    });
+    await webhooks.subscribe('new-request', (message) => {
+      received.push(`webhooks:${message}`);
+    });
+    await webhooks.subscribe('retry', () => {});
+
+    client.emit('notification', { channel: 'hqm_new_request_webhooks', payload: 'r1' });
+    expect(received).toEqual(['webhooks:r1']);
+    expect(connects).toBe(1);
+
+    queries.length = 0;
+    await webhooks.unsubscribe();
+    expect(queries.map((q) => q.sql)).toEqual([
+      'UNLISTEN "hqm_new_request_webhooks"',
+      'UNLISTEN "hqm_retry_webhooks"',
+    ]);
+    expect(released).toBe(false);
+
+    await backend.unsubscribe();
+    expect(released).toBe(true);
+  });
+
+  test('finds processing rows with an expired lease or a silent owner', async () => {
+    const { queries, pool } = recordingPool(() => [{ id: 'r1' }]);
+    const backend = new PostgresQueueBackend({}, undefined, pool);
+
+    expect(await backend.getExpiredProcessing()).toEqual(['r1']);
+
+    const [{ sql, values }] = queries as [Query];
+    expect(sql).toContain("WHERE r.queue = $1 AND r.status = 'processing'");
+    expect(sql).toContain('r.lease_expires_at < NOW()');
+    expect(sql).toContain(
+      'r.locked_by IS NOT NULL AND NOT EXISTS ( SELECT 1 FROM queue_instances i ' +
+        'WHERE i.instance_id = r.locked_by AND i.expires_at > NOW() )'
+    );
+    expect(values).toEqual(['default']);
+  });
+});
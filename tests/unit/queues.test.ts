@@ -0,0 +1,86 @@
+import { describe, test, expect } from 'bun:test';
+import { QueueManager } from '../../src/core/queue-manager';
+import { MemoryQueueBackend, MemoryStateStore } from '../../src/storage/memory';
+import { Reconciler } from '../../src/core/reconciler';
+import { createRequest } from '../../src/core/request';
+import { startServer, until } from '../helpers';
+
+describe('Named queues', () => {
+  test('pauses and counts each queue on its own', async () => {
+    const server = startServer();
+    const { base } = server;
+    const queue = await QueueManager.create({
+      storage: 'memory',
+      queues: { bulk: { workerCount: 2, retry: { maxRetries: 1 } } },
+    });
+
+    try {
+      await queue.pause('bulk');
+      await queue.start();
+
+      const webhook = await queue.enqueue({ url: `${base}/hook`, method: 'POST' });
+      const backfill = await queue.enqueue({ queue: 'bulk', url: `${base}/fill`, method: 'POST' });
+
+      await until(async () => (await queue.getStatus(webhook.id))?.status === 'completed');
+      expect((await queue.getStatus(backfill.id))?.status).toBe('pending');
+      expect(await queue.getStats('bulk')).toMatchObject({ pending: 1, completed: 0 });
+      expect(await queue.getStats('default')).toMatchObject({ pending: 0, completed: 1 });
+      expect(queue.getQueues()).toEqual([
+        { name: 'default', serving: true, paused: false, workerCount: 1 },
+        { name: 'bulk', serving: true, paused: true, workerCount: 2 },
+      ]);
+
+      await queue.resume('bulk');
+      await until(async () => (await queue.getStatus(backfill.id))?.status === 'completed');
+      expect(await queue.getStats()).toMatchObject({ pending: 0, completed: 2 });
+    } finally {
+      await queue.shutdown();
+      server.stop();
+    }
+  });
+
+  test('serves only the listed queues', async () => {
+    const server = startServer();
+    const { base } = server;
+    const queue = await QueueManager.create({
+      storage: 'memory',
+      queues: { webhooks: {} },
+      serve: ['webhooks'],
+    });
+
+    try {
+      await queue.start();
+
+      const other = await queue.enqueue({ url: `${base}/other`, method: 'GET' });
+      const hook = await queue.enqueue({ queue: 'webhooks', url: `${base}/hook`, method: 'POST' });
+
+      await until(async () => (await queue.getStatus(hook.id))?.status === 'completed');
+      expect((await queue.getStatus(other.id))?.status).toBe('pending');
+      expect((await queue.search({ queue: 'webhooks' })).items.map((r) => r.id)).toEqual([hook.id]);
+      expect(queue.getQueues().map((q) => q.serving)).toEqual([false, true]);
+      await expect(queue.enqueue({ queue: 'nope', url: `${base}/x`, method: 'GET' })).rejects.toThrow(
+        'Unknown queue: nope'
+      );
+    } finally {
+      await queue.shutdown();
+      server.stop();
+    }
+
+    await expect(QueueManager.create({ storage: 'memory', serve: ['nope'] })).rejects.toThrow(
+      'Unknown queue: nope'
+    );
+  });
+
+  test('reconciles rows into the queue they belong to', async () => {
+    const backend = new MemoryQueueBackend();
+    const store = new MemoryStateStore();
+    const request = createRequest({ queue: 'bulk', url: 'https://api.example.com/fill', method: 'GET' });
+
+    await store.saveRequest(request);
+    const report = await new Reconciler(backend, store, ['default', 'bulk']).run();
+
+    expect(report?.requeued).toEqual([request.id]);
+    expect(await backend.getQueueSize()).toBe(0);
+    expect(await backend.forQueue('bulk').getQueueSize()).toBe(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, test, expect } from 'bun:test';
+import { MemoryQueueBackend, MemoryStateStore } from '../../src/storage/memory';
+import { LeaseReaper } from '../../src/core/reaper';
+import { createRequest } from '../../src/core/request';
+import { DEFAULT_RECOVERY_CONFIG, DEFAULT_RETRY_CONFIG } from '../../src/config';
+import type { RecoveryOutcome } from '../../src/types';
+
+async function setup(maxRetries: number) {
+  const backend = new MemoryQueueBackend();
+  const store = new MemoryStateStore();
+  const request = createRequest({ url: 'https://api.example.com/data', method: 'GET', maxRetries });
+
+  await store.saveRequest(request);
+  await backend.enqueue(request);
+
+  return { backend, store, request };
+}
+
+describe('LeaseReaper', () => {
+  test('requeues requests whose owner stopped heartbeating', async () => {
+    const { backend, store, request } = await setup(3);
+    const recovered: [string, RecoveryOutcome, number][] = [];
+
+    // Owner never sent a heartbeat, as if it crashed right after dequeueing
+    await backend.dequeue('crashed-instance');
+    await store.updateRequestStatus(request.id, 'processing', { attempts: 1 });
+
+    const reaper = new LeaseReaper(backend, store, 'reaper', DEFAULT_RECOVERY_CONFIG, DEFAULT_RETRY_CONFIG, {
+      onRecovered: (id, outcome, attempt) => {
+        recovered.push([id, outcome, attempt]);
+      },
+    });
+
+    expect(await reaper.reap()).toEqual([request.id]);
+    expect(recovered).toEqual([[request.id, 'requeued', 1]]);
+    expect(await backend.getProcessingCount()).toBe(0);
+    expect((await store.getRequest(request.id))?.status).toBe('pending');
+    expect(await backend.promoteScheduledRequests()).toEqual([request.id]);
+  });
+
+  test('leaves requests held by live owners alone', async () => {
+    const { backend, store } = await setup(3);
+
+    await backend.heartbeat('live-instance', 60000);
+    await backend.dequeue('live-instance');
+
+    const reaper = new LeaseReaper(backend, store, 'reaper', DEFAULT_RECOVERY_CONFIG, DEFAULT_RETRY_CONFIG);
+
+    expect(await reaper.reap()).toEqual([]);
+    expect(await backend.getProcessingCount()).toBe(1);
+  });
+
+  test('moves requests past their retry budget to the dead letter queue', async () => {
+    const { backend, store, request } = await setup(1);
+    const dead: string[] = [];
+
+    await backend.dequeue('crashed-instance');
+    await store.updateRequestStatus(request.id, 'processing', { attempts: 1 });
+
+    const reaper = new LeaseReaper(backend, store, 'reaper', DEFAULT_RECOVERY_CONFIG, DEFAULT_RETRY_CONFIG, {
+      onDead: (id) => {
+        dead.push(id);
+      },
+    });
+
+    await reaper.reap();
+
+    expect(dead).toEqual([request.id]);
+    expect((await store.getRequest(request.id))?.status).toBe('dead');
+    expect(await backend.getDeadCount()).toBe(1);
+  });
+
+  test("uses the retry budget of each request's queue", async () => {
+    const backend = new MemoryQueueBackend();
+    const store = new MemoryStateStore();
+    const webhooks = backend.forQueue('webhooks');
+    const request = createRequest({ url: 'https://api.example.com/hook', method: 'POST', queue: 'webhooks' });
+    delete request.maxRetries;
+
+    await store.saveRequest(request);
+    await webhooks.enqueue(request);
+    await webhooks.dequeue('crashed-instance');
+    await store.updateRequestStatus(request.id, 'processing', { attempts: 1 });
+
+    const reaper = new LeaseReaper(
+      backend,
+      store,
+      'reaper',
+      DEFAULT_RECOVERY_CONFIG,
+      DEFAULT_RETRY_CONFIG,
+      {},
+      new Map([
+        ['default', DEFAULT_RETRY_CONFIG],
+        ['webhooks', { ...DEFAULT_RETRY_CONFIG, maxRetries: 1 }],
+      ])
+    );
+
+    expect(await reaper.reap()).toEqual([request.id]);
+    expect((await store.getRequest(request.id))?.status).toBe('dead');
+  });
+});
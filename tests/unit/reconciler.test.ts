@@ -0,0 +1,60 @@
+import { describe, test, expect } from 'bun:test';
+import { MemoryQueueBackend, MemoryStateStore } from '../../src/storage/memory';
+import { Reconciler } from '../../src/core/reconciler';
+import { createRequest } from '../../src/core/request';
+
+describe('Reconciler', () => {
+  test('re-seeds pending and retrying rows lost by the backend', async () => {
+    const backend = new MemoryQueueBackend();
+    const store = new MemoryStateStore();
+    const pending = createRequest({ url: 'https://api.example.com/pending', method: 'GET' });
+    const retrying = createRequest({ url: 'https://api.example.com/retrying', method: 'GET' });
+    const retryAt = new Date(Date.now() + 60000);
+
+    await store.saveRequestBatch([pending, retrying]);
+    await store.updateRequestStatus(retrying.id, 'pending', { nextRetryAt: retryAt });
+
+    // Backend starts empty, as after a Redis flush
+    const report = await new Reconciler(backend, store).run();
+
+    expect(report?.requeued).toEqual([pending.id]);
+    expect(report?.rescheduled).toEqual([retrying.id]);
+    expect(report?.restoredPayloads.sort()).toEqual([pending.id, retrying.id].sort());
+    expect(await backend.getQueueSize()).toBe(1);
+    expect(await backend.getScheduledCount()).toBe(1);
+    expect((await backend.getRequest(retrying.id))?.url).toBe(retrying.url);
+  });
+
+  test('drops queue entries whose row is terminal or missing', async () => {
+    const backend = new MemoryQueueBackend();
+    const store = new MemoryStateStore();
+    const done = createRequest({ url: 'https://api.example.com/done', method: 'GET' });
+    const orphan = createRequest({ url: 'https://api.example.com/orphan', method: 'GET' });
+
+    await store.saveRequest(done);
+    await store.updateRequestStatus(done.id, 'completed');
+    await backend.enqueueMany([done, orphan]);
+
+    const report = await new Reconciler(backend, store).run();
+
+    expect(report?.removed.sort()).toEqual([done.id, orphan.id].sort());
+    expect(await backend.getQueueSize()).toBe(0);
+    expect(await backend.getRequest(orphan.id)).toBeNull();
+  });
+
+  test('leaves a consistent queue untouched', async () => {
+    const backend = new MemoryQueueBackend();
+    const store = new MemoryStateStore();
+    const request = createRequest({ url: 'https://api.example.com/data', method: 'GET' });
+
+    await store.saveRequest(request);
+    await backend.enqueue(request);
+
+    const report = await new Reconciler(backend, store).run();
+
+    expect(report?.requeued).toEqual([]);
+    expect(report?.rescheduled).toEqual([]);
+    expect(report?.restoredPayloads).toEqual([]);
+    expect(report?.removed).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, test, expect } from 'bun:test';
+import { RedisStore } from '../../src/storage/redis';
+import { hashTaggedPrefix, redisKeyPrefixes } from '../../src/config';
+
+describe('Redis Key Naming', () => {
+  test('hash-tags the key prefix', () => {
+    expect(hashTaggedPrefix('hqm:')).toBe('{hqm}:');
+    expect(hashTaggedPrefix('billing')).toBe('{billing}:');
+    expect(hashTaggedPrefix('{billing}:hooks:')).toBe('{billing}:hooks:');
+  });
+
+  test('tags each queue and the shared keys apart in cluster mode', () => {
+    expect(redisKeyPrefixes('hqm:', 'default', false)).toEqual({ queue: 'hqm:', shared: 'hqm:' });
+    expect(redisKeyPrefixes('hqm:', 'webhooks', false)).toEqual({ queue: 'hqm:queues:webhooks:', shared: 'hqm:' });
+
+    expect(redisKeyPrefixes('hqm:', 'default', true)).toEqual({ queue: '{hqm}:', shared: '{hqm:shared}:' });
+    expect(redisKeyPrefixes('hqm:', 'webhooks', true)).toEqual({
+      queue: '{hqm:queues:webhooks}:',
+      shared: '{hqm:shared}:',
+    });
+
+    // An explicit tag keeps everything in its slot
+    expect(redisKeyPrefixes('{billing}:', 'webhooks', true)).toEqual({
+      queue: '{billing}:queues:webhooks:',
+      shared: '{billing}:shared:',
+    });
+  });
+
+  test('caches named queue views', () => {
+    const cluster = new RedisStore({ keyPrefix: 'hqm:', cluster: { nodes: [{ host: 'localhost', port: 7000 }] } });
+    const webhooks = cluster.forQueue('webhooks');
+
+    expect(cluster.forQueue('webhooks')).toBe(webhooks);
+    expect(cluster.forQueue('default')).toBe(cluster);
+  });
+
+  test('rejects cluster and sentinel together', () => {
+    expect(() => new RedisStore({
+      cluster: { nodes: [{ host: 'localhost', port: 7000 }] },
+      sentinel: { sentinels: [{ host: 'localhost', port: 26379 }], name: 'mymaster' },
+    })).toThrow('cannot be combined');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readBody, decodeBody, toStoredResponse } from '../../src/core/response-body';
+import { FilesystemBlobStore } from '../../src/storage/blob-store';
+import { DEFAULT_RESPONSE_STORAGE_CONFIG } from '../../src/config';
+import type { QueueResponse } from '../../src/types';
+
+function streamOf(chunks: string[]): { response: Response; pulled: () => number } {
+  let pulled = 0;
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks[pulled++];
+      if (chunk === undefined) controller.close();
+      else controller.enqueue(encoder.encode(chunk));
+    },
+  });
+
+  return { response: new Response(stream), pulled: () => pulled };
+}
+
+function responseWith(body: unknown): QueueResponse {
+  return {
+    requestId: 'a1b2',
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+    body,
+    duration: 10,
+    attempt: 1,
+    completedAt: new Date(),
+  };
+}
+
+describe('Response Bodies', () => {
+  test('stops reading at the byte limit', async () => {
+    const { response, pulled } = streamOf(['aaaa', 'bbbb', 'cccc', 'dddd']);
+
+    const { bytes, truncated } = await readBody(response, 6);
+
+    expect(new TextDecoder().decode(bytes)).toBe('aaaabb');
+    expect(truncated).toBe(true);
+    expect(pulled()).toBeLessThan(4);
+  });
+
+  test('parses complete JSON and keeps cut-off JSON as text', () => {
+    const bytes = new TextEncoder().encode('{"ok":true}');
+
+    expect(decodeBody(bytes, 'application/json', false)).toEqual({ ok: true });
+    expect(decodeBody(bytes.subarray(0, 5), 'application/json', true)).toBe('{"ok"');
+  });
+
+  test('applies the storage policy', async () => {
+    const body = { data: 'x'.repeat(100) };
+    const bytes = new TextEncoder().encode(JSON.stringify(body));
+    const config = { ...DEFAULT_RESPONSE_STORAGE_CONFIG, truncateBytes: 20 };
+
+    expect(await toStoredResponse(responseWith(body), bytes, 'none', config)).toBeNull();
+    expect((await toStoredResponse(responseWith(body), bytes, 'headers', config))?.body).toBeNull();
+    expect(await toStoredResponse(responseWith(body), bytes, 'full', config)).toMatchObject({ body });
+
+    const truncated = await toStoredResponse(responseWith(body), bytes, 'truncated', config);
+    expect(truncated?.body).toBe('{"data":"xxxxxxxxxxx');
+    expect(truncated?.bodyTruncated).toBe(true);
+  });
+
+  test('offloads large bodies to the blob store', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'hqm-blobs-'));
+
+    try {
+      const blobStore = new FilesystemBlobStore(directory);
+      const config = { ...DEFAULT_RESPONSE_STORAGE_CONFIG, offloadThresholdBytes: 10, blobStore };
+      const bytes = new TextEncoder().encode(JSON.stringify({ data: 'large enough' }));
+
+      const stored = await toStoredResponse(responseWith({}), bytes, 'full', config);
+
+      expect(stored?.body).toBeNull();
+      expect(stored?.bodyRef).toBe('a1b2/1');
+      expect(await blobStore.get(stored!.bodyRef!)).toEqual(bytes);
+
+      await blobStore.delete(stored!.bodyRef!);
+      expect(await blobStore.get(stored!.bodyRef!)).toBeNull();
+      await expect(blobStore.get('../outside')).rejects.toThrow('Invalid blob reference');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
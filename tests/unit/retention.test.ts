@@ -0,0 +1,149 @@
+import { describe, test, expect } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { randomBytes } from 'node:crypto';
+import type { Pool } from 'pg';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryQueueBackend, MemoryStateStore } from '../../src/storage/memory';
+import { RetentionScheduler } from '../../src/core/retention';
+import { createRequest } from '../../src/core/request';
+import { DEFAULT_RETENTION_CONFIG } from '../../src/config';
+import { PostgresStore } from '../../src/storage/postgres';
+import { FieldEncryptor } from '../../src/core/encryption';
+
+async function seed(store: MemoryStateStore, count: number, completedAt: Date) {
+  const requests = Array.from({ length: count }, (_, i) =>
+    createRequest({ url: `https://api.example.com/${i}`, method: 'GET' })
+  );
+
+  await store.saveRequestBatch(requests);
+  for (const request of requests) {
+    await store.logAttempt(request.id, 1, { statusCode: 200, durationMs: 10 });
+    await store.updateRequestStatus(request.id, 'completed', { completedAt });
+  }
+
+  return requests;
+}
+
+describe('RetentionScheduler', () => {
+  test('deletes expired requests in batches and archives them to the table', async () => {
+    const backend = new MemoryQueueBackend();
+    const store = new MemoryStateStore();
+    const old = await seed(store, 5, new Date(0));
+    const recent = await seed(store, 1, new Date());
+
+    const retention = new RetentionScheduler(backend, store, {
+      ...DEFAULT_RETENTION_CONFIG,
+      batchSize: 2,
+      archive: 'table',
+    });
+
+    const report = await retention.run();
+
+    expect(report?.deleted).toEqual({ completed: 5, dead: 0, cancelled: 0 });
+    expect(report?.archived).toBe(5);
+    expect(await store.getRequest(old[0]!.id)).toBeNull();
+    expect(await store.getRequest(recent[0]!.id)).not.toBeNull();
+
+    const archived = store.getArchived();
+    expect(archived.map((r) => r.id).sort()).toEqual(old.map((r) => r.id).sort());
+    expect(archived[0]?.attempt_log).toHaveLength(1);
+  });
+
+  test('writes NDJSON archive files before deleting', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'hqm-retention-'));
+    const store = new MemoryStateStore();
+    const [request] = await seed(store, 1, new Date(0));
+
+    try {
+      const retention = new RetentionScheduler(new MemoryQueueBackend(), store, {
+        ...DEFAULT_RETENTION_CONFIG,
+        archive: 'ndjson',
+        archiveDirectory: directory,
+      });
+
+      await retention.run();
+
+      const day = new Date().toISOString().slice(0, 10);
+      const lines = (await readFile(join(directory, `requests-completed-${day}.ndjson`), 'utf8'))
+        .trim()
+        .split('\n');
+
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]!).id).toBe(request!.id);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('archives encrypted rows without decrypting them', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'hqm-retention-'));
+    const encryption = { keys: { k1: randomBytes(32).toString('base64') }, activeKeyId: 'k1' };
+    const request = createRequest({
+      url: 'https://api.example.com/hook',
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret' },
+      body: { email: 'someone@example.com' },
+    });
+    const row = { ...new FieldEncryptor(encryption).seal(request), status: 'completed' };
+
+    // Answers the queries a retention run makes with one expired, sealed row
+    let expired = [row];
+    const pool = {
+      async query(sql: string) {
+        if (sql.includes('COALESCE(completed_at, updated_at) <')) {
+          const rows = expired;
+          expired = [];
+          return { rows, rowCount: rows.length };
+        }
+        return { rows: [], rowCount: sql.includes('DELETE') ? 1 : 0 };
+      },
+    };
+    const store = new PostgresStore({}, encryption, pool as unknown as Pool);
+
+    try {
+      const retention = new RetentionScheduler(new MemoryQueueBackend(), store, {
+        ...DEFAULT_RETENTION_CONFIG,
+        archive: 'ndjson',
+        archiveDirectory: directory,
+      });
+
+      expect((await retention.run())?.deleted.completed).toBe(1);
+
+      const day = new Date().toISOString().slice(0, 10);
+      const archive = await readFile(join(directory, `requests-completed-${day}.ndjson`), 'utf8');
+
+      expect(JSON.parse(archive).id).toBe(request.id);
+      expect(archive).not.toContain('secret');
+      expect(archive).not.toContain('someone@example.com');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('purges payloads no queued request refers to', async () => {
+    const backend = new MemoryQueueBackend();
+    const queued = createRequest({ url: 'https://api.example.com/queued', method: 'GET' });
+    const finished = createRequest({ url: 'https://api.example.com/finished', method: 'GET' });
+
+    await backend.enqueueMany([queued, finished]);
+    await backend.dequeue();
+    await backend.markComplete(queued.id);
+
+    const report = await new RetentionScheduler(backend, new MemoryStateStore(), DEFAULT_RETENTION_CONFIG).run();
+
+    expect(report?.orphanedPayloads).toBe(1);
+    expect(await backend.getRequest(queued.id)).toBeNull();
+    expect(await backend.getRequest(finished.id)).not.toBeNull();
+  });
+
+  test('requires a directory for NDJSON archiving', () => {
+    expect(
+      () =>
+        new RetentionScheduler(new MemoryQueueBackend(), new MemoryStateStore(), {
+          ...DEFAULT_RETENTION_CONFIG,
+          archive: 'ndjson',
+        })
+    ).toThrow('archiveDirectory');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'bun:test';
+import { nextOccurrence, parseCron } from '../../src/core/cron';
+import { CronScheduler, planSchedule, reviseSchedule } from '../../src/core/schedules';
+import { createRequest } from '../../src/core/request';
+import { MemoryQueueBackend, MemoryStateStore } from '../../src/storage/memory';
+import { SqliteStore } from '../../src/storage/sqlite';
+import { DEFAULT_SCHEDULE_CONFIG } from '../../src/config';
+import type { QueueRequestInput } from '../../src/types';
+
+const next = (cron: string, timeZone: string, after: string) =>
+  nextOccurrence(parseCron(cron), timeZone, new Date(after)).toISOString();
+
+function createScheduler() {
+  const backend = new MemoryQueueBackend();
+  const store = new MemoryStateStore();
+  const enqueue = async (input: QueueRequestInput) => {
+    const request = createRequest(input);
+    const duplicateOf = await store.saveRequest(request);
+    if (!duplicateOf) await backend.enqueue(request);
+    return { id: duplicateOf ?? request.id };
+  };
+
+  return { store, scheduler: new CronScheduler(backend, store, DEFAULT_SCHEDULE_CONFIG, enqueue) };
+}
+
+describe('Schedules', () => {
+  test('finds occurrences in a time zone', () => {
+    expect(next('0 9 * * MON-FRI', 'America/New_York', '2026-10-17T00:00:00Z')).toBe(
+      '2026-10-19T13:00:00.000Z'
+    );
+    expect(next('0 0 1,15 * 5', 'UTC', '2026-10-02T00:00:00Z')).toBe('2026-10-09T00:00:00.000Z');
+    expect(next('@hourly', 'Asia/Kolkata', '2026-10-19T10:10:00Z')).toBe('2026-10-19T10:30:00.000Z');
+
+    // Skipped by the spring change: runs at 03:30 local instead
+    expect(next('30 2 * * *', 'Europe/Berlin', '2026-03-28T12:00:00Z')).toBe('2026-03-29T01:30:00.000Z');
+    // Repeated by the autumn change: runs once
+    expect(next('30 2 * * *', 'Europe/Berlin', '2026-10-25T00:30:00Z')).toBe('2026-10-26T01:30:00.000Z');
+
+    expect(() => parseCron('60 * * * *')).toThrow('bad minute "60"');
+    expect(() => parseCron('* * *')).toThrow('expected 5 fields');
+    expect(() =>
+      planSchedule({ cron: '* * * * *', timezone: 'Mars/Base', request: { url: 'https://a.com' } })
+    ).toThrow('Invalid time zone: Mars/Base');
+  });
+
+  test('enqueues each occurrence once and skips overlapping runs', async () => {
+    const { store, scheduler } = createScheduler();
+    const schedule = planSchedule(
+      { cron: '*/5 * * * *', request: { url: 'https://api.example.com/health', method: 'GET' } },
+      new Date('2026-10-19T10:01:00Z')
+    );
+    await store.saveSchedule(schedule);
+
+    expect(schedule.next_run_at.toISOString()).toBe('2026-10-19T10:05:00.000Z');
+    expect(await scheduler.run(new Date('2026-10-19T10:04:00Z'))).toBe(0);
+    expect(await scheduler.run(new Date('2026-10-19T10:05:01Z'))).toBe(1);
+
+    const first = (await store.getSchedule(schedule.id))!;
+    expect(first.next_run_at.toISOString()).toBe('2026-10-19T10:10:00.000Z');
+    expect((await store.getRequest(first.last_request_id!))?.url).toBe('https://api.example.com/health');
+
+    // The first run is still pending, so the next occurrence is skipped
+    expect(await scheduler.run(new Date('2026-10-19T10:10:00Z'))).toBe(0);
+    expect((await store.getSchedule(schedule.id))?.last_request_id).toBe(first.last_request_id);
+
+    // Missed occurrences are made up once, then the schedule carries on from now
+    await store.updateRequestStatus(first.last_request_id!, 'completed');
+    expect(await scheduler.run(new Date('2026-10-19T11:02:00Z'))).toBe(1);
+    const second = (await store.getSchedule(schedule.id))!;
+    expect(second.next_run_at.toISOString()).toBe('2026-10-19T11:05:00.000Z');
+
+    // Handling the same occurrence again finds the request already enqueued
+    await store.updateRequestStatus(second.last_request_id!, 'completed');
+    await store.updateSchedule({ ...second, next_run_at: new Date('2026-10-19T10:05:00Z') });
+    expect(await scheduler.run(new Date('2026-10-19T11:03:00Z'))).toBe(1);
+    expect((await store.getSchedule(schedule.id))?.last_request_id).toBe(first.last_request_id);
+    expect(await store.getRequestsByStatus()).toHaveLength(2);
+  });
+
+  test('stores, pauses and deletes schedules', async () => {
+    const store = new SqliteStore({ filename: ':memory:' });
+    await store.connect();
+    await store.initializeSchema();
+
+    const now = new Date('2026-10-19T10:00:00Z');
+    const schedule = planSchedule(
+      {
+        name: 'nightly sync',
+        cron: '0 2 * * *',
+        timezone: 'Europe/Berlin',
+        request: { url: 'https://partner.example.com/sync', method: 'POST', body: { full: true } },
+      },
+      now
+    );
+    await store.saveSchedule(schedule);
+
+    expect(await store.getSchedule(schedule.id)).toEqual(schedule);
+    expect(schedule.next_run_at.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+
+    const paused = reviseSchedule(schedule, { paused: true }, now);
+    await store.updateSchedule(paused);
+    expect(await store.getDueSchedules(new Date('2026-10-21T00:00:00Z'), 10)).toEqual([]);
+    expect(await store.advanceSchedule(schedule.id, schedule.next_run_at, now, null)).toBe(false);
+
+    // Resuming skips what was missed while paused
+    const resumed = reviseSchedule(paused, { paused: false }, new Date('2026-10-22T12:00:00Z'));
+    expect(resumed.next_run_at.toISOString()).toBe('2026-10-23T00:00:00.000Z');
+    await store.updateSchedule(resumed);
+    expect((await store.listSchedules()).map((s) => s.next_run_at)).toEqual([resumed.next_run_at]);
+
+    expect(await store.deleteSchedule(schedule.id)).toBe(true);
+    expect(await store.getSchedule(schedule.id)).toBeNull();
+
+    await store.disconnect();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'bun:test';
+import { MemoryStateStore } from '../../src/storage/memory';
+import { SqliteStore } from '../../src/storage/sqlite';
+import { createRequest } from '../../src/core/request';
+import type { StateStore } from '../../src/types';
+
+async function seed(store: StateStore): Promise<string[]> {
+  const requests = Array.from({ length: 5 }, (_, i) =>
+    createRequest({
+      url: i < 3 ? `https://API.example.com/orders/${i}` : `https://hooks.example.org:8443/${i}`,
+      method: i % 2 === 0 ? 'POST' : 'GET',
+      metadata: { tenant: i < 4 ? 'acme' : 'globex', index: i },
+    })
+  );
+  requests.forEach((request, i) => (request.createdAt = new Date(Date.UTC(2026, 0, 1, 0, i))));
+
+  await store.saveRequestBatch(requests);
+  await store.updateRequestStatus(requests[1]!.id, 'dead', { attempts: 3, error: 'HTTP 503: Service Unavailable' });
+
+  return requests.map((request) => request.id);
+}
+
+const stores: [string, () => Promise<StateStore>][] = [
+  ['memory', async () => new MemoryStateStore()],
+  ['sqlite', async () => {
+    const store = new SqliteStore({ filename: ':memory:' });
+    await store.connect();
+    await store.initializeSchema();
+    return store;
+  }],
+];
+
+describe('Request Search', () => {
+  for (const [name, createStore] of stores) {
+    test(`${name}: filters requests`, async () => {
+      const store = await createStore();
+      const ids = await seed(store);
+      const found = async (query: Parameters<StateStore['searchRequests']>[0]) =>
+        (await store.searchRequests(query)).items.map((request) => request.id);
+
+      expect(await found({ host: 'api.example.com' })).toEqual([ids[2], ids[1], ids[0]]);
+      expect(await found({ host: 'hooks.example.org:8443', method: 'GET' })).toEqual([ids[3]]);
+      expect(await found({ metadata: { tenant: 'acme' }, status: ['pending', 'scheduled'] })).toEqual([ids[3], ids[2], ids[0]]);
+      expect(await found({ attempts: { min: 1 }, error: 'service unavailable' })).toEqual([ids[1]]);
+      expect(await found({
+        created: { from: new Date(Date.UTC(2026, 0, 1, 0, 1)), to: new Date(Date.UTC(2026, 0, 1, 0, 3)) },
+        order: 'asc',
+      })).toEqual([ids[1], ids[2]]);
+
+      await store.disconnect();
+    });
+
+    test(`${name}: pages with cursors`, async () => {
+      const store = await createStore();
+      const ids = await seed(store);
+
+      const first = await store.searchRequests({ order: 'asc', limit: 2 });
+      const second = await store.searchRequests({ order: 'asc', limit: 2, cursor: first.nextCursor! });
+      const third = await store.searchRequests({ order: 'asc', limit: 2, cursor: second.nextCursor! });
+
+      expect([...first.items, ...second.items, ...third.items].map((request) => request.id)).toEqual(ids);
+      expect(third.nextCursor).toBeNull();
+      await expect(store.searchRequests({ cursor: first.nextCursor! })).rejects.toThrow('different sort order');
+
+      await store.disconnect();
+    });
+  }
+});
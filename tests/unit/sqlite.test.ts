@@ -0,0 +1,140 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { SqliteStore } from '../../src/storage/sqlite';
+import { createRequest } from '../../src/core/request';
+
+describe('SqliteStore', () => {
+  let store: SqliteStore;
+
+  beforeEach(async () => {
+    store = new SqliteStore({ filename: ':memory:' });
+    await store.connect();
+    await store.initializeSchema();
+  });
+
+  afterEach(async () => {
+    await store.disconnect();
+  });
+
+  test('round-trips requests with JSON and date columns', async () => {
+    const request = createRequest({
+      url: 'https://api.example.com/data',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: { items: [1, 2, 3] },
+      metadata: { tenant: 'acme' },
+      scheduledFor: new Date(Date.now() + 60000),
+    });
+
+    await store.saveRequest(request);
+    const stored = await store.getRequest(request.id);
+
+    expect(stored?.status).toBe('scheduled');
+    expect(stored?.headers).toEqual(request.headers!);
+    expect(stored?.body).toEqual({ items: [1, 2, 3] });
+    expect(stored?.metadata).toEqual({ tenant: 'acme' });
+    expect(stored?.scheduled_for).toEqual(request.scheduledFor!);
+    expect(stored?.created_at).toEqual(request.createdAt);
+  });
+
+  test('updates status and bumps updated_at', async () => {
+    const request = createRequest({ url: 'https://api.example.com/data', method: 'GET' });
+    await store.saveRequest(request);
+    const before = await store.getRequest(request.id);
+
+    await Bun.sleep(5);
+    await store.updateRequestStatus(request.id, 'processing', {
+      attempts: 1,
+      lastAttemptAt: new Date(),
+    });
+
+    const after = await store.getRequest(request.id);
+    expect(after?.status).toBe('processing');
+    expect(after?.attempts).toBe(1);
+    expect(after!.updated_at.getTime()).toBeGreaterThan(before!.updated_at.getTime());
+  });
+
+  test('logs attempts and computes stats', async () => {
+    const ok = createRequest({ url: 'https://api.example.com/ok', method: 'GET' });
+    const bad = createRequest({ url: 'https://api.example.com/bad', method: 'GET' });
+    await store.saveRequestBatch([ok, bad]);
+
+    await store.logAttempt(ok.id, 1, { statusCode: 200, durationMs: 100 });
+    await store.updateRequestStatus(ok.id, 'completed', { completedAt: new Date() });
+    await store.logAttempt(bad.id, 1, { error: 'ECONNRESET' });
+    await store.updateRequestStatus(bad.id, 'dead', { error: 'ECONNRESET' });
+
+    expect(await store.getAttempts(bad.id)).toHaveLength(1);
+
+    const stats = await store.getStats();
+    expect(stats.completed).toBe(1);
+    expect(stats.dead).toBe(1);
+    expect(stats.successRate).toBe(0.5);
+    expect(stats.avgProcessingTime).toBe(100);
+  });
+
+  test('filters by status and host, and retries dead requests', async () => {
+    const request = createRequest({ url: 'https://partner.example.com/hook', method: 'POST' });
+    await store.saveRequest(request);
+    await store.updateRequestStatus(request.id, 'dead', { error: 'HTTP 500' });
+
+    expect(await store.getRequestsByStatus('dead', 10, 0, 'partner.example.com')).toHaveLength(1);
+    expect(await store.getRequestsByStatus('dead', 10, 0, 'other.example.com')).toHaveLength(0);
+
+    await store.retryDeadRequest(request.id);
+    expect(await store.getDeadLetterRequests()).toHaveLength(0);
+    expect((await store.getRequest(request.id))?.status).toBe('pending');
+  });
+
+  test('reschedules, lists and promotes delayed requests', async () => {
+    const request = createRequest({ url: 'https://api.example.com/data', method: 'GET' });
+    const scheduledFor = new Date(Date.now() + 60000);
+
+    await store.saveRequest(request);
+
+    expect(await store.rescheduleRequest(request.id, scheduledFor)).toBe(true);
+    expect((await store.getScheduledRequests()).map((r) => r.scheduled_for)).toEqual([scheduledFor]);
+
+    await store.promoteScheduled([request.id]);
+    expect((await store.getRequest(request.id))?.status).toBe('pending');
+
+    await store.updateRequestStatus(request.id, 'completed');
+    expect(await store.rescheduleRequest(request.id, scheduledFor)).toBe(false);
+  });
+
+  test('archives expired requests with their attempts before deleting', async () => {
+    const request = createRequest({
+      url: 'https://api.example.com/data',
+      method: 'POST',
+      body: { id: 1 },
+    });
+
+    await store.saveRequest(request);
+    await store.logAttempt(request.id, 1, { statusCode: 200, responseHeaders: { etag: 'x' } });
+    await store.updateRequestStatus(request.id, 'completed', { completedAt: new Date(0) });
+
+    const expired = await store.getExpiredRequests('completed', new Date(), 10);
+    expect(expired.map((r) => r.attempt_log.length)).toEqual([1]);
+
+    expect(await store.deleteRequests([request.id], true)).toBe(1);
+    expect(await store.getRequest(request.id)).toBeNull();
+
+    const archived = await store.withTransaction((db) =>
+      db.query<{ request: string; attempts: string }, []>('SELECT request, attempts FROM requests_archive').all()
+    );
+    expect(JSON.parse(archived[0]!.request).body).toEqual({ id: 1 });
+    expect(JSON.parse(archived[0]!.attempts)[0].response_headers).toEqual({ etag: 'x' });
+  });
+
+  test('cleans up old completed requests and their attempts', async () => {
+    const request = createRequest({ url: 'https://api.example.com/data', method: 'GET' });
+    await store.saveRequest(request);
+    await store.logAttempt(request.id, 1, { statusCode: 200, durationMs: 10 });
+    await store.updateRequestStatus(request.id, 'completed', {
+      completedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+    });
+
+    expect(await store.cleanupCompleted(7)).toBe(0);
+    expect(await store.cleanupCompleted(1)).toBe(1);
+    expect(await store.getAttempts(request.id)).toHaveLength(0);
+  });
+});
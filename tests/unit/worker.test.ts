@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'bun:test';
+import { Worker } from '../../src/core/worker';
+import { BackpressureController } from '../../src/backpressure/controller';
+import { MemoryQueueBackend, MemoryStateStore } from '../../src/storage/memory';
+import { createRequest } from '../../src/core/request';
+import { DEFAULT_BACKPRESSURE_CONFIG, DEFAULT_RETRY_CONFIG } from '../../src/config';
+import { startServer, until } from '../helpers';
+
+// Counts promotion checks and can fail the next one
+class FlakyBackend extends MemoryQueueBackend {
+  checks = 0;
+  failNext = false;
+
+  override async promoteScheduledRequests(): Promise<string[]> {
+    this.checks++;
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error('connection reset');
+    }
+    return super.promoteScheduledRequests();
+  }
+}
+
+function createWorker(backend: MemoryQueueBackend, store: MemoryStateStore): Worker {
+  return new Worker(
+    backend,
+    store,
+    new BackpressureController(backend, DEFAULT_BACKPRESSURE_CONFIG),
+    DEFAULT_RETRY_CONFIG
+  );
+}
+
+describe('Worker', () => {
+  test('keeps promoting scheduled requests after a failed check', async () => {
+    const server = startServer();
+    const backend = new FlakyBackend();
+    const store = new MemoryStateStore();
+    const worker = createWorker(backend, store);
+    const request = createRequest({
+      url: `${server.base}/later`,
+      method: 'GET',
+      scheduledFor: new Date(Date.now() + 50),
+    });
+
+    try {
+      await worker.start();
+      await store.saveRequest(request);
+      await backend.enqueue(request);
+      backend.failNext = true;
+
+      await until(async () => (await store.getRequest(request.id))?.status === 'completed');
+      expect(backend.failNext).toBe(false);
+      expect((await store.getRequest(request.id))?.status).toBe('completed');
+    } finally {
+      await worker.stop();
+      server.stop();
+    }
+  });
+
+  test('runs one retry check after being stopped and restarted', async () => {
+    const backend = new FlakyBackend();
+    const worker = createWorker(backend, new MemoryStateStore());
+
+    try {
+      await worker.start();
+      for (let i = 0; i < 3; i++) {
+        await worker.stop();
+        await worker.start();
+      }
+
+      backend.checks = 0;
+      await Bun.sleep(1500);
+      expect(backend.checks).toBe(1);
+    } finally {
+      await worker.stop();
+    }
+  });
+});
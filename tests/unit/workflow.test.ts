@@ -0,0 +1,212 @@
+import { describe, test, expect } from 'bun:test';
+import { QueueManager } from '../../src/core/queue-manager';
+import { planWorkflow } from '../../src/core/workflow';
+import { renderRequest, renderTemplate } from '../../src/core/template';
+import { SqliteStore } from '../../src/storage/sqlite';
+import { createRequest } from '../../src/core/request';
+import type { WorkflowStatus } from '../../src/types';
+import { startServer, until } from '../helpers';
+
+const context = {
+  steps: {
+    login: { status: 200, headers: {}, body: { token: 'a b', user: { id: 7 } } },
+  },
+};
+
+describe('Workflows', () => {
+  test('renders templates from dependency responses', () => {
+    expect(renderTemplate({ id: '{{steps.login.body.user.id}}' }, context)).toEqual({ id: 7 });
+    expect(renderTemplate('user {{ steps.login.body.user }}', context)).toBe('user {"id":7}');
+    expect(renderTemplate('{{steps.missing.body}}!', context)).toBe('!');
+
+    expect(
+      renderRequest(
+        {
+          url: 'https://api.example.com/users?token={{steps.login.body.token}}',
+          headers: { Authorization: 'Bearer {{steps.login.body.token}}' },
+        },
+        context
+      )
+    ).toEqual({
+      url: 'https://api.example.com/users?token=a%20b',
+      headers: { Authorization: 'Bearer a b' },
+      body: undefined,
+    });
+
+    expect(() => renderRequest({ url: '{{steps.login.body.token}}' }, context)).toThrow(
+      'Templated URL is invalid'
+    );
+  });
+
+  test('rejects unknown steps and cycles', () => {
+    const step = { url: 'https://api.example.com', method: 'GET' as const };
+
+    expect(() => planWorkflow({ steps: { a: { ...step, after: ['b'] } } })).toThrow(
+      'Step a runs after unknown step b'
+    );
+    expect(() =>
+      planWorkflow({
+        steps: { a: { ...step, after: ['c'] }, b: { ...step, after: ['a'] }, c: { ...step, after: ['b'] } },
+      })
+    ).toThrow('Workflow steps form a cycle: a -> c -> b -> a');
+  });
+
+  test('runs steps in order, passing responses along', async () => {
+    const received: unknown[] = [];
+    const server = startServer(async (req, path) => {
+      if (path === '/login') return Response.json({ token: 'secret', user: { id: 7 } });
+      received.push({ path, auth: req.headers.get('authorization'), body: await req.json() });
+    });
+    const { base } = server;
+    const queue = await QueueManager.create({ storage: 'memory' });
+
+    try {
+      const workflow = await queue.createWorkflow({
+        steps: {
+          login: { url: `${base}/login`, method: 'POST' },
+          order: {
+            url: `${base}/users/{{steps.login.body.user.id}}/orders`,
+            method: 'POST',
+            headers: { Authorization: 'Bearer {{steps.login.body.token}}' },
+            body: { user: '{{steps.login.body.user.id}}' },
+            after: ['login'],
+          },
+        },
+      });
+
+      expect((await queue.getWorkflow(workflow.id))?.steps.map((s) => s.status)).toEqual([
+        'pending',
+        'waiting',
+      ]);
+
+      await queue.start();
+      await until(async () => (await queue.getWorkflow(workflow.id))?.status === 'completed');
+
+      expect(received).toEqual([{ path: '/users/7/orders', auth: 'Bearer secret', body: { user: 7 } }]);
+      expect((await queue.getWorkflow(workflow.id))?.steps[1]).toMatchObject({
+        name: 'order',
+        requestId: workflow.steps.order,
+        after: ['login'],
+        status: 'completed',
+      });
+    } finally {
+      await queue.shutdown();
+      server.stop();
+    }
+  });
+
+  test('follows a URL taken whole from a dependency response', async () => {
+    const server = startServer((_, path) =>
+      path === '/start' ? Response.json({ next: `${server.base}/next` }) : undefined
+    );
+    const { base } = server;
+    const queue = await QueueManager.create({ storage: 'memory' });
+    const follow = { url: '{{steps.start.body.next}}', method: 'GET' as const };
+
+    // Only steps that are rendered may have a URL that isn't one yet
+    expect(() => planWorkflow({ steps: { follow } })).toThrow('Invalid url');
+
+    try {
+      const workflow = await queue.createWorkflow({
+        steps: { start: { url: `${base}/start`, method: 'POST' }, follow: { ...follow, after: ['start'] } },
+      });
+
+      await queue.start();
+      await until(async () => (await queue.getWorkflow(workflow.id))?.status === 'completed');
+
+      expect((await queue.getStatus(workflow.steps.follow!))?.request.url).toBe(`${base}/next`);
+    } finally {
+      await queue.shutdown();
+      server.stop();
+    }
+  });
+
+  test('applies failure policies', async () => {
+    const server = startServer((_, path) =>
+      path.startsWith('/fail') ? undefined : Response.json({ charge: 'ch_1' })
+    );
+    const calls = server.paths;
+    const { base } = server;
+    const queue = await QueueManager.create({ storage: 'memory' });
+    const statusOf = async (id: string) => (await queue.getWorkflow(id))?.status;
+    const settled = (id: string, status: WorkflowStatus) => until(async () => (await statusOf(id)) === status);
+
+    try {
+      await queue.start();
+
+      // 'skip': the dependent runs anyway
+      const skipped = await queue.createWorkflow({
+        steps: {
+          notify: { url: `${base}/fail/notify`, method: 'POST', maxRetries: 0, onFailure: 'skip' },
+          next: { url: `${base}/next`, method: 'POST', after: ['notify'] },
+        },
+      });
+      await settled(skipped.id, 'completed');
+
+      // 'fail': waiting steps are cancelled
+      const failed = await queue.createWorkflow({
+        steps: {
+          first: { url: `${base}/fail/first`, method: 'POST', maxRetries: 0 },
+          second: { url: `${base}/second`, method: 'POST', after: ['first'] },
+        },
+      });
+      await settled(failed.id, 'failed');
+      expect((await queue.getWorkflow(failed.id))?.steps[1]).toMatchObject({
+        status: 'cancelled',
+        error: 'Workflow failed at step first',
+      });
+
+      // 'compensate': completed steps are undone
+      const compensated = await queue.createWorkflow({
+        onFailure: 'compensate',
+        steps: {
+          charge: {
+            url: `${base}/charge`,
+            method: 'POST',
+            compensate: { url: `${base}/refund/{{steps.charge.body.charge}}`, method: 'POST' },
+          },
+          ship: { url: `${base}/fail/ship`, method: 'POST', maxRetries: 0, after: ['charge'] },
+        },
+      });
+      await settled(compensated.id, 'compensated');
+
+      expect((await queue.getWorkflow(compensated.id))?.compensations).toMatchObject([
+        { name: 'charge', status: 'completed' },
+      ]);
+      expect(calls).toContain('/refund/ch_1');
+      expect(calls).not.toContain('/second');
+    } finally {
+      await queue.shutdown();
+      server.stop();
+    }
+  });
+
+  test('holds requests with dependencies until they complete', async () => {
+    const store = new SqliteStore({ filename: ':memory:' });
+    await store.connect();
+    await store.initializeSchema();
+
+    const parent = createRequest({ url: 'https://api.example.com/a', method: 'GET' });
+    const child = createRequest({
+      url: 'https://api.example.com/b',
+      method: 'GET',
+      dependsOn: [parent.id],
+    });
+    await store.saveRequestBatch([parent, child]);
+
+    expect((await store.getRequest(child.id))?.status).toBe('waiting');
+    expect((await store.getDependents(parent.id)).map((r) => r.id)).toEqual([child.id]);
+    expect((await store.getWaitingRequests()).map((r) => r.id)).toEqual([child.id]);
+
+    expect(await store.releaseRequest(child.id, { url: 'https://api.example.com/c' })).toBe(true);
+    expect(await store.releaseRequest(child.id, { url: 'https://api.example.com/d' })).toBe(false);
+    expect(await store.getRequest(child.id)).toMatchObject({
+      status: 'pending',
+      url: 'https://api.example.com/c',
+      depends_on: [parent.id],
+    });
+    expect(await store.cancelWaiting(child.id)).toBe(false);
+
+    await store.disconnect();
+  });
+});